@@ -0,0 +1,68 @@
+import { isAddress } from 'ethers';
+
+export interface ApiConfig {
+  port: number;
+  rpcUrl: string;
+  yieldFarm: string;
+  // Block the event backfill starts from
+  deployBlock: number;
+  // JSON file the event index is persisted to
+  eventsFile: string;
+  // Blocks after which an event is reported as confirmed, and re-scanned for reorgs until then
+  confirmations: number;
+  // Bearer tokens that get the authenticated rate limit; requests without one get the public limit
+  apiKeys: string[];
+  rateLimits: { public: number; authenticated: number };
+  // Concurrent WebSocket connections per API key or IP
+  maxConnections: number;
+  tokenPrices: Record<string, number>;
+  chainlinkFeeds: Record<string, string>;
+}
+
+// TOKEN_PRICE_<token>=<usd> and CHAINLINK_FEED_<token>=<aggregator>, as in the frontend's VITE_ variables
+const PRICE_PATTERN = /^(TOKEN_PRICE|CHAINLINK_FEED)_(0x[0-9a-fA-F]{40})$/;
+
+const readNumber = (env: NodeJS.ProcessEnv, key: string, fallback: number) => {
+  const value = env[key];
+  if (value === undefined || value === '') return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) throw new Error(`${key} must be a number, got "${value}"`);
+  return parsed;
+};
+
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): ApiConfig => {
+  const yieldFarm = env.YIELD_FARM_ADDRESS ?? '';
+  if (!isAddress(yieldFarm)) {
+    throw new Error('YIELD_FARM_ADDRESS must be set to the deployed YieldFarm contract');
+  }
+
+  const tokenPrices: Record<string, number> = {};
+  const chainlinkFeeds: Record<string, string> = {};
+  Object.entries(env).forEach(([key, value]) => {
+    const match = PRICE_PATTERN.exec(key);
+    if (!match || !value) return;
+
+    if (match[1] === 'TOKEN_PRICE' && Number.isFinite(Number(value))) {
+      tokenPrices[match[2]] = Number(value);
+    } else if (match[1] === 'CHAINLINK_FEED') {
+      chainlinkFeeds[match[2]] = value;
+    }
+  });
+
+  return {
+    port: readNumber(env, 'PORT', 8080),
+    rpcUrl: env.RPC_URL || 'http://127.0.0.1:8545',
+    yieldFarm,
+    deployBlock: readNumber(env, 'DEPLOY_BLOCK', 0),
+    eventsFile: env.EVENTS_FILE || 'events.json',
+    confirmations: readNumber(env, 'CONFIRMATIONS', 12),
+    apiKeys: (env.API_KEYS ?? '').split(',').map((key) => key.trim()).filter(Boolean),
+    rateLimits: {
+      public: readNumber(env, 'RATE_LIMIT_PUBLIC', 100),
+      authenticated: readNumber(env, 'RATE_LIMIT_AUTHENTICATED', 1000)
+    },
+    maxConnections: readNumber(env, 'WS_MAX_CONNECTIONS', 10),
+    tokenPrices,
+    chainlinkFeeds
+  };
+};
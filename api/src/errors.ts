@@ -0,0 +1,32 @@
+export type ErrorCode =
+  | 'BAD_REQUEST'
+  | 'INVALID_ADDRESS'
+  | 'INVALID_POOL_ID'
+  | 'UNAUTHORIZED'
+  | 'NOT_FOUND'
+  | 'METHOD_NOT_ALLOWED'
+  | 'RATE_LIMITED'
+  | 'INTERNAL_ERROR';
+
+/** An error that maps onto an HTTP status and the documented `{ error: { code, message, details } }` body. */
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: ErrorCode,
+    message: string,
+    readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+
+  toJSON() {
+    return { error: { code: this.code, message: this.message, ...(this.details && { details: this.details }) } };
+  }
+}
+
+export const badRequest = (message: string, details?: Record<string, unknown>) =>
+  new ApiError(400, 'BAD_REQUEST', message, details);
+
+export const invalidPoolId = (poolId: string | number, poolCount?: number) =>
+  new ApiError(404, 'INVALID_POOL_ID', `Pool ${poolId} does not exist`, poolCount === undefined ? undefined : { poolCount });
@@ -0,0 +1,58 @@
+import { execute, ExecutionResult, GraphQLError, parse, validate } from 'graphql';
+import { ApiError } from '../errors.js';
+import { FarmService } from '../service.js';
+import { createLoaders } from './loaders.js';
+import { rootValue } from './resolvers.js';
+import { schema } from './schema.js';
+
+export interface GraphQLRequest {
+  query: string;
+  variables?: Record<string, unknown> | null;
+  operationName?: string | null;
+}
+
+// ApiErrors keep their message and expose the code; anything else is logged and masked
+const formatError = (error: GraphQLError) => {
+  const original = error.originalError;
+  if (!original || original instanceof GraphQLError) return error;
+  if (original instanceof ApiError) {
+    return new GraphQLError(original.message, {
+      nodes: error.nodes,
+      path: error.path,
+      extensions: { code: original.code, ...(original.details && { details: original.details }) }
+    });
+  }
+  console.error(`GraphQL resolver failed at ${error.path?.join('.')}:`, original);
+  return new GraphQLError('Internal server error', { nodes: error.nodes, path: error.path, extensions: { code: 'INTERNAL_ERROR' } });
+};
+
+/**
+ * Runs one GraphQL request with fresh loaders. Documents that fail to parse or validate come back
+ * with status 400, following the GraphQL-over-HTTP convention; execution errors are reported in `errors`.
+ */
+export const executeGraphQL = async (service: FarmService, request: GraphQLRequest): Promise<{ status: number; body: ExecutionResult }> => {
+  let document;
+  try {
+    document = parse(request.query);
+  } catch (error) {
+    return { status: 400, body: { errors: [error as GraphQLError] } };
+  }
+
+  const validationErrors = validate(schema, document);
+  if (validationErrors.length > 0) {
+    return { status: 400, body: { errors: validationErrors } };
+  }
+
+  const result = await execute({
+    schema,
+    document,
+    rootValue,
+    contextValue: { service, loaders: createLoaders(service) },
+    variableValues: request.variables,
+    operationName: request.operationName
+  });
+
+  return { status: 200, body: { ...result, ...(result.errors && { errors: result.errors.map(formatError) }) } };
+};
+
+export { schema } from './schema.js';
@@ -0,0 +1,63 @@
+import DataLoader from 'dataloader';
+import { TransactionReceipt } from 'ethers';
+import { FarmEvent, FarmInfo, getPrices, Pool, UserPosition } from '@yieldfarm/sdk';
+import { FarmService } from '../service.js';
+
+export interface PositionKey {
+  pid: number;
+  user: string;
+}
+
+/**
+ * Per-request caches. Resolvers ask for one pool, position or receipt at a time; DataLoader collects
+ * everything requested in the same tick and the batch functions fire those reads together, which
+ * JsonRpcProvider sends as a single JSON-RPC batch instead of one round trip per field.
+ */
+export interface Loaders {
+  pool: DataLoader<number, Pool>;
+  position: DataLoader<PositionKey, UserPosition, string>;
+  receipt: DataLoader<string, TransactionReceipt | null>;
+  poolCount(): Promise<number>;
+  farmInfo(): Promise<FarmInfo>;
+  blockNumber(): Promise<number>;
+  prices(): Promise<Record<string, number>>;
+  events(): Promise<FarmEvent[]>;
+}
+
+// Errors are returned in place so one bad key fails only its own field
+const settle = <T>(promises: Promise<T>[]) =>
+  Promise.all(promises.map((promise) => promise.catch((error: Error) => error)));
+
+const once = <T>(load: () => Promise<T>) => {
+  let value: Promise<T> | undefined;
+  return () => (value ??= load());
+};
+
+export const createLoaders = (service: FarmService): Loaders => {
+  const { client } = service;
+  const provider = client.runner.provider!;
+
+  const pool = new DataLoader<number, Pool>((pids) => settle(pids.map((pid) => client.getPool(pid))));
+  const farmInfo = once(() => client.getFarmInfo());
+
+  return {
+    pool,
+    position: new DataLoader<PositionKey, UserPosition, string>(
+      (keys) => settle(keys.map(({ pid, user }) => client.getUserPosition(pid, user))),
+      { cacheKeyFn: ({ pid, user }) => `${pid}:${user.toLowerCase()}` }
+    ),
+    receipt: new DataLoader<string, TransactionReceipt | null>((hashes) =>
+      settle(hashes.map((hash) => provider.getTransactionReceipt(hash)))
+    ),
+    poolCount: once(async () => (await farmInfo()).poolCount),
+    farmInfo,
+    blockNumber: once(() => provider.getBlockNumber()),
+    prices: once(async () => {
+      const info = await farmInfo();
+      const pools = await pool.loadMany(Array.from({ length: info.poolCount }, (_, pid) => pid));
+      const lpTokens = pools.filter((entry): entry is Pool => !(entry instanceof Error)).map((entry) => entry.lpToken);
+      return getPrices(service.priceSource, [info.rewardToken, ...lpTokens]);
+    }),
+    events: once(() => service.indexer.store.getEvents())
+  };
+};
@@ -0,0 +1,360 @@
+import { formatUnits, getAddress, isAddress } from 'ethers';
+import { computePoolApr, FarmEvent, FarmEventType, Pool, PoolApr, UserPosition } from '@yieldfarm/sdk';
+import { ApiError, badRequest, invalidPoolId } from '../errors.js';
+import { formatPercent, formatUsd, FarmService, stakers, sum, toEighteenDecimals, VERSION } from '../service.js';
+import { Loaders } from './loaders.js';
+
+export interface Context {
+  service: FarmService;
+  loaders: Loaders;
+}
+
+interface ListArgs {
+  first: number;
+  skip: number;
+  orderBy: 'timestamp';
+  orderDirection: 'asc' | 'desc';
+}
+
+const REWARD_DECIMALS = 18;
+const MAX_FIRST = 1000;
+
+// RewardPaid is also emitted when deposit/withdraw pay out pending rewards; it is reported as a harvest either way
+const TRANSACTION_TYPES: Record<FarmEventType, string> = {
+  deposit: 'DEPOSIT',
+  withdraw: 'WITHDRAW',
+  emergencyWithdraw: 'EMERGENCY_WITHDRAW',
+  rewardPaid: 'HARVEST'
+};
+
+// Store events come newest first, which is timestamp desc
+const paginate = (events: FarmEvent[], args: ListArgs) => {
+  if (!Number.isInteger(args.first) || args.first < 0 || args.first > MAX_FIRST) {
+    throw badRequest(`"first" must be between 0 and ${MAX_FIRST}`, { first: args.first });
+  }
+  if (!Number.isInteger(args.skip) || args.skip < 0) {
+    throw badRequest('"skip" must not be negative', { skip: args.skip });
+  }
+  const ordered = args.orderDirection === 'asc' ? [...events].reverse() : events;
+  return ordered.slice(args.skip, args.skip + args.first);
+};
+
+const loadPool = async (ctx: Context, pid: number) => new PoolModel(await ctx.loaders.pool.load(pid), ctx);
+
+const loadPools = async (ctx: Context) => {
+  const count = await ctx.loaders.poolCount();
+  return Promise.all(Array.from({ length: count }, (_, pid) => loadPool(ctx, pid)));
+};
+
+const parseAddress = (value: string) => {
+  if (!isAddress(value)) throw new ApiError(400, 'INVALID_ADDRESS', `"${value}" is not a valid address`);
+  return getAddress(value);
+};
+
+// Resolves a pool id argument to a pid, or null when no such pool exists
+const parsePoolId = async (ctx: Context, id: string) => {
+  const count = await ctx.loaders.poolCount();
+  return /^\d+$/.test(id) && Number(id) < count ? Number(id) : null;
+};
+
+class ProtocolModel {
+  readonly name = 'YieldFarm Protocol';
+  readonly version = VERSION;
+
+  constructor(
+    readonly id: string,
+    private readonly ctx: Context
+  ) {}
+
+  // Null as soon as one pool's LP token has no price, rather than understating the total
+  async totalValueLocked() {
+    const [pools, prices] = await Promise.all([loadPools(this.ctx), this.ctx.loaders.prices()]);
+    let total = 0;
+    for (const { pool } of pools) {
+      const price = prices[pool.lpToken.toLowerCase()];
+      if (price === undefined) return null;
+      total += Number(formatUnits(pool.totalStaked, pool.decimals)) * price;
+    }
+    return formatUsd(total);
+  }
+
+  async totalRewardsDistributed() {
+    const events = await this.ctx.loaders.events();
+    return formatUnits(sum(events.filter((event) => event.type === 'rewardPaid').map((event) => event.amount)), REWARD_DECIMALS);
+  }
+
+  async totalUsers() {
+    const events = await this.ctx.loaders.events();
+    return new Set(events.map((event) => event.user.toLowerCase())).size;
+  }
+
+  async activeUsers() {
+    return stakers(await this.ctx.loaders.events()).size;
+  }
+
+  pools() {
+    return loadPools(this.ctx);
+  }
+}
+
+class PoolModel {
+  private rates?: Promise<PoolApr>;
+
+  constructor(
+    readonly pool: Pool,
+    private readonly ctx: Context
+  ) {}
+
+  get id() {
+    return String(this.pool.pid);
+  }
+
+  get name() {
+    return this.pool.symbol;
+  }
+
+  get lpToken() {
+    return this.pool.lpToken;
+  }
+
+  get allocPoint() {
+    return this.pool.allocPoint.toString();
+  }
+
+  get totalStaked() {
+    return formatUnits(this.pool.totalStaked, this.pool.decimals);
+  }
+
+  get minStakeAmount() {
+    return formatUnits(this.pool.minStakeAmount, this.pool.decimals);
+  }
+
+  get maxStakeAmount() {
+    return formatUnits(this.pool.maxStakeAmount, this.pool.decimals);
+  }
+
+  async apr() {
+    return formatPercent((await this.getRates()).apr);
+  }
+
+  async apy() {
+    return formatPercent((await this.getRates()).apy);
+  }
+
+  async participants() {
+    return stakers(await this.ctx.loaders.events(), this.pool.pid).size;
+  }
+
+  async deposits(args: ListArgs) {
+    return this.listEvents(['deposit'], args);
+  }
+
+  async withdrawals(args: ListArgs) {
+    return this.listEvents(['withdraw', 'emergencyWithdraw'], args);
+  }
+
+  private async listEvents(types: FarmEventType[], args: ListArgs) {
+    const events = (await this.ctx.loaders.events()).filter((event) => event.pid === this.pool.pid && types.includes(event.type));
+    return paginate(events, args).map((event) => new TransactionModel(event, this.ctx));
+  }
+
+  private getRates() {
+    this.rates ??= (async () => {
+      const [farmInfo, blockNumber, prices, blockTime] = await Promise.all([
+        this.ctx.loaders.farmInfo(),
+        this.ctx.loaders.blockNumber(),
+        this.ctx.loaders.prices(),
+        this.ctx.service.getBlockTime()
+      ]);
+      return computePoolApr(
+        farmInfo,
+        { pid: this.pool.pid, allocPoint: this.pool.allocPoint, totalStaked: this.pool.totalStaked, lpDecimals: this.pool.decimals },
+        {
+          currentBlock: BigInt(blockNumber),
+          blockTime,
+          rewardTokenPrice: prices[farmInfo.rewardToken.toLowerCase()],
+          lpTokenPrice: prices[this.pool.lpToken.toLowerCase()]
+        }
+      );
+    })();
+    return this.rates;
+  }
+}
+
+class UserModel {
+  private positions?: Promise<UserPosition[]>;
+
+  constructor(
+    readonly address: string,
+    private readonly ctx: Context
+  ) {}
+
+  get id() {
+    return this.address;
+  }
+
+  // Pools may use LP tokens with different decimals, so stakes are summed in 18-decimal units
+  async totalStaked() {
+    const [positions, pools] = await Promise.all([this.getPositions(), loadPools(this.ctx)]);
+    return formatUnits(sum(positions.map((position) => toEighteenDecimals(position.amount, pools[position.pid].pool.decimals))), 18);
+  }
+
+  // Already paid out plus what is claimable now
+  async totalRewardsEarned() {
+    const [positions, events] = await Promise.all([this.getPositions(), this.getEvents()]);
+    const paid = sum(events.filter((event) => event.type === 'rewardPaid').map((event) => event.amount));
+    return formatUnits(paid + sum(positions.map((position) => position.pendingReward)), REWARD_DECIMALS);
+  }
+
+  async stakes() {
+    const positions = await this.getPositions();
+    return positions.filter((position) => position.amount > 0n).map((position) => new UserStakeModel(position, this.ctx));
+  }
+
+  async transactions(args: ListArgs) {
+    return paginate(await this.getEvents(), args).map((event) => new TransactionModel(event, this.ctx));
+  }
+
+  private async getEvents() {
+    const user = this.address.toLowerCase();
+    return (await this.ctx.loaders.events()).filter((event) => event.user.toLowerCase() === user);
+  }
+
+  private getPositions() {
+    this.positions ??= (async () => {
+      const count = await this.ctx.loaders.poolCount();
+      return Promise.all(Array.from({ length: count }, (_, pid) => this.ctx.loaders.position.load({ pid, user: this.address })));
+    })();
+    return this.positions;
+  }
+}
+
+class UserStakeModel {
+  constructor(
+    private readonly position: UserPosition,
+    private readonly ctx: Context
+  ) {}
+
+  get id() {
+    return `${this.position.user}-${this.position.pid}`;
+  }
+
+  get rewardDebt() {
+    return formatUnits(this.position.rewardDebt, REWARD_DECIMALS);
+  }
+
+  // Claimable right now, as returned by pendingReward()
+  get pendingRewards() {
+    return formatUnits(this.position.pendingReward, REWARD_DECIMALS);
+  }
+
+  get lastStakeTime() {
+    return this.position.lastStakeTime.toString();
+  }
+
+  user() {
+    return new UserModel(this.position.user, this.ctx);
+  }
+
+  pool() {
+    return loadPool(this.ctx, this.position.pid);
+  }
+
+  async amount() {
+    const { pool } = await loadPool(this.ctx, this.position.pid);
+    return formatUnits(this.position.amount, pool.decimals);
+  }
+}
+
+// Backs Transaction, Deposit and Withdrawal
+class TransactionModel {
+  constructor(
+    private readonly event: FarmEvent,
+    private readonly ctx: Context
+  ) {}
+
+  get id() {
+    return this.event.id;
+  }
+
+  get hash() {
+    return this.event.transactionHash;
+  }
+
+  get type() {
+    return TRANSACTION_TYPES[this.event.type];
+  }
+
+  get timestamp() {
+    return String(this.event.timestamp);
+  }
+
+  get blockNumber() {
+    return String(this.event.blockNumber);
+  }
+
+  get emergency() {
+    return this.event.type === 'emergencyWithdraw';
+  }
+
+  user() {
+    return new UserModel(getAddress(this.event.user), this.ctx);
+  }
+
+  pool() {
+    return loadPool(this.ctx, this.event.pid);
+  }
+
+  async amount() {
+    if (this.event.type === 'rewardPaid') return formatUnits(this.event.amount, REWARD_DECIMALS);
+    const { pool } = await loadPool(this.ctx, this.event.pid);
+    return formatUnits(this.event.amount, pool.decimals);
+  }
+
+  async gasUsed() {
+    const receipt = await this.ctx.loaders.receipt.load(this.event.transactionHash);
+    if (!receipt) throw new Error(`Receipt for ${this.event.transactionHash} not found`);
+    return receipt.gasUsed.toString();
+  }
+}
+
+interface TransactionsArgs extends ListArgs {
+  user?: string;
+  pool?: string;
+  type?: string;
+}
+
+/** Root resolvers; graphql-js calls each with (args, context). */
+export const rootValue = {
+  protocol: async (_args: { id?: string }, ctx: Context) => {
+    const network = await ctx.service.client.runner.provider!.getNetwork();
+    return new ProtocolModel(String(network.chainId), ctx);
+  },
+
+  pools: (_args: unknown, ctx: Context) => loadPools(ctx),
+
+  pool: async ({ id }: { id: string }, ctx: Context) => {
+    const pid = await parsePoolId(ctx, id);
+    return pid === null ? null : loadPool(ctx, pid);
+  },
+
+  user: ({ id }: { id: string }, ctx: Context) => new UserModel(parseAddress(id), ctx),
+
+  transactions: async (args: TransactionsArgs, ctx: Context) => {
+    const user = args.user === undefined ? undefined : parseAddress(args.user).toLowerCase();
+    let pid: number | undefined;
+    if (args.pool !== undefined) {
+      const parsed = await parsePoolId(ctx, args.pool);
+      if (parsed === null) throw invalidPoolId(args.pool, await ctx.loaders.poolCount());
+      pid = parsed;
+    }
+
+    const events = (await ctx.loaders.events()).filter(
+      (event) =>
+        (user === undefined || event.user.toLowerCase() === user) &&
+        (pid === undefined || event.pid === pid) &&
+        (args.type === undefined || TRANSACTION_TYPES[event.type] === args.type)
+    );
+    return paginate(events, args).map((event) => new TransactionModel(event, ctx));
+  }
+};
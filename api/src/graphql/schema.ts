@@ -0,0 +1,117 @@
+import { buildSchema } from 'graphql';
+
+// Follows docs/api/README.md. Amounts are decimal strings in token units; USD figures and apy are
+// null when a token involved has no configured price.
+export const schema = buildSchema(`
+  scalar BigInt
+  scalar BigDecimal
+
+  enum TransactionType {
+    DEPOSIT
+    WITHDRAW
+    HARVEST
+    EMERGENCY_WITHDRAW
+  }
+
+  enum TransactionOrderBy {
+    timestamp
+  }
+
+  enum OrderDirection {
+    asc
+    desc
+  }
+
+  type Protocol {
+    id: ID!
+    name: String!
+    version: String!
+    totalValueLocked: BigDecimal
+    totalRewardsDistributed: BigDecimal!
+    totalUsers: Int!
+    activeUsers: Int!
+    pools: [Pool!]!
+  }
+
+  type Pool {
+    id: ID!
+    name: String!
+    lpToken: String!
+    allocPoint: BigInt!
+    totalStaked: BigDecimal!
+    apr: BigDecimal
+    apy: BigDecimal
+    participants: Int!
+    minStakeAmount: BigDecimal!
+    maxStakeAmount: BigDecimal!
+    deposits(first: Int = 100, skip: Int = 0, orderBy: TransactionOrderBy = timestamp, orderDirection: OrderDirection = desc): [Deposit!]!
+    withdrawals(first: Int = 100, skip: Int = 0, orderBy: TransactionOrderBy = timestamp, orderDirection: OrderDirection = desc): [Withdrawal!]!
+  }
+
+  type User {
+    id: ID!
+    address: String!
+    totalStaked: BigDecimal!
+    totalRewardsEarned: BigDecimal!
+    stakes: [UserStake!]!
+    transactions(first: Int = 100, skip: Int = 0, orderBy: TransactionOrderBy = timestamp, orderDirection: OrderDirection = desc): [Transaction!]!
+  }
+
+  type UserStake {
+    id: ID!
+    user: User!
+    pool: Pool!
+    amount: BigDecimal!
+    rewardDebt: BigDecimal!
+    pendingRewards: BigDecimal!
+    lastStakeTime: BigInt!
+  }
+
+  type Transaction {
+    id: ID!
+    hash: String!
+    type: TransactionType!
+    user: User!
+    pool: Pool!
+    amount: BigDecimal!
+    timestamp: BigInt!
+    blockNumber: BigInt!
+    gasUsed: BigInt!
+  }
+
+  type Deposit {
+    id: ID!
+    hash: String!
+    user: User!
+    pool: Pool!
+    amount: BigDecimal!
+    timestamp: BigInt!
+  }
+
+  type Withdrawal {
+    id: ID!
+    hash: String!
+    user: User!
+    pool: Pool!
+    amount: BigDecimal!
+    timestamp: BigInt!
+    # True for emergencyWithdraw, which forfeits pending rewards
+    emergency: Boolean!
+  }
+
+  type Query {
+    protocol(id: ID): Protocol!
+    pools: [Pool!]!
+    pool(id: String!): Pool
+    user(id: String!): User
+    transactions(
+      first: Int = 100
+      skip: Int = 0
+      orderBy: TransactionOrderBy = timestamp
+      orderDirection: OrderDirection = desc
+      user: String
+      pool: String
+      type: TransactionType
+    ): [Transaction!]!
+  }
+`);
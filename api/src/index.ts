@@ -0,0 +1,13 @@
+export { ApiError } from './errors.js';
+export type { ErrorCode } from './errors.js';
+export { loadConfig } from './config.js';
+export type { ApiConfig } from './config.js';
+export { executeGraphQL, schema } from './graphql/index.js';
+export type { GraphQLRequest } from './graphql/index.js';
+export { RateLimiter } from './rateLimit.js';
+export { createApiServer } from './server.js';
+export type { ServerOptions } from './server.js';
+export { FarmService } from './service.js';
+export type { TransactionQuery } from './service.js';
+export { attachEventStream } from './stream.js';
+export type { StreamOptions } from './stream.js';
@@ -0,0 +1,57 @@
+import { JsonRpcProvider } from 'ethers';
+import {
+  CachedPriceSource,
+  ChainlinkPriceSource,
+  ConstantPriceSource,
+  EventIndexer,
+  FallbackPriceSource,
+  UniswapV2PairPriceSource,
+  YieldFarmClient
+} from '@yieldfarm/sdk';
+import { JsonFileEventStore } from '@yieldfarm/sdk/node';
+import { loadConfig } from './config.js';
+import { createApiServer } from './server.js';
+import { FarmService } from './service.js';
+import { attachEventStream } from './stream.js';
+
+const main = async () => {
+  const config = loadConfig();
+  const provider = new JsonRpcProvider(config.rpcUrl);
+
+  // Same order as the frontend: pinned prices, Chainlink, then Uniswap V2 LP pricing
+  const tokenPrices = new FallbackPriceSource([
+    new ConstantPriceSource(config.tokenPrices),
+    new ChainlinkPriceSource(provider, config.chainlinkFeeds, { maxAgeSeconds: 24 * 60 * 60 })
+  ]);
+  const priceSource = new CachedPriceSource(new FallbackPriceSource([tokenPrices, new UniswapV2PairPriceSource(provider, tokenPrices)]));
+
+  const indexer = new EventIndexer(config.yieldFarm, provider, new JsonFileEventStore(config.eventsFile), {
+    fromBlock: config.deployBlock,
+    confirmations: config.confirmations
+  });
+  console.log(`Indexing YieldFarm ${config.yieldFarm} from block ${config.deployBlock}...`);
+  await indexer.start();
+
+  const service = new FarmService(new YieldFarmClient(config.yieldFarm, provider), indexer, priceSource, config.confirmations);
+  const server = createApiServer(service, config);
+  const stream = attachEventStream(server, service, { apiKeys: config.apiKeys, maxConnections: config.maxConnections });
+  server.listen(config.port, () => {
+    console.log(`YieldFarm API listening on http://localhost:${config.port}/v1`);
+    console.log(`GraphQL endpoint at http://localhost:${config.port}/graphql`);
+    console.log(`Event stream at ws://localhost:${config.port}/ws`);
+  });
+
+  const shutdown = async () => {
+    await stream.close();
+    server.close();
+    await indexer.stop();
+    provider.destroy();
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,42 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Unix seconds when the current window ends
+  reset: number;
+}
+
+/** Fixed one-minute windows per client key, as advertised by the X-RateLimit-* headers. */
+export class RateLimiter {
+  private readonly windows = new Map<string, { start: number; count: number }>();
+
+  constructor(
+    private readonly windowMs = 60_000,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  hit(key: string, limit: number): RateLimitResult {
+    const now = this.now();
+    const start = now - (now % this.windowMs);
+    let window = this.windows.get(key);
+    if (!window || window.start !== start) {
+      window = { start, count: 0 };
+      this.windows.set(key, window);
+      this.prune(start);
+    }
+
+    window.count++;
+    return {
+      allowed: window.count <= limit,
+      limit,
+      remaining: Math.max(0, limit - window.count),
+      reset: Math.ceil((start + this.windowMs) / 1000)
+    };
+  }
+
+  private prune(currentStart: number) {
+    this.windows.forEach((window, key) => {
+      if (window.start < currentStart) this.windows.delete(key);
+    });
+  }
+}
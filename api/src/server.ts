@@ -0,0 +1,189 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { isAddress } from 'ethers';
+import { FarmEventType } from '@yieldfarm/sdk';
+import { ApiError, badRequest } from './errors.js';
+import { executeGraphQL, GraphQLRequest } from './graphql/index.js';
+import { RateLimiter } from './rateLimit.js';
+import { FarmService } from './service.js';
+
+export interface ServerOptions {
+  apiKeys: string[];
+  rateLimits: { public: number; authenticated: number };
+  // Path prefix every route is served under, matching the documented base URL
+  basePath?: string;
+  graphqlPath?: string;
+}
+
+type Params = Record<string, string>;
+type Handler = (params: Params, query: URLSearchParams) => Promise<unknown>;
+
+const EVENT_TYPES: FarmEventType[] = ['deposit', 'withdraw', 'emergencyWithdraw', 'rewardPaid'];
+const MAX_PAGE_SIZE = 100;
+const MAX_BODY_BYTES = 100_000;
+
+const parseAddress = (value: string) => {
+  if (!isAddress(value)) throw new ApiError(400, 'INVALID_ADDRESS', `"${value}" is not a valid address`);
+  return value;
+};
+
+const parsePoolId = (value: string) => {
+  if (!/^\d+$/.test(value)) throw new ApiError(404, 'INVALID_POOL_ID', `Pool ${value} does not exist`);
+  return Number(value);
+};
+
+const parseInteger = (query: URLSearchParams, key: string, fallback: number, max = Number.MAX_SAFE_INTEGER) => {
+  const value = query.get(key);
+  if (value === null) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0 || parsed > max) {
+    throw badRequest(`"${key}" must be an integer between 0 and ${max}`, { [key]: value });
+  }
+  return parsed;
+};
+
+const routes = (service: FarmService): [string, Handler][] => [
+  ['/protocol/info', () => service.getProtocolInfo()],
+  ['/protocol/stats', () => service.getProtocolStats()],
+  ['/pools', () => service.getPools()],
+  ['/pools/:poolId', (params) => service.getPool(parsePoolId(params.poolId))],
+  ['/users/:address', (params) => service.getUser(parseAddress(params.address))],
+  ['/users/:address/rewards', (params) => service.getUserRewards(parseAddress(params.address))],
+  [
+    '/transactions',
+    (_, query) => {
+      const type = query.get('type');
+      if (type !== null && !EVENT_TYPES.includes(type as FarmEventType)) {
+        throw badRequest(`"type" must be one of ${EVENT_TYPES.join(', ')}`, { type });
+      }
+      const user = query.get('user');
+      const poolId = query.get('poolId');
+
+      return service.getTransactions({
+        limit: Math.max(1, parseInteger(query, 'limit', 50, MAX_PAGE_SIZE)),
+        offset: parseInteger(query, 'offset', 0),
+        user: user === null ? undefined : parseAddress(user),
+        pid: poolId === null ? undefined : parsePoolId(poolId),
+        type: (type ?? undefined) as FarmEventType | undefined
+      });
+    }
+  ]
+];
+
+// Matches `/pools/:poolId` style patterns segment by segment
+const matchRoute = (pattern: string, path: string): Params | null => {
+  const patternParts = pattern.split('/');
+  const pathParts = path.split('/');
+  if (patternParts.length !== pathParts.length) return null;
+
+  const params: Params = {};
+  for (let i = 0; i < patternParts.length; i++) {
+    if (patternParts[i].startsWith(':')) {
+      params[patternParts[i].slice(1)] = pathParts[i];
+    } else if (patternParts[i] !== pathParts[i]) {
+      return null;
+    }
+  }
+  // Decoded only once the route matched, so a bad escape is reported against the route it was meant for
+  for (const [key, value] of Object.entries(params)) {
+    try {
+      params[key] = decodeURIComponent(value);
+    } catch {
+      throw badRequest(`"${key}" is not validly percent-encoded`, { [key]: value });
+    }
+  }
+  return params;
+};
+
+const readBody = async (req: IncomingMessage): Promise<string> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw badRequest(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+// POST with a JSON body, or GET with query/variables/operationName in the query string
+const readGraphQLRequest = async (req: IncomingMessage, query: URLSearchParams): Promise<GraphQLRequest> => {
+  let request: Partial<GraphQLRequest>;
+  try {
+    request =
+      req.method === 'POST'
+        ? JSON.parse(await readBody(req))
+        : { query: query.get('query') ?? undefined, variables: JSON.parse(query.get('variables') ?? 'null'), operationName: query.get('operationName') };
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    throw badRequest('GraphQL request must be valid JSON');
+  }
+  if (typeof request.query !== 'string') throw badRequest('GraphQL request is missing "query"');
+  return request as GraphQLRequest;
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Serves the REST endpoints from docs/api/README.md. Every response carries X-RateLimit-* headers;
+ * a valid `Authorization: Bearer <key>` gets the authenticated limit, anything else the public one.
+ * The GraphQL endpoint shares the same limits and error handling.
+ */
+export const createApiServer = (service: FarmService, options: ServerOptions): Server => {
+  const table = routes(service);
+  const limiter = new RateLimiter();
+  const basePath = (options.basePath ?? '/v1').replace(/\/$/, '');
+  const graphqlPath = options.graphqlPath ?? '/graphql';
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const authorization = req.headers.authorization;
+    const apiKey = authorization === undefined ? undefined : /^Bearer (.+)$/.exec(authorization)?.[1];
+    const authenticated = apiKey !== undefined && options.apiKeys.includes(apiKey);
+
+    // Requests with a bad key still count against their IP, so guessing keys is rate limited too
+    const rate = authenticated
+      ? limiter.hit(`key:${apiKey}`, options.rateLimits.authenticated)
+      : limiter.hit(`ip:${req.socket.remoteAddress}`, options.rateLimits.public);
+    res.setHeader('X-RateLimit-Limit', rate.limit);
+    res.setHeader('X-RateLimit-Remaining', rate.remaining);
+    res.setHeader('X-RateLimit-Reset', rate.reset);
+    if (!rate.allowed) {
+      res.setHeader('Retry-After', Math.max(0, rate.reset - Math.floor(Date.now() / 1000)));
+      throw new ApiError(429, 'RATE_LIMITED', `Rate limit of ${rate.limit} requests per minute exceeded`, { reset: rate.reset });
+    }
+    if (authorization !== undefined && !authenticated) {
+      throw new ApiError(401, 'UNAUTHORIZED', 'Invalid API key');
+    }
+
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const path = url.pathname.replace(/\/$/, '');
+    if (path === graphqlPath) {
+      if (req.method !== 'GET' && req.method !== 'POST') {
+        throw new ApiError(405, 'METHOD_NOT_ALLOWED', `${req.method} is not supported, use GET or POST`);
+      }
+      const result = await executeGraphQL(service, await readGraphQLRequest(req, url.searchParams));
+      return sendJson(res, result.status, result.body);
+    }
+
+    const route = path.startsWith(`${basePath}/`)
+      ? table.map(([pattern, handler]) => ({ handler, params: matchRoute(pattern, path.slice(basePath.length)) })).find((entry) => entry.params)
+      : undefined;
+    if (!route) throw new ApiError(404, 'NOT_FOUND', `No route for ${url.pathname}`);
+    if (req.method !== 'GET') throw new ApiError(405, 'METHOD_NOT_ALLOWED', `${req.method} is not supported, use GET`);
+
+    sendJson(res, 200, await route.handler(route.params!, url.searchParams));
+  };
+
+  return createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      if (error instanceof ApiError) {
+        sendJson(res, error.status, error);
+      } else {
+        console.error(`${req.method} ${req.url} failed:`, error);
+        sendJson(res, 500, new ApiError(500, 'INTERNAL_ERROR', 'Internal server error'));
+      }
+    });
+  });
+};
@@ -0,0 +1,335 @@
+import { readFileSync } from 'node:fs';
+import { formatUnits, getAddress, Provider } from 'ethers';
+import {
+  computePoolApr,
+  estimateBlockTime,
+  EventIndexer,
+  FarmEvent,
+  FarmEventType,
+  FarmInfo,
+  getPrices,
+  Pool,
+  PriceSource,
+  replayStakes,
+  YieldFarmClient
+} from '@yieldfarm/sdk';
+import { invalidPoolId } from './errors.js';
+
+export const { version: VERSION } = JSON.parse(readFileSync(new URL('../package.json', import.meta.url), 'utf8'));
+const DAY = 24 * 60 * 60;
+const REWARD_DECIMALS = 18;
+
+export interface TransactionQuery {
+  limit: number;
+  offset: number;
+  user?: string;
+  pid?: number;
+  type?: FarmEventType;
+}
+
+interface FarmSnapshot {
+  farmInfo: FarmInfo;
+  pools: Pool[];
+  block: { number: number; timestamp: number };
+  prices: Record<string, number>;
+}
+
+// USD figures are strings with two decimals, or null when a token involved has no price
+export const formatUsd = (value: number | undefined) => (value === undefined ? null : value.toFixed(2));
+export const formatPercent = (rate: number | null) => (rate === null ? null : (rate * 100).toFixed(2));
+export const toIso = (timestamp: number) => new Date(timestamp * 1000).toISOString();
+export const sum = (values: bigint[]) => values.reduce((total, value) => total + value, 0n);
+
+// Rescales an amount to 18 decimals, so stakes in LP tokens with different decimals can be summed.
+// Tokens with more than 18 decimals lose the extra precision.
+export const toEighteenDecimals = (amount: bigint, decimals: number) =>
+  decimals <= 18 ? amount * 10n ** BigInt(18 - decimals) : amount / 10n ** BigInt(decimals - 18);
+
+/** Replays deposits and withdrawals oldest first to get each user's stake per pool, keyed `${user}:${pid}`. */
+export const stakers = (events: FarmEvent[], pid?: number) => {
+  const users = new Set<string>();
+  replayStakes(events).forEach((amount, key) => {
+    const [user, eventPid] = key.split(':');
+    if (amount > 0n && (pid === undefined || Number(eventPid) === pid)) users.add(user);
+  });
+  return users;
+};
+
+/**
+ * Read model behind the API: live contract state from YieldFarmClient, history and participation
+ * from the event index. Responses are plain JSON with token amounts as decimal strings.
+ */
+export class FarmService {
+  private blockTime: Promise<number> | null = null;
+
+  constructor(
+    readonly client: YieldFarmClient,
+    readonly indexer: EventIndexer,
+    readonly priceSource: PriceSource,
+    readonly confirmations = 12
+  ) {}
+
+  private get provider(): Provider {
+    return this.client.runner.provider!;
+  }
+
+  async getProtocolInfo() {
+    const [snapshot, owner, network, events] = await Promise.all([
+      this.loadSnapshot(),
+      this.client.farm.owner(),
+      this.provider.getNetwork(),
+      this.indexer.store.getEvents()
+    ]);
+
+    return {
+      name: 'YieldFarm Protocol',
+      version: VERSION,
+      chainId: Number(network.chainId),
+      contracts: {
+        yieldFarm: this.client.address,
+        yieldToken: snapshot.farmInfo.rewardToken,
+        deployer: owner
+      },
+      metrics: {
+        totalValueLocked: formatUsd(this.getTvl(snapshot)),
+        totalRewardsDistributed: formatUnits(sum(events.filter((event) => event.type === 'rewardPaid').map((event) => event.amount)), REWARD_DECIMALS),
+        activeUsers: stakers(events).size,
+        totalPools: snapshot.farmInfo.poolCount
+      }
+    };
+  }
+
+  async getProtocolStats() {
+    const [snapshot, events] = await Promise.all([this.loadSnapshot(), this.indexer.store.getEvents()]);
+    const now = snapshot.block.timestamp;
+    const since = (seconds: number) => events.filter((event) => event.timestamp > now - seconds);
+
+    // TVL a day ago is today's stake minus the net flow since, valued at today's prices
+    const tvl = this.getTvl(snapshot);
+    const dayAgo = this.getTvl({
+      ...snapshot,
+      pools: snapshot.pools.map((pool) => {
+        const flows = since(DAY).filter((event) => event.pid === pool.pid && event.type !== 'rewardPaid');
+        const netFlow = sum(flows.map((event) => (event.type === 'deposit' ? event.amount : -event.amount)));
+        return { ...pool, totalStaked: pool.totalStaked - netFlow };
+      })
+    });
+    const change = tvl !== undefined && dayAgo !== undefined && dayAgo > 0 ? ((tvl - dayAgo) / dayAgo) * 100 : undefined;
+
+    const firstSeen = new Map<string, number>();
+    [...events].reverse().forEach((event) => {
+      const user = event.user.toLowerCase();
+      if (!firstSeen.has(user)) firstSeen.set(user, event.timestamp);
+    });
+
+    return {
+      tvl: {
+        total: formatUsd(tvl),
+        '24hChange': change === undefined ? null : change.toFixed(2)
+      },
+      volume: {
+        '24h': formatUsd(this.getVolume(snapshot, since(DAY))),
+        '7d': formatUsd(this.getVolume(snapshot, since(7 * DAY)))
+      },
+      users: {
+        active: stakers(events).size,
+        total: firstSeen.size,
+        newToday: [...firstSeen.values()].filter((timestamp) => timestamp > now - DAY).length
+      }
+    };
+  }
+
+  async getPools() {
+    const [snapshot, events] = await Promise.all([this.loadSnapshot(), this.indexer.store.getEvents()]);
+    const blockTime = await this.getBlockTime();
+    return { pools: snapshot.pools.map((pool) => this.formatPool(pool, snapshot, events, blockTime)) };
+  }
+
+  async getPool(pid: number) {
+    const poolCount = await this.client.getPoolCount();
+    if (!Number.isInteger(pid) || pid < 0 || pid >= poolCount) throw invalidPoolId(pid, poolCount);
+
+    const [snapshot, events] = await Promise.all([this.loadSnapshot(), this.indexer.store.getEvents({ pid })]);
+    const blockTime = await this.getBlockTime();
+
+    const rewardsByDay = new Map<string, bigint>();
+    events.filter((event) => event.type === 'rewardPaid').forEach((event) => {
+      const date = toIso(event.timestamp).slice(0, 10);
+      rewardsByDay.set(date, (rewardsByDay.get(date) ?? 0n) + event.amount);
+    });
+
+    return {
+      ...this.formatPool(snapshot.pools[pid], snapshot, events, blockTime),
+      rewardHistory: [...rewardsByDay.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, amount]) => ({ date, totalRewards: formatUnits(amount, REWARD_DECIMALS) }))
+    };
+  }
+
+  async getUser(address: string) {
+    const user = getAddress(address);
+    const [pools, positions, events] = await Promise.all([
+      this.client.getPools(),
+      this.client.getUserPositions(user),
+      this.indexer.store.getEvents({ user })
+    ]);
+
+    return {
+      address: user,
+      // Pools may use LP tokens with different decimals, so stakes are summed in 18-decimal units
+      totalStaked: formatUnits(sum(positions.map((position) => toEighteenDecimals(position.amount, pools[position.pid].decimals))), 18),
+      totalRewards: formatUnits(sum(events.filter((event) => event.type === 'rewardPaid').map((event) => event.amount)), REWARD_DECIMALS),
+      activePools: positions
+        .filter((position) => position.amount > 0n)
+        .map((position) => {
+          const lastAction = events.find((event) => event.pid === position.pid);
+          return {
+            poolId: position.pid,
+            stakedAmount: formatUnits(position.amount, pools[position.pid].decimals),
+            pendingRewards: formatUnits(position.pendingReward, REWARD_DECIMALS),
+            lastAction: lastAction ? toIso(lastAction.timestamp) : null
+          };
+        }),
+      history: events.map((event) => ({
+        type: event.type,
+        poolId: event.pid,
+        amount: this.formatEventAmount(event, pools),
+        timestamp: toIso(event.timestamp),
+        txHash: event.transactionHash
+      }))
+    };
+  }
+
+  async getUserRewards(address: string) {
+    const user = getAddress(address);
+    const [positions, events] = await Promise.all([
+      this.client.getUserPositions(user),
+      this.indexer.store.getEvents({ user, types: ['rewardPaid'] })
+    ]);
+
+    const breakdown = positions.map((position) => ({
+      poolId: position.pid,
+      earned: sum(events.filter((event) => event.pid === position.pid).map((event) => event.amount)),
+      pending: position.pendingReward
+    }));
+    const claimable = sum(breakdown.map((entry) => entry.pending));
+
+    return {
+      // Already paid out plus what is claimable now
+      totalEarned: formatUnits(sum(events.map((event) => event.amount)) + claimable, REWARD_DECIMALS),
+      claimable: formatUnits(claimable, REWARD_DECIMALS),
+      breakdown: breakdown.map((entry) => ({
+        poolId: entry.poolId,
+        earned: formatUnits(entry.earned, REWARD_DECIMALS),
+        pending: formatUnits(entry.pending, REWARD_DECIMALS)
+      }))
+    };
+  }
+
+  async getTransactions(query: TransactionQuery) {
+    const [pools, head, events] = await Promise.all([
+      this.client.getPools(),
+      this.provider.getBlockNumber(),
+      this.indexer.store.getEvents({ user: query.user, pid: query.pid, types: query.type && [query.type] })
+    ]);
+    const page = events.slice(query.offset, query.offset + query.limit);
+
+    const hashes = [...new Set(page.map((event) => event.transactionHash))];
+    const receipts = await Promise.all(hashes.map((hash) => this.provider.getTransactionReceipt(hash)));
+    const gasUsed = new Map(hashes.map((hash, i) => [hash, receipts[i]?.gasUsed.toString() ?? null]));
+
+    return {
+      transactions: page.map((event) => ({
+        hash: event.transactionHash,
+        type: event.type,
+        user: event.user,
+        poolId: event.pid,
+        amount: this.formatEventAmount(event, pools),
+        timestamp: toIso(event.timestamp),
+        blockNumber: event.blockNumber,
+        gasUsed: gasUsed.get(event.transactionHash),
+        status: head - event.blockNumber + 1 >= this.confirmations ? 'confirmed' : 'pending'
+      })),
+      pagination: {
+        total: events.length,
+        page: Math.floor(query.offset / query.limit) + 1,
+        hasNext: query.offset + query.limit < events.length
+      }
+    };
+  }
+
+  private async loadSnapshot(): Promise<FarmSnapshot> {
+    const [farmInfo, pools, block] = await Promise.all([
+      this.client.getFarmInfo(),
+      this.client.getPools(),
+      this.provider.getBlock('latest')
+    ]);
+    const prices = await getPrices(this.priceSource, [farmInfo.rewardToken, ...pools.map((pool) => pool.lpToken)]);
+    return { farmInfo, pools, block: { number: block!.number, timestamp: block!.timestamp }, prices };
+  }
+
+  /** Average block time, sampled once per process since it barely moves. */
+  getBlockTime(): Promise<number> {
+    if (!this.blockTime) {
+      const pending = estimateBlockTime(this.provider);
+      // A failed sample is retried by the next caller instead of being served forever
+      pending.catch(() => {
+        if (this.blockTime === pending) this.blockTime = null;
+      });
+      this.blockTime = pending;
+    }
+    return this.blockTime;
+  }
+
+  // Undefined as soon as one pool's LP token has no price, rather than silently understating it
+  private getTvl(snapshot: FarmSnapshot): number | undefined {
+    let total = 0;
+    for (const pool of snapshot.pools) {
+      const price = snapshot.prices[pool.lpToken.toLowerCase()];
+      if (price === undefined) return undefined;
+      total += Number(formatUnits(pool.totalStaked, pool.decimals)) * price;
+    }
+    return total;
+  }
+
+  private getVolume(snapshot: FarmSnapshot, events: FarmEvent[]): number | undefined {
+    let total = 0;
+    for (const event of events) {
+      if (event.type === 'rewardPaid') continue;
+      const pool = snapshot.pools[event.pid];
+      const price = pool && snapshot.prices[pool.lpToken.toLowerCase()];
+      if (price === undefined) return undefined;
+      total += Number(formatUnits(event.amount, pool.decimals)) * price;
+    }
+    return total;
+  }
+
+  private formatPool(pool: Pool, snapshot: FarmSnapshot, events: FarmEvent[], blockTime: number) {
+    const apr = computePoolApr(
+      snapshot.farmInfo,
+      { pid: pool.pid, allocPoint: pool.allocPoint, totalStaked: pool.totalStaked, lpDecimals: pool.decimals },
+      {
+        currentBlock: BigInt(snapshot.block.number),
+        blockTime,
+        rewardTokenPrice: snapshot.prices[snapshot.farmInfo.rewardToken.toLowerCase()],
+        lpTokenPrice: snapshot.prices[pool.lpToken.toLowerCase()]
+      }
+    );
+
+    return {
+      id: pool.pid,
+      name: pool.symbol,
+      lpToken: pool.lpToken,
+      allocPoint: Number(pool.allocPoint),
+      totalStaked: formatUnits(pool.totalStaked, pool.decimals),
+      apy: formatPercent(apr.apy),
+      participants: stakers(events, pool.pid).size,
+      minStake: formatUnits(pool.minStakeAmount, pool.decimals),
+      maxStake: formatUnits(pool.maxStakeAmount, pool.decimals)
+    };
+  }
+
+  private formatEventAmount(event: FarmEvent, pools: Pool[]) {
+    return formatUnits(event.amount, event.type === 'rewardPaid' ? REWARD_DECIMALS : pools[event.pid]?.decimals ?? 18);
+  }
+}
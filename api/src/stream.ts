@@ -0,0 +1,251 @@
+import { IncomingMessage, Server } from 'node:http';
+import { Duplex } from 'node:stream';
+import { formatUnits, getAddress, isAddress } from 'ethers';
+import { WebSocket, WebSocketServer } from 'ws';
+import {
+  FarmEvent,
+  MESSAGE_CHANNELS,
+  STREAM_CHANNELS,
+  StreamMessage,
+  StreamRequest,
+  StreamSubscription
+} from '@yieldfarm/sdk';
+import { FarmService, toIso } from './service.js';
+
+export interface StreamOptions {
+  path?: string;
+  apiKeys: string[];
+  // Concurrent connections per API key, or per IP for clients without one
+  maxConnections?: number;
+  heartbeatMs?: number;
+}
+
+interface Client {
+  socket: WebSocket;
+  subscription: Required<StreamSubscription> | null;
+  alive: boolean;
+}
+
+const REWARD_DECIMALS = 18;
+
+const rejectUpgrade = (socket: Duplex, status: number, code: string, message: string) => {
+  const body = JSON.stringify({ error: { code, message } });
+  socket.end(`HTTP/1.1 ${status} ${code}\r\nContent-Type: application/json\r\nContent-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`);
+};
+
+// Throws a message for the client when the request is malformed
+const parseSubscription = (request: StreamRequest & { action: 'subscribe' }): Required<StreamSubscription> => {
+  const events = request.events ?? STREAM_CHANNELS;
+  if (!Array.isArray(events)) {
+    throw new Error(`events must be a list of ${STREAM_CHANNELS.join(', ')}`);
+  }
+  const unknown = events.filter((channel) => !STREAM_CHANNELS.includes(channel));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown events ${unknown.join(', ')}; expected ${STREAM_CHANNELS.join(', ')}`);
+  }
+
+  const { pools, users } = request.filters ?? {};
+  if (pools !== undefined && (!Array.isArray(pools) || !pools.every((pid) => Number.isInteger(pid) && pid >= 0))) {
+    throw new Error('filters.pools must be a list of pool ids');
+  }
+  if (users !== undefined && (!Array.isArray(users) || !users.every((user) => typeof user === 'string' && isAddress(user)))) {
+    throw new Error('filters.users must be a list of addresses');
+  }
+
+  return {
+    events,
+    filters: {
+      ...(pools && { pools }),
+      ...(users && { users: users.map((user) => getAddress(user)) })
+    }
+  };
+};
+
+const matches = (message: StreamMessage, { events, filters }: Required<StreamSubscription>) => {
+  if (message.type === 'subscribed' || message.type === 'error') return true;
+  if (!events.includes(MESSAGE_CHANNELS[message.type])) return false;
+  if (filters.pools && !filters.pools.includes(message.data.poolId)) return false;
+  if (message.type === 'poolUpdate' || !filters.users) return true;
+  return filters.users.includes(getAddress(message.data.user));
+};
+
+/**
+ * Serves the `/ws` event stream on an existing HTTP server. User events come from the service's
+ * indexer as soon as it stores them; pool updates are checked on every block and sent when a pool's
+ * stake, allocation or participant count changed.
+ */
+export const attachEventStream = (server: Server, service: FarmService, options: StreamOptions) => {
+  const path = options.path ?? '/ws';
+  const maxConnections = options.maxConnections ?? 10;
+  const wss = new WebSocketServer({ noServer: true });
+  const clients = new Set<Client>();
+  const connectionsByKey = new Map<string, number>();
+  const poolStates = new Map<number, string>();
+  const provider = service.client.runner.provider!;
+
+  const send = (client: Client, message: StreamMessage) => {
+    if (client.socket.readyState === WebSocket.OPEN) client.socket.send(JSON.stringify(message));
+  };
+
+  const broadcast = (messages: StreamMessage[]) => {
+    clients.forEach((client) => {
+      if (!client.subscription) return;
+      messages.filter((message) => matches(message, client.subscription!)).forEach((message) => send(client, message));
+    });
+  };
+
+  const onUpgrade = (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== path) return;
+
+    // Browsers can't set headers on a WebSocket, so the key may also come as ?apiKey=
+    const apiKey = url.searchParams.get('apiKey') ?? /^Bearer (.+)$/.exec(req.headers.authorization ?? '')?.[1];
+    if (apiKey && !options.apiKeys.includes(apiKey)) {
+      return rejectUpgrade(socket, 401, 'UNAUTHORIZED', 'Invalid API key');
+    }
+    const key = apiKey ? `key:${apiKey}` : `ip:${req.socket.remoteAddress}`;
+    const open = connectionsByKey.get(key) ?? 0;
+    if (open >= maxConnections) {
+      return rejectUpgrade(socket, 429, 'RATE_LIMITED', `At most ${maxConnections} concurrent connections are allowed`);
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      connectionsByKey.set(key, open + 1);
+      const client: Client = { socket: ws, subscription: null, alive: true };
+      clients.add(client);
+
+      ws.on('pong', () => {
+        client.alive = true;
+      });
+      ws.on('message', (raw) => {
+        try {
+          const request = JSON.parse(raw.toString()) as StreamRequest;
+          if (request.action === 'subscribe') {
+            const subscription = parseSubscription(request);
+            client.subscription = subscription;
+            send(client, { type: 'subscribed', data: subscription });
+            // New pool subscribers get the current state rather than waiting for the next change
+            if (subscription.events.includes('poolUpdates')) {
+              provider
+                .getBlockNumber()
+                .then(toPoolUpdates)
+                .then((updates) => {
+                  if (client.subscription !== subscription) return;
+                  updates.filter((message) => matches(message, subscription)).forEach((message) => send(client, message));
+                })
+                .catch((error) => console.error('Pool snapshot failed:', error));
+            }
+          } else if (request.action === 'unsubscribe') {
+            client.subscription = null;
+          } else {
+            throw new Error('action must be "subscribe" or "unsubscribe"');
+          }
+        } catch (error) {
+          const message = error instanceof SyntaxError ? 'Messages must be JSON' : (error as Error).message;
+          send(client, { type: 'error', error: { code: 'BAD_REQUEST', message } });
+        }
+      });
+      ws.on('close', () => {
+        clients.delete(client);
+        const remaining = (connectionsByKey.get(key) ?? 1) - 1;
+        if (remaining > 0) connectionsByKey.set(key, remaining);
+        else connectionsByKey.delete(key);
+      });
+    });
+  };
+
+  const onEvents = async (events: FarmEvent[]) => {
+    const pools = await service.client.getPools();
+    // A withdrawal pays out pending rewards in the same transaction, just before the Withdraw log. One
+    // transaction can withdraw from several pools, so payouts are matched by pool too
+    const rewardKey = (event: FarmEvent) => `${event.transactionHash}:${event.pid}`;
+    const rewardsByWithdrawal = new Map(events.filter((event) => event.type === 'rewardPaid').map((event) => [rewardKey(event), event.amount]));
+
+    const messages = [...events].reverse().map((event): StreamMessage => {
+      const decimals = event.type === 'rewardPaid' ? REWARD_DECIMALS : pools[event.pid]?.decimals ?? 18;
+      const data = {
+        user: event.user,
+        poolId: event.pid,
+        amount: formatUnits(event.amount, decimals),
+        txHash: event.transactionHash,
+        blockNumber: event.blockNumber,
+        timestamp: toIso(event.timestamp)
+      };
+      switch (event.type) {
+        case 'deposit':
+          return { type: 'deposit', data };
+        case 'withdraw':
+          return { type: 'withdrawal', data: { ...data, rewards: formatUnits(rewardsByWithdrawal.get(rewardKey(event)) ?? 0n, REWARD_DECIMALS) } };
+        case 'emergencyWithdraw':
+          return { type: 'emergencyWithdrawal', data };
+        case 'rewardPaid':
+          return { type: 'rewardPaid', data };
+      }
+    });
+    broadcast(messages);
+  };
+
+  const toPoolUpdates = async (blockNumber: number) => {
+    const { pools } = await service.getPools();
+    return pools.map((pool): StreamMessage => ({
+      type: 'poolUpdate',
+      data: {
+        poolId: pool.id,
+        allocPoint: pool.allocPoint,
+        totalStaked: pool.totalStaked,
+        apy: pool.apy,
+        participants: pool.participants,
+        blockNumber
+      }
+    }));
+  };
+
+  const onBlock = async (blockNumber: number) => {
+    if (![...clients].some((client) => client.subscription?.events.includes('poolUpdates'))) {
+      poolStates.clear();
+      return;
+    }
+
+    // APY drifts every block, so only stake, allocation and participant changes count as an update
+    const updates = (await toPoolUpdates(blockNumber)).filter((message) => {
+      if (message.type !== 'poolUpdate') return false;
+      const state = JSON.stringify([message.data.allocPoint, message.data.totalStaked, message.data.participants]);
+      const changed = poolStates.has(message.data.poolId) && poolStates.get(message.data.poolId) !== state;
+      poolStates.set(message.data.poolId, state);
+      return changed;
+    });
+    broadcast(updates);
+  };
+
+  // Drops connections that stopped answering pings, e.g. after a network change
+  const heartbeat = setInterval(() => {
+    clients.forEach((client) => {
+      if (!client.alive) return client.socket.terminate();
+      client.alive = false;
+      client.socket.ping();
+    });
+  }, options.heartbeatMs ?? 30_000);
+
+  const blockListener = (blockNumber: number) => {
+    onBlock(blockNumber).catch((error) => console.error('Pool update check failed:', error));
+  };
+  const stopEvents = service.indexer.onEvents((events) => {
+    onEvents(events).catch((error) => console.error('Event broadcast failed:', error));
+  });
+  server.on('upgrade', onUpgrade);
+  provider.on('block', blockListener);
+
+  return {
+    // Exposed for tests that drive the stream without mining blocks
+    broadcastEvents: onEvents,
+    checkPools: onBlock,
+    close: async () => {
+      clearInterval(heartbeat);
+      stopEvents();
+      server.off('upgrade', onUpgrade);
+      await provider.off('block', blockListener);
+      clients.forEach((client) => client.socket.terminate());
+      wss.close();
+    }
+  };
+};
@@ -0,0 +1,150 @@
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import { JsonRpcProvider, NonceManager, Wallet, parseEther } from 'ethers';
+import { ConstantPriceSource, EventIndexer, MemoryEventStore, YieldFarmClient } from '@yieldfarm/sdk';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { DEPLOYER_KEY, TestDeployment, deployToAnvil } from '../../sdk/test/anvil.js';
+import { createApiServer, FarmService } from '../src/index.js';
+
+// Just the fields the assertions below reach into; the rest is compared as a whole
+interface PoolsBody {
+  pools: { apy: string }[];
+}
+
+interface UserBody {
+  activePools: unknown[];
+  history: { type: string }[];
+}
+
+interface TransactionsBody {
+  pagination: unknown;
+  transactions: { gasUsed: string }[];
+}
+
+describe('REST API against anvil', () => {
+  let deployment: TestDeployment;
+  let provider: JsonRpcProvider;
+  let server: Server;
+  let baseUrl: string;
+  let user: string;
+
+  const get = async <T = unknown>(path: string) => {
+    const response = await fetch(`${baseUrl}${path}`);
+    return { status: response.status, body: (await response.json()) as T };
+  };
+
+  beforeAll(async () => {
+    deployment = await deployToAnvil();
+    provider = new JsonRpcProvider(deployment.rpcUrl);
+    const wallet = new Wallet(DEPLOYER_KEY, provider);
+    user = wallet.address;
+    const client = new YieldFarmClient(deployment.yieldFarm, new NonceManager(wallet));
+
+    // DeployScript starts farming 10 blocks after deployment
+    await provider.send('anvil_mine', ['0xa']);
+    await (await client.approve(0)).wait();
+    await (await client.deposit(0, parseEther('10'))).wait();
+    await provider.send('anvil_mine', ['0x5']);
+    await (await client.harvest(0)).wait();
+    await (await client.withdraw(0, parseEther('5'))).wait();
+
+    const indexer = new EventIndexer(deployment.yieldFarm, provider, new MemoryEventStore(), { confirmations: 1 });
+    await indexer.sync();
+    const prices = new ConstantPriceSource({ [deployment.lpToken]: 2, [deployment.rewardToken]: 0.5 });
+    const service = new FarmService(new YieldFarmClient(deployment.yieldFarm, provider), indexer, prices, 1);
+
+    server = createApiServer(service, { apiKeys: [], rateLimits: { public: 1000, authenticated: 1000 } });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(() => {
+    server?.close();
+    provider?.destroy();
+    deployment?.stop();
+  });
+
+  it('describes the protocol', async () => {
+    const { body } = await get('/protocol/info');
+
+    expect(body).toMatchObject({
+      chainId: 31337,
+      contracts: { yieldFarm: deployment.yieldFarm, yieldToken: deployment.rewardToken, deployer: user },
+      metrics: { totalValueLocked: '10.00', totalRewardsDistributed: '14.0', activeUsers: 1, totalPools: 1 }
+    });
+  });
+
+  it('lists pools with stake limits and participants', async () => {
+    const { body } = await get<PoolsBody>('/pools');
+
+    expect(body.pools).toEqual([
+      expect.objectContaining({
+        id: 0,
+        name: 'mLP',
+        lpToken: deployment.lpToken,
+        allocPoint: 100,
+        totalStaked: '5.0',
+        participants: 1,
+        minStake: '1.0',
+        maxStake: '1000.0'
+      })
+    ]);
+    expect(Number(body.pools[0].apy)).toBeGreaterThan(0);
+  });
+
+  it('rejects unknown pools', async () => {
+    const { status, body } = await get('/pools/7');
+
+    expect(status).toBe(404);
+    expect(body).toEqual({ error: { code: 'INVALID_POOL_ID', message: 'Pool 7 does not exist', details: { poolCount: 1 } } });
+  });
+
+  it('returns a user position and history', async () => {
+    const { body } = await get<UserBody>(`/users/${user.toLowerCase()}`);
+
+    expect(body).toMatchObject({ address: user, totalStaked: '5.0', totalRewards: '14.0' });
+    expect(body.activePools).toEqual([expect.objectContaining({ poolId: 0, stakedAmount: '5.0', pendingRewards: '0.0' })]);
+    expect(body.history.map((entry) => entry.type)).toEqual(['withdraw', 'rewardPaid', 'rewardPaid', 'deposit']);
+  });
+
+  it('breaks rewards down per pool', async () => {
+    await provider.send('anvil_mine', ['0x1']);
+    const { body } = await get(`/users/${user}/rewards`);
+
+    expect(body).toEqual({
+      totalEarned: '16.0',
+      claimable: '2.0',
+      breakdown: [{ poolId: 0, earned: '14.0', pending: '2.0' }]
+    });
+  });
+
+  it('serves the same data over GraphQL', async () => {
+    const response = await fetch(baseUrl.replace('/v1', '/graphql'), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        query: 'query ($address: String!) { user(id: $address) { totalStaked stakes { pool { name } amount } transactions { type } } }',
+        variables: { address: user }
+      })
+    });
+
+    expect(await response.json()).toEqual({
+      data: {
+        user: {
+          totalStaked: '5.0',
+          stakes: [{ pool: { name: 'mLP' }, amount: '5.0' }],
+          transactions: [{ type: 'WITHDRAW' }, { type: 'HARVEST' }, { type: 'HARVEST' }, { type: 'DEPOSIT' }]
+        }
+      }
+    });
+  });
+
+  it('pages through transactions with receipts', async () => {
+    const { body } = await get<TransactionsBody>('/transactions?limit=2&offset=1');
+
+    expect(body.pagination).toEqual({ total: 4, page: 1, hasNext: true });
+    expect(body.transactions).toHaveLength(2);
+    expect(body.transactions[0]).toMatchObject({ type: 'rewardPaid', user, poolId: 0, amount: '2.0', status: 'confirmed' });
+    expect(Number(body.transactions[0].gasUsed)).toBeGreaterThan(0);
+  });
+});
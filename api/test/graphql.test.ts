@@ -0,0 +1,201 @@
+import { parseEther } from 'ethers';
+import { ConstantPriceSource, EventIndexer, FarmEvent, MemoryEventStore, Pool, YieldFarmClient } from '@yieldfarm/sdk';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { executeGraphQL, FarmService } from '../src/index.js';
+
+const LP = '0x00000000000000000000000000000000000000c1';
+const YFT = '0x00000000000000000000000000000000000000d1';
+const ALICE = '0x00000000000000000000000000000000000000A1';
+
+// Per-pool LP token decimals; pools without an entry use 18
+let lpDecimals: Record<number, number> = {};
+
+const pool = (pid: number): Pool => ({
+  pid,
+  lpToken: LP,
+  symbol: 'mLP',
+  decimals: lpDecimals[pid] ?? 18,
+  allocPoint: 100n,
+  lastRewardBlock: 0n,
+  accTokenPerShare: 0n,
+  totalStaked: parseEther('10'),
+  minStakeAmount: parseEther('1'),
+  maxStakeAmount: parseEther('1000')
+});
+
+const event = (type: FarmEvent['type'], pid: number, amount: string, blockNumber: number, logIndex = 0): FarmEvent => ({
+  id: `0x${blockNumber}:${logIndex}`,
+  type,
+  user: ALICE,
+  pid,
+  amount: parseEther(amount),
+  blockNumber,
+  blockHash: '0x',
+  transactionHash: `0x${blockNumber}`,
+  logIndex,
+  timestamp: 1_700_000_000 + blockNumber
+});
+
+describe('executeGraphQL', () => {
+  let service: FarmService;
+  let calls: { getPool: number[]; receipts: string[]; maxInFlight: number };
+
+  beforeEach(async () => {
+    calls = { getPool: [], receipts: [], maxInFlight: 0 };
+    lpDecimals = {};
+    let inFlight = 0;
+
+    // Each getPool call takes a tick, so sequential loading would never have more than one in flight
+    const client = {
+      address: '0x00000000000000000000000000000000000000f4',
+      getFarmInfo: async () => ({
+        rewardToken: YFT,
+        rewardPerBlock: parseEther('1'),
+        startBlock: 0n,
+        bonusEndBlock: 0n,
+        bonusMultiplier: 2n,
+        totalAllocPoint: 300n,
+        poolCount: 3
+      }),
+      getPool: async (pid: number) => {
+        calls.getPool.push(pid);
+        calls.maxInFlight = Math.max(calls.maxInFlight, ++inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+        return pool(pid);
+      },
+      getUserPosition: async (pid: number, user: string) => ({
+        pid,
+        user,
+        amount: pid === 0 ? parseEther('4') : 0n,
+        rewardDebt: 0n,
+        pendingRewards: 0n,
+        lastStakeTime: 1_700_000_000n,
+        pendingReward: pid === 0 ? parseEther('1.5') : 0n
+      }),
+      runner: {
+        provider: {
+          getNetwork: async () => ({ chainId: 31337n }),
+          getBlockNumber: async () => 100,
+          getTransactionReceipt: async (hash: string) => {
+            calls.receipts.push(hash);
+            return { gasUsed: 90_000n };
+          }
+        }
+      }
+    } as unknown as YieldFarmClient;
+
+    const store = new MemoryEventStore();
+    await store.putEvents([
+      event('deposit', 0, '10', 10),
+      event('rewardPaid', 0, '2', 20),
+      event('withdraw', 0, '6', 20, 1),
+      event('deposit', 1, '3', 30),
+      event('emergencyWithdraw', 1, '3', 40)
+    ]);
+    const prices = new ConstantPriceSource({ [LP]: 2, [YFT]: 0.0001 });
+    service = new FarmService(client, { store } as unknown as EventIndexer, prices);
+    service.getBlockTime = async () => 12;
+  });
+
+  const run = (query: string, variables?: Record<string, unknown>) => executeGraphQL(service, { query, variables });
+
+  it('answers the documented protocol overview query', async () => {
+    const { status, body } = await run(`
+      query ProtocolOverview {
+        protocol(id: "1") { name totalValueLocked totalUsers pools { id totalStaked apy participants } }
+      }
+    `);
+
+    expect(status).toBe(200);
+    expect(body.errors).toBeUndefined();
+    expect(body.data).toEqual({
+      protocol: {
+        name: 'YieldFarm Protocol',
+        totalValueLocked: '60.00',
+        totalUsers: 1,
+        pools: [0, 1, 2].map((pid) => ({
+          id: String(pid),
+          totalStaked: '10.0',
+          apy: expect.stringMatching(/^\d+\.\d{2}$/),
+          participants: pid === 0 ? 1 : 0
+        }))
+      }
+    });
+  });
+
+  it('loads pools concurrently and once per request', async () => {
+    await run(`{
+      pools { id }
+      protocol { pools { name } }
+      transactions { pool { id } gasUsed }
+    }`);
+
+    expect([...calls.getPool].sort()).toEqual([0, 1, 2]);
+    expect(calls.maxInFlight).toBe(3);
+    // Two events share transaction 0x20
+    expect(calls.receipts).toHaveLength(4);
+  });
+
+  it('resolves a user with stakes and filtered, ordered transactions', async () => {
+    const { body } = await run(
+      `query UserInfo($address: String!) {
+        user(id: $address) {
+          address
+          totalStaked
+          totalRewardsEarned
+          stakes { pool { id } amount pendingRewards }
+          transactions(first: 2, orderBy: timestamp, orderDirection: asc) { type amount timestamp }
+        }
+      }`,
+      { address: ALICE.toLowerCase() }
+    );
+
+    expect(body.data).toEqual({
+      user: {
+        address: ALICE,
+        totalStaked: '4.0',
+        totalRewardsEarned: '3.5',
+        stakes: [{ pool: { id: '0' }, amount: '4.0', pendingRewards: '1.5' }],
+        transactions: [
+          { type: 'DEPOSIT', amount: '10.0', timestamp: '1700000010' },
+          { type: 'HARVEST', amount: '2.0', timestamp: '1700000020' }
+        ]
+      }
+    });
+  });
+
+  it('sums stakes in LP tokens with more than 18 decimals', async () => {
+    lpDecimals = { 0: 24 };
+    const { body } = await run(`{ user(id: "${ALICE}") { totalStaked } }`);
+
+    // The stub's 4e18 base units are 0.000004 tokens at 24 decimals
+    expect(body.data).toEqual({ user: { totalStaked: '0.000004' } });
+  });
+
+  it('lists pool deposits and withdrawals', async () => {
+    const { body } = await run(`query PoolStats($poolId: String!) {
+      pool(id: $poolId) { deposits { amount user { address } } withdrawals { amount emergency } }
+      missing: pool(id: "9") { id }
+    }`, { poolId: '1' });
+
+    expect(body.data).toEqual({
+      pool: { deposits: [{ amount: '3.0', user: { address: ALICE } }], withdrawals: [{ amount: '3.0', emergency: true }] },
+      missing: null
+    });
+  });
+
+  it('reports invalid input with error codes', async () => {
+    const invalid = await run('{ user(id: "0x123") { address } }');
+    expect(invalid.body.errors?.[0]).toMatchObject({ message: '"0x123" is not a valid address', extensions: { code: 'INVALID_ADDRESS' } });
+
+    const tooMany = await run('{ transactions(first: 5000) { id } }');
+    expect(tooMany.body.errors?.[0].extensions).toMatchObject({ code: 'BAD_REQUEST' });
+
+    const syntax = await run('{ pools { ');
+    expect(syntax.status).toBe(400);
+
+    const unknownField = await run('{ pools { nope } }');
+    expect(unknownField.status).toBe(400);
+  });
+});
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { RateLimiter } from '../src/index.js';
+
+describe('RateLimiter', () => {
+  it('counts requests per key within a window', () => {
+    let now = 120_500;
+    const limiter = new RateLimiter(60_000, () => now);
+
+    expect(limiter.hit('a', 2)).toEqual({ allowed: true, limit: 2, remaining: 1, reset: 180 });
+    expect(limiter.hit('a', 2)).toMatchObject({ allowed: true, remaining: 0 });
+    expect(limiter.hit('a', 2)).toMatchObject({ allowed: false, remaining: 0 });
+    expect(limiter.hit('b', 2)).toMatchObject({ allowed: true, remaining: 1 });
+
+    now = 180_000;
+    expect(limiter.hit('a', 2)).toEqual({ allowed: true, limit: 2, remaining: 1, reset: 240 });
+  });
+});
@@ -0,0 +1,86 @@
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createApiServer, FarmService } from '../src/index.js';
+
+const ADDRESS = '0x00000000000000000000000000000000000000a1';
+
+// Routing, validation and headers don't touch the chain, so a canned service is enough here
+const stubService = {
+  getPools: async () => ({ pools: [] }),
+  getPool: async (pid: number) => ({ id: pid }),
+  getUser: async (address: string) => ({ address }),
+  getTransactions: async (query: unknown) => ({ query }),
+  getProtocolInfo: async () => {
+    throw new Error('RPC down');
+  }
+} as unknown as FarmService;
+
+describe('createApiServer', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = createApiServer(stubService, { apiKeys: ['secret'], rateLimits: { public: 3, authenticated: 10 } });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  const get = (path: string, headers: Record<string, string> = {}) => fetch(`${baseUrl}${path}`, { headers });
+  const authed = (path: string) => get(path, { Authorization: 'Bearer secret' });
+
+  it('routes path parameters and query strings', async () => {
+    expect(await (await authed('/pools/2')).json()).toEqual({ id: 2 });
+    expect(await (await authed(`/users/${ADDRESS}`)).json()).toEqual({ address: ADDRESS });
+    expect(await (await authed(`/transactions?limit=10&offset=20&user=${ADDRESS}&type=deposit`)).json()).toEqual({
+      query: { limit: 10, offset: 20, user: ADDRESS, type: 'deposit' }
+    });
+  });
+
+  it('reports errors in the documented format', async () => {
+    const invalidAddress = await authed('/users/0x1234');
+    expect(invalidAddress.status).toBe(400);
+    expect(await invalidAddress.json()).toEqual({ error: { code: 'INVALID_ADDRESS', message: '"0x1234" is not a valid address' } });
+
+    const badLimit = await authed('/transactions?limit=500');
+    expect(badLimit.status).toBe(400);
+    expect(await badLimit.json()).toMatchObject({ error: { code: 'BAD_REQUEST', details: { limit: '500' } } });
+
+    const badEscape = await authed('/users/%ZZ');
+    expect(badEscape.status).toBe(400);
+    expect(await badEscape.json()).toMatchObject({ error: { code: 'BAD_REQUEST', details: { address: '%ZZ' } } });
+
+    expect((await authed('/pools/abc')).status).toBe(404);
+    expect(await (await authed('/nope')).json()).toMatchObject({ error: { code: 'NOT_FOUND' } });
+
+    const failed = await authed('/protocol/info');
+    expect(failed.status).toBe(500);
+    expect(await failed.json()).toEqual({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+  });
+
+  it('rejects unknown API keys', async () => {
+    const response = await get('/pools', { Authorization: 'Bearer wrong' });
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ error: { code: 'UNAUTHORIZED' } });
+  });
+
+  it('sends rate limit headers and enforces the public limit', async () => {
+    const response = await authed('/pools');
+    expect(response.headers.get('x-ratelimit-limit')).toBe('10');
+    expect(Number(response.headers.get('x-ratelimit-reset'))).toBeGreaterThan(Date.now() / 1000);
+
+    // The 401 above already used one of the three public requests for this IP
+    const statuses = [];
+    for (let i = 0; i < 3; i++) statuses.push((await get('/pools')).status);
+    expect(statuses).toEqual([200, 200, 429]);
+
+    const limited = await get('/pools');
+    expect(limited.headers.get('x-ratelimit-remaining')).toBe('0');
+    expect(await limited.json()).toMatchObject({ error: { code: 'RATE_LIMITED' } });
+  });
+});
@@ -0,0 +1,150 @@
+import { EventEmitter } from 'node:events';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { parseEther } from 'ethers';
+import { FarmEvent, StreamMessage } from '@yieldfarm/sdk';
+import { WebSocket } from 'ws';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { attachEventStream, FarmService } from '../src/index.js';
+
+const ALICE = '0x00000000000000000000000000000000000000A1';
+const BOB = '0x00000000000000000000000000000000000000B0';
+
+const event = (type: FarmEvent['type'], user: string, pid: number, amount: string, tx: string): FarmEvent => ({
+  id: `${tx}:${type}`,
+  type,
+  user,
+  pid,
+  amount: parseEther(amount),
+  blockNumber: 10,
+  blockHash: '0x',
+  transactionHash: tx,
+  logIndex: 0,
+  timestamp: 1_700_000_000
+});
+
+describe('attachEventStream', () => {
+  let server: Server;
+  let url: string;
+  let stream: ReturnType<typeof attachEventStream>;
+  let totalStaked: string;
+  const sockets: WebSocket[] = [];
+
+  beforeEach(async () => {
+    totalStaked = '10.0';
+    const provider = Object.assign(new EventEmitter(), { getBlockNumber: async () => 10 });
+    // Only the parts of FarmService the stream touches
+    const service = {
+      client: {
+        runner: { provider },
+        getPools: async () => [{ pid: 0, decimals: 18 }, { pid: 1, decimals: 18 }]
+      },
+      indexer: { onEvents: () => () => undefined },
+      getPools: async () => ({
+        pools: [0, 1].map((id) => ({ id, allocPoint: 100, totalStaked: id === 0 ? totalStaked : '1.0', apy: null, participants: 1 }))
+      })
+    } as unknown as FarmService;
+
+    server = createServer();
+    stream = attachEventStream(server, service, { apiKeys: ['secret'], maxConnections: 2 });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/ws`;
+  });
+
+  afterEach(async () => {
+    sockets.splice(0).forEach((socket) => socket.close());
+    await stream.close();
+    server.close();
+  });
+
+  // Resolves with the socket and a function returning every message received so far
+  const connect = async (query = '') => {
+    const socket = new WebSocket(url + query);
+    sockets.push(socket);
+    const received: StreamMessage[] = [];
+    socket.on('message', (raw) => received.push(JSON.parse(raw.toString())));
+    await new Promise((resolve, reject) => {
+      socket.once('open', resolve);
+      socket.once('error', reject);
+    });
+    return { socket, received };
+  };
+
+  const subscribe = async (socket: WebSocket, received: StreamMessage[], request: object) => {
+    socket.send(JSON.stringify({ action: 'subscribe', ...request }));
+    await vi.waitFor(() => expect(received.some((message) => message.type === 'subscribed')).toBe(true));
+    received.length = 0;
+  };
+
+  it('delivers user events matching the subscription filters', async () => {
+    const { socket, received } = await connect();
+    await subscribe(socket, received, { events: ['deposits', 'withdrawals'], filters: { users: [ALICE.toLowerCase()] } });
+
+    await stream.broadcastEvents([
+      event('withdraw', ALICE, 0, '4', '0x2'),
+      event('rewardPaid', ALICE, 0, '1.5', '0x2'),
+      event('deposit', BOB, 0, '5', '0x1'),
+      event('deposit', ALICE, 1, '3', '0x0')
+    ]);
+
+    await vi.waitFor(() => expect(received.length).toBe(2));
+    expect(received).toEqual([
+      { type: 'deposit', data: expect.objectContaining({ user: ALICE, poolId: 1, amount: '3.0', txHash: '0x0' }) },
+      { type: 'withdrawal', data: expect.objectContaining({ user: ALICE, poolId: 0, amount: '4.0', rewards: '1.5' }) }
+    ]);
+  });
+
+  it('matches withdrawal rewards to their pool when one transaction withdraws from several', async () => {
+    const { socket, received } = await connect();
+    await subscribe(socket, received, { events: ['withdrawals'] });
+
+    await stream.broadcastEvents([
+      event('withdraw', ALICE, 1, '2', '0x3'),
+      event('rewardPaid', ALICE, 1, '0.5', '0x3'),
+      event('withdraw', ALICE, 0, '4', '0x3'),
+      event('rewardPaid', ALICE, 0, '1.5', '0x3')
+    ]);
+
+    await vi.waitFor(() => expect(received.length).toBe(2));
+    expect(received).toEqual([
+      { type: 'withdrawal', data: expect.objectContaining({ poolId: 0, amount: '4.0', rewards: '1.5' }) },
+      { type: 'withdrawal', data: expect.objectContaining({ poolId: 1, amount: '2.0', rewards: '0.5' }) }
+    ]);
+  });
+
+  it('sends pool snapshots on subscribe and updates only when a pool changes', async () => {
+    const { socket, received } = await connect();
+    socket.send(JSON.stringify({ action: 'subscribe', events: ['poolUpdates'], filters: { pools: [0] } }));
+    await vi.waitFor(() => expect(received.filter((message) => message.type === 'poolUpdate')).toHaveLength(1));
+
+    await stream.checkPools(11);
+    await stream.checkPools(12);
+    totalStaked = '12.0';
+    await stream.checkPools(13);
+
+    await vi.waitFor(() => expect(received.filter((message) => message.type === 'poolUpdate')).toHaveLength(2));
+    expect(received.at(-1)).toEqual({
+      type: 'poolUpdate',
+      data: { poolId: 0, allocPoint: 100, totalStaked: '12.0', apy: null, participants: 1, blockNumber: 13 }
+    });
+  });
+
+  it('answers malformed requests with an error message', async () => {
+    const { socket, received } = await connect();
+    socket.send(JSON.stringify({ action: 'subscribe', events: ['trades'] }));
+    socket.send(JSON.stringify({ action: 'subscribe', events: 'deposits' }));
+    socket.send('not json');
+
+    await vi.waitFor(() => expect(received.length).toBe(3));
+    expect(received.map((message) => message.type === 'error' && message.error.code)).toEqual(['BAD_REQUEST', 'BAD_REQUEST', 'BAD_REQUEST']);
+    expect(received[1]).toMatchObject({ error: { message: expect.stringContaining('events must be a list') } });
+  });
+
+  it('limits concurrent connections and rejects unknown keys', async () => {
+    await connect();
+    await connect();
+    await expect(connect()).rejects.toThrow('429');
+    await expect(connect('?apiKey=wrong')).rejects.toThrow('401');
+    await expect(connect('?apiKey=secret')).resolves.toBeDefined();
+  });
+});
@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    // Chain tests start anvil on a fixed port, so files must not run in parallel
+    fileParallelism: false,
+    testTimeout: 30_000,
+    hookTimeout: 120_000
+  }
+});
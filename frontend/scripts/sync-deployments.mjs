@@ -0,0 +1,46 @@
+// Builds src/config/deployments.json from the broadcast output of `forge script script/Deploy.s.sol --broadcast`.
+// Usage: npm run sync-deployments [-- <path to broadcast/Deploy.s.sol>]
+import { existsSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const here = dirname(fileURLToPath(import.meta.url));
+const broadcastDir = resolve(process.argv[2] || join(here, '../../broadcast/Deploy.s.sol'));
+const manifestPath = join(here, '../src/config/deployments.json');
+
+if (!existsSync(broadcastDir)) {
+  console.error(`No broadcast output found at ${broadcastDir}. Run the DeployScript with --broadcast first.`);
+  process.exit(1);
+}
+
+const manifest = JSON.parse(readFileSync(manifestPath, 'utf8'));
+
+for (const chainDir of readdirSync(broadcastDir)) {
+  const runPath = join(broadcastDir, chainDir, 'run-latest.json');
+  if (!/^\d+$/.test(chainDir) || !existsSync(runPath)) continue;
+
+  const run = JSON.parse(readFileSync(runPath, 'utf8'));
+  const created = run.transactions.filter((tx) => tx.transactionType === 'CREATE');
+  const addressOf = (name) => created.find((tx) => tx.contractName === name)?.contractAddress;
+
+  const yieldFarm = addressOf('YieldFarm');
+  const rewardToken = addressOf('YieldToken');
+  if (!yieldFarm || !rewardToken) {
+    console.warn(`Skipping chain ${chainDir}: YieldFarm or YieldToken deployment missing from ${runPath}`);
+    continue;
+  }
+
+  const farmTx = created.find((tx) => tx.contractName === 'YieldFarm');
+  const farmReceipt = run.receipts.find((receipt) => receipt.transactionHash === farmTx.hash);
+
+  manifest[chainDir] = {
+    yieldFarm,
+    rewardToken,
+    lpTokens: created.filter((tx) => tx.contractName === 'MockLPToken').map((tx) => tx.contractAddress),
+    deployBlock: farmReceipt ? Number(farmReceipt.blockNumber) : 0
+  };
+  console.log(`Chain ${chainDir}: YieldFarm ${yieldFarm}, YieldToken ${rewardToken}`);
+}
+
+writeFileSync(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`);
+console.log(`Wrote ${manifestPath}`);
@@ -1,24 +1,183 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { ethers } from 'ethers';
-import detectEthereumProvider from '@metamask/detect-provider';
-
-// Contract ABIs (simplified for demo)
-const YIELD_FARM_ABI = [
-  "function deposit(uint256 _pid, uint256 _amount) external",
-  "function withdraw(uint256 _pid, uint256 _amount) external",
-  "function harvest(uint256 _pid) external",
-  "function pendingReward(uint256 _pid, address _user) external view returns (uint256)",
-  "function getUserInfo(uint256 _pid, address _user) external view returns (uint256, uint256, uint256, uint256)",
-  "function getPoolInfo(uint256 _pid) external view returns (address, uint256, uint256, uint256, uint256, uint256, uint256)",
-  "function rewardPerBlock() external view returns (uint256)"
-];
+import { createReadProvider, getAddChainParameter, getTargetChainId, resolveEnsName } from './config/chains';
+import { Deployment, getChainName, getDeployment } from './config/deployments';
+import {
+  ApprovalStrategy,
+  checkRewardReserve,
+  computePoolApr,
+  decodeTransactionError,
+  estimateBlockTime,
+  EventIndexer,
+  FarmEvent,
+  FarmInfo,
+  FarmStreamClient,
+  getPrices,
+  harvestAll,
+  HarvestAllResult,
+  IndexedDbEventStore,
+  LocalStorageTransactionStorage,
+  maxStakeAmount,
+  PendingRewardDrift,
+  PendingRewardTracker,
+  Pool,
+  PoolApr,
+  poolRewardPerBlock,
+  previewRewardPayout,
+  PriceSource,
+  RewardReserveStatus,
+  StakeLimits,
+  StreamStatus,
+  TrackedTransaction,
+  TransactionErrorCategory,
+  TransactionTracker,
+  validateStake,
+  YieldFarmClient
+} from '@yieldfarm/sdk';
+import { createPriceSource } from './config/prices';
+import { getAddressPath, navigate, parseAddressRoute } from './routes';
+import { loadConnectorChoice, loadConnectors, saveConnectorChoice, WalletConnector } from './wallet/connectors';
+import { InjectedProvider, WalletSession, WalletState } from './wallet/session';
+
+// Icons cycled through for pool cards, since pools carry no artwork on-chain
+const POOL_ICONS = [['💎', '💰'], ['🔥', '💎'], ['🌟', '💰'], ['🌊', '🔥']];
+
+const STREAM_STATUS_LABELS: Record<StreamStatus, string> = {
+  connecting: ' · Connecting…',
+  open: ' · Live',
+  closed: ' · Offline'
+};
+
+const TX_STATUS_LABELS: Record<TrackedTransaction['status'], string> = {
+  submitted: 'Pending',
+  mined: 'Mined',
+  confirmed: 'Confirmed',
+  failed: 'Failed',
+  replaced: 'Replaced'
+};
+
+const TX_REPLACEMENT_LABELS: Record<NonNullable<TrackedTransaction['replacement']>, string> = {
+  repriced: 'Sped up',
+  cancelled: 'Cancelled',
+  replaced: 'Replaced'
+};
+
+// EIP-3326: the wallet does not know the requested chain and it has to be added first
+const UNRECOGNIZED_CHAIN_CODE = 4902;
+
+// MetaMask Mobile reports the code on the original error
+const isUnrecognizedChain = (error: unknown) => {
+  const { code, data } = error as { code?: number; data?: { originalError?: { code?: number } } };
+  return code === UNRECOGNIZED_CHAIN_CODE || data?.originalError?.code === UNRECOGNIZED_CHAIN_CODE;
+};
 
-const ERC20_ABI = [
-  "function balanceOf(address account) external view returns (uint256)",
-  "function approve(address spender, uint256 amount) external returns (bool)",
-  "function allowance(address owner, address spender) external view returns (uint256)"
+const APPROVAL_STRATEGY_KEY = 'yieldfarm-approval-strategy';
+
+const APPROVAL_STRATEGIES: { value: ApprovalStrategy; label: string; description: string }[] = [
+  { value: 'exact', label: 'Exact amount', description: 'Approve only what each stake needs. One approval per stake.' },
+  { value: 'unlimited', label: 'Unlimited', description: 'Approve once per pool. The farm can pull any amount until you revoke it.' },
+  {
+    value: 'permit',
+    label: 'Permit',
+    description:
+      'Sign an EIP-2612 permit for each stake and submit it before the deposit. Pools whose LP token lacks permit fall back to the exact amount.'
+  }
 ];
 
+const loadApprovalStrategy = (): ApprovalStrategy => {
+  const stored = localStorage.getItem(APPROVAL_STRATEGY_KEY);
+  return APPROVAL_STRATEGIES.some(({ value }) => value === stored) ? (stored as ApprovalStrategy) : 'exact';
+};
+
+interface PoolData extends Pool {
+  stakedAmount: bigint;
+  pendingReward: bigint;
+  lpBalance: bigint;
+  // Unix seconds of the last deposit, 0 before the first
+  lastStakeTime: bigint;
+  // LP tokens the farm may pull from the wallet
+  allowance: bigint;
+  // Whether the LP token implements EIP-2612 permit
+  supportsPermit: boolean;
+}
+
+interface PoolInput {
+  stake: string;
+  withdraw: string;
+}
+
+interface AdminInputs {
+  lpToken: string;
+  allocPoint: string;
+  minStake: string;
+  maxStake: string;
+  rewardPerBlock: string;
+  // Keyed by pool id; pools without an entry keep their current alloc points
+  allocPoints: Record<number, string>;
+}
+
+const EMPTY_ADMIN_INPUTS: AdminInputs = { lpToken: '', allocPoint: '', minStake: '', maxStake: '', rewardPerBlock: '', allocPoints: {} };
+
+// An owner action waiting for confirmation, with the on-chain values it changes
+interface AdminChange {
+  title: string;
+  rows: { label: string; before: string; after: string }[];
+  send: (farmClient: YieldFarmClient) => Promise<ethers.ContractTransactionResponse>;
+}
+
+// Warn when the reward reserve covers less than this many days of emissions
+const RESERVE_WARNING_DAYS = 7;
+
+// A harvest held back because the farm cannot pay it in full
+interface RewardShortfall {
+  poolCount: number;
+  pending: bigint;
+  payable: bigint;
+  proceed: () => void;
+}
+
+// Outcome of "Harvest all", shown once the queue has finished or stopped
+interface HarvestSummary extends HarvestAllResult {
+  // decodeTransactionError's message for `failed`
+  error?: string;
+}
+
+// Quote shown in the emergency withdraw dialog, re-read on every block while it is open
+interface EmergencyExitQuote {
+  pool: PoolData;
+  blockNumber: number;
+  // Exact YFT forfeited if the withdrawal is mined in the next block
+  forfeited: bigint;
+  // Extra YFT forfeited for every block the transaction waits
+  perBlock: bigint;
+}
+
+// Farm-wide inputs for the APR engine, refreshed with the user's stats
+interface EmissionState {
+  farmInfo: FarmInfo;
+  currentBlock: bigint;
+  blockTime: number;
+}
+
+interface UserStats {
+  activePools: number;
+  pendingReward: bigint;
+  rewardBalance: bigint;
+}
+
+// One row of the holdings table; value is undefined when the token has no price
+interface Holding {
+  key: string;
+  icon: string;
+  name: string;
+  detail: string;
+  amount: bigint;
+  decimals: number;
+  symbol: string;
+  price?: number;
+  value?: number;
+}
+
 // Custom hook for scroll animations
 const useScrollAnimation = () => {
   useEffect(() => {
@@ -46,169 +205,1447 @@ const useScrollAnimation = () => {
 
 function App() {
   const [account, setAccount] = useState<string>('');
-  const [provider, setProvider] = useState<any>(null);
-  const [signer, setSigner] = useState<any>(null);
-  const [contracts, setContracts] = useState<any>({});
-  const [userStats, setUserStats] = useState<any>({});
-  const [stakeAmount, setStakeAmount] = useState<string>('');
-  const [withdrawAmount, setWithdrawAmount] = useState<string>('');
-  const [loading, setLoading] = useState<boolean>(false);
+  const [client, setClient] = useState<YieldFarmClient | null>(null);
+  const [chainId, setChainId] = useState<number | null>(null);
+  const [deployment, setDeployment] = useState<Deployment | null>(null);
+  const [userStats, setUserStats] = useState<UserStats | null>(null);
+  const [pools, setPools] = useState<PoolData[]>([]);
+  const [emission, setEmission] = useState<EmissionState | null>(null);
+  const [prices, setPrices] = useState<Record<string, number>>({});
+  const [activity, setActivity] = useState<FarmEvent[]>([]);
+  // Null when no API event stream is configured
+  const [streamStatus, setStreamStatus] = useState<StreamStatus | null>(null);
+  // Pools where the per-block reward estimate disagreed with the chain at the last reconcile
+  const [rewardDrift, setRewardDrift] = useState<PendingRewardDrift[]>([]);
+  const [poolInputs, setPoolInputs] = useState<Record<number, PoolInput>>({});
+  const [emergencyExit, setEmergencyExit] = useState<EmergencyExitQuote | null>(null);
+  const [farmOwner, setFarmOwner] = useState<string>('');
+  const [farmPaused, setFarmPaused] = useState<boolean>(false);
+  const [adminInputs, setAdminInputs] = useState<AdminInputs>(EMPTY_ADMIN_INPUTS);
+  const [adminChange, setAdminChange] = useState<AdminChange | null>(null);
+  const [reserve, setReserve] = useState<RewardReserveStatus | null>(null);
+  const [rewardShortfall, setRewardShortfall] = useState<RewardShortfall | null>(null);
+  const [harvestSummary, setHarvestSummary] = useState<HarvestSummary | null>(null);
+  // Keys of actions waiting on the wallet or the chain, e.g. `pool:0`, `harvestAll` or `admin`
+  const [busy, setBusy] = useState<Record<string, boolean>>({});
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>([]);
+  const [trayOpen, setTrayOpen] = useState<boolean>(false);
+  const [approvalStrategy, setApprovalStrategy] = useState<ApprovalStrategy>(loadApprovalStrategy);
   const [message, setMessage] = useState<{ type: string; text: string } | null>(null);
   const [activeSection, setActiveSection] = useState<string>('home');
   const [activeDashboardPage, setActiveDashboardPage] = useState<string>('overview');
+  const [connectors, setConnectors] = useState<WalletConnector[]>([]);
+  const [connectorPickerOpen, setConnectorPickerOpen] = useState<boolean>(false);
+  const [watchInput, setWatchInput] = useState<string>('');
+  // Watching an address: everything is read, nothing can be signed
+  const [readOnly, setReadOnly] = useState<boolean>(false);
+  // ENS name the watched address was opened by, '' for a plain address
+  const [watchedName, setWatchedName] = useState<string>('');
+  // Only a connected wallet can sign; browsing visitors and watched addresses are read-only
+  const canWrite = account !== '' && !readOnly;
+
+  const walletRef = useRef<WalletSession | null>(null);
+  // The /address/:addr route being shown, or null outside the watched portfolio view
+  const watchedRouteRef = useRef<string | null>(null);
+  // Public RPC provider behind browsing or a watched address, destroyed when that session ends
+  const readProviderRef = useRef<ethers.JsonRpcProvider | null>(null);
+  // Bumped whenever session state is reset, so loads started for the previous account or chain are dropped
+  const stateVersionRef = useRef(0);
+  // Block time barely moves within a session, so it is sampled once per chain
+  const blockTimeRef = useRef<number | null>(null);
+  const priceSourceRef = useRef<PriceSource | null>(null);
+  const indexerRef = useRef<EventIndexer | null>(null);
+  const streamRef = useRef<FarmStreamClient | null>(null);
+  const trackerRef = useRef<PendingRewardTracker | null>(null);
+  const refreshTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pauseUnsubscribeRef = useRef<(() => void) | null>(null);
+  const txTrackerRef = useRef<TransactionTracker | null>(null);
+  // Permit support never changes for a token, so it is checked once per LP token address
+  const permitSupportRef = useRef<Map<string, Promise<boolean>>>(new Map());
 
   // Initialize scroll animations
   useScrollAnimation();
 
-  // Contract addresses (these would be set after deployment)
-  const CONTRACT_ADDRESSES = {
-    yieldFarm: '0x...', // Replace with actual deployed address
-    lpToken: '0x...', // Replace with actual deployed address
-    rewardToken: '0x...' // Replace with actual deployed address
-  };
-
   useEffect(() => {
-    initializeApp();
+    initializeApp().catch((error) => console.error('Failed to initialize the app:', error));
+    window.addEventListener('popstate', onPopState);
+    return () => {
+      window.removeEventListener('popstate', onPopState);
+      indexerRef.current?.stop();
+      streamRef.current?.close();
+      trackerRef.current?.stop();
+      pauseUnsubscribeRef.current?.();
+      walletRef.current?.destroy();
+      readProviderRef.current?.destroy();
+    };
   }, []);
 
+  // Keep the forfeited amount in the emergency dialog exact as blocks pass
+  const emergencyPid = emergencyExit?.pool.pid;
+  useEffect(() => {
+    const chainProvider = client?.runner.provider;
+    if (emergencyPid === undefined || !client || !chainProvider) return;
+
+    const onBlock = (blockNumber: number) => {
+      quoteEmergencyExit(client, emergencyPid, blockNumber)
+        .then((quote) => setEmergencyExit((current) => (current?.pool.pid === emergencyPid ? { ...current, ...quote } : current)))
+        .catch((error) => console.error('Failed to refresh emergency withdraw quote:', error));
+    };
+    chainProvider.on('block', onBlock);
+    return () => {
+      chainProvider.off('block', onBlock);
+    };
+  }, [client, account, emergencyPid]);
+
   const initializeApp = async () => {
-    const ethereumProvider = await detectEthereumProvider();
-
-    if (ethereumProvider) {
-      const web3Provider = new ethers.BrowserProvider(ethereumProvider as any);
-      setProvider(web3Provider);
-
-      // Check if already connected
-      const accounts = await web3Provider.listAccounts();
-      if (accounts.length > 0) {
-        setAccount(accounts[0].address);
-        const signer = await web3Provider.getSigner();
-        setSigner(signer);
-        await initializeContracts(signer);
-      }
-    } else {
-      setMessage({ type: 'warning', text: 'Please install MetaMask to use this application.' });
+    const available = await loadConnectors();
+    setConnectors(available);
+
+    // A shared /address/:addr link shows that account, whatever this browser was connected to last.
+    // Links that cannot be followed, including malformed ones, fall back to the home route.
+    if (window.location.pathname.startsWith('/address/')) {
+      const routed = parseAddressRoute(window.location.pathname);
+      if (routed && (await watchAddress(routed))) return;
+      if (!routed) setMessage({ type: 'error', text: 'That portfolio link is malformed.' });
+      navigate('/', true);
+    }
+
+    // Reconnect with the connector chosen last time; before any choice, an authorized extension wallet
+    const choice = loadConnectorChoice();
+    if (choice?.startsWith('watch:')) {
+      if (await watchAddress(choice.slice('watch:'.length))) return;
+      await startBrowsing();
+      return;
+    }
+    const connector =
+      choice === 'none' ? undefined : choice ? available.find(({ id }) => id === choice) : available.find(({ injected }) => injected);
+    if (!connector) {
+      await startBrowsing();
+      return;
     }
+
+    // A restored session without an account falls through to browsing in applyWalletState
+    try {
+      const wallet = startWalletSession(await connector.getProvider());
+      await wallet.restore();
+    } catch (error) {
+      console.error('Failed to restore the wallet connection:', error);
+      await startBrowsing();
+    }
+  };
+
+  // Visitors without a wallet see the target chain's pools through its public RPC; writes stay disabled
+  const startBrowsing = async () => {
+    const chainId = getTargetChainId();
+    const activeDeployment = getDeployment(chainId);
+    const readProvider = createReadProvider(chainId);
+    if (!activeDeployment || !readProvider) return;
+
+    readProviderRef.current?.destroy();
+    readProviderRef.current = readProvider;
+    resolveDeployment(BigInt(chainId));
+    await initializeContracts({ provider: readProvider, chainId, account: '', signer: null }, activeDeployment);
+  };
+
+  // One session at a time; the previous one stops listening before the new one emits
+  const startWalletSession = (ethereumProvider: InjectedProvider) => {
+    walletRef.current?.destroy();
+
+    const wallet = new WalletSession(ethereumProvider);
+    walletRef.current = wallet;
+    wallet.onChange(applyWalletState);
+    return wallet;
   };
 
-  const initializeContracts = async (signer: any) => {
+  // Rebuilds the app for a new account or chain; the previous session's state never carries over
+  const applyWalletState = async (state: WalletState, previous: WalletState | null) => {
+    resetSessionState();
+    // Browsing keeps reading until a wallet actually delivers an account
+    if (readProviderRef.current && readProviderRef.current !== state.provider) {
+      readProviderRef.current.destroy();
+      readProviderRef.current = null;
+    }
+    setAccount(state.account);
+    setReadOnly(state.account !== '' && !state.signer);
+    // A wallet account takes over from the watched one, and from its link
+    if (state.signer && watchedRouteRef.current) {
+      watchedRouteRef.current = null;
+      setWatchedName('');
+      navigate('/');
+    }
+    const activeDeployment = resolveDeployment(BigInt(state.chainId));
+
+    if (!state.account) {
+      if (previous?.account) setMessage({ type: 'warning', text: 'Wallet disconnected.' });
+      await startBrowsing();
+      return;
+    }
+    if (!activeDeployment) {
+      setMessage({ type: 'warning', text: `YieldFarm is not deployed on ${getChainName(state.chainId)}.` });
+      return;
+    }
+
+    await initializeContracts(state, activeDeployment);
+    if (previous?.account && previous.account !== state.account) {
+      setMessage({ type: 'success', text: `Switched to account ${state.account.slice(0, 6)}...${state.account.slice(-4)}.` });
+    } else if (previous?.account && previous.chainId !== state.chainId) {
+      setMessage({ type: 'success', text: `Switched to ${activeDeployment.name}.` });
+    }
+  };
+
+  // Drops everything read from, subscribed to or typed for the previous account or chain
+  const resetSessionState = () => {
+    stateVersionRef.current += 1;
+    indexerRef.current?.stop();
+    indexerRef.current = null;
+    streamRef.current?.close();
+    streamRef.current = null;
+    trackerRef.current?.stop();
+    trackerRef.current = null;
+    pauseUnsubscribeRef.current?.();
+    pauseUnsubscribeRef.current = null;
+    txTrackerRef.current = null;
+    if (refreshTimerRef.current) clearTimeout(refreshTimerRef.current);
+    refreshTimerRef.current = null;
+    blockTimeRef.current = null;
+    priceSourceRef.current = null;
+    permitSupportRef.current.clear();
+
+    setClient(null);
+    setUserStats(null);
+    setPools([]);
+    setEmission(null);
+    setPrices({});
+    setActivity([]);
+    setStreamStatus(null);
+    setRewardDrift([]);
+    setFarmOwner('');
+    setFarmPaused(false);
+    setReserve(null);
+    setTransactions([]);
+    setBusy({});
+    setEmergencyExit(null);
+    setAdminChange(null);
+    setRewardShortfall(null);
+    setHarvestSummary(null);
+    setPoolInputs({});
+    setAdminInputs(EMPTY_ADMIN_INPUTS);
+    setTrayOpen(false);
+  };
+
+  // Asks the wallet to switch to the target chain, adding it first when the wallet does not know it.
+  // The chainChanged event re-initializes the app once the wallet has switched.
+  const switchNetwork = async (targetChainId = getTargetChainId()) => {
+    const ethereumProvider = walletRef.current?.ethereum;
+    if (!ethereumProvider) return;
+
     try {
-      const yieldFarmContract = new ethers.Contract(CONTRACT_ADDRESSES.yieldFarm, YIELD_FARM_ABI, signer);
-      const lpTokenContract = new ethers.Contract(CONTRACT_ADDRESSES.lpToken, ERC20_ABI, signer);
-      const rewardTokenContract = new ethers.Contract(CONTRACT_ADDRESSES.rewardToken, ERC20_ABI, signer);
-
-      setContracts({
-        yieldFarm: yieldFarmContract,
-        lpToken: lpTokenContract,
-        rewardToken: rewardTokenContract
+      try {
+        await ethereumProvider.request({ method: 'wallet_switchEthereumChain', params: [{ chainId: ethers.toQuantity(targetChainId) }] });
+      } catch (error) {
+        const parameter = getAddChainParameter(targetChainId);
+        if (!isUnrecognizedChain(error) || !parameter) throw error;
+        await ethereumProvider.request({ method: 'wallet_addEthereumChain', params: [parameter] });
+      }
+    } catch (error) {
+      console.error('Network switch error:', error);
+      setMessage({
+        type: 'warning',
+        text:
+          decodeTransactionError(error).category === 'userRejected'
+            ? 'Network switch cancelled in your wallet.'
+            : `Could not switch to ${getChainName(targetChainId)}. Switch networks in your wallet instead.`
       });
+    }
+  };
+
+  // Select the contract addresses registered for the connected network
+  const resolveDeployment = (networkChainId: bigint) => {
+    const activeDeployment = getDeployment(networkChainId);
+    setChainId(Number(networkChainId));
+    setDeployment(activeDeployment);
+    return activeDeployment;
+  };
 
-      await loadUserStats(signer.address, { yieldFarm: yieldFarmContract, lpToken: lpTokenContract, rewardToken: rewardTokenContract });
+  const initializeContracts = async ({ provider, account, signer }: WalletState, activeDeployment: Deployment) => {
+    try {
+      // Browsing reads positions of the zero address, which are all empty
+      const userAddress = account || ethers.ZeroAddress;
+      // Browsing and watched addresses have no signer, so their client can only read
+      const runner = signer ?? provider;
+      const farmClient = new YieldFarmClient(activeDeployment.yieldFarm, runner);
+      setClient(farmClient);
+      priceSourceRef.current = createPriceSource(runner);
+      startIndexer(provider, userAddress, activeDeployment, farmClient);
+      startStream(userAddress, farmClient);
+      watchPaused(farmClient);
+      if (signer) startTransactionTracker(signer, activeDeployment);
+
+      await loadUserStats(userAddress, farmClient);
+      if (account) startRewardTicker(userAddress, farmClient);
     } catch (error) {
       console.error('Contract initialization error:', error);
-      setMessage({ type: 'warning', text: 'Contract addresses not set. Please deploy contracts first.' });
+      setMessage({ type: 'warning', text: 'Failed to load contracts for the connected network.' });
     }
   };
 
-  const connectWallet = async () => {
-    if (!provider) return;
+  // History is indexed from the farm's logs into IndexedDB, one database per chain and farm
+  const startIndexer = (
+    chainProvider: ethers.Provider,
+    userAddress: string,
+    activeDeployment: Deployment,
+    farmClient: YieldFarmClient
+  ) => {
+    indexerRef.current?.stop();
+    setActivity([]);
+
+    const store = new IndexedDbEventStore(`yieldfarm-events-${activeDeployment.chainId}-${activeDeployment.yieldFarm.toLowerCase()}`);
+    const indexer = new EventIndexer(activeDeployment.yieldFarm, chainProvider, store, {
+      fromBlock: activeDeployment.deployBlock
+    });
+    indexerRef.current = indexer;
+
+    const loadActivity = async () => {
+      const events = await store.getEvents({ user: userAddress, limit: 50 });
+      if (indexerRef.current === indexer) setActivity(events);
+    };
+    indexer.onEvents(() => {
+      loadActivity();
+      loadReserve(farmClient);
+    });
+    // Backfilling can take a while on long-lived deployments, so it runs alongside the stats load
+    loadActivity();
+    indexer.start().catch((error) => console.error('Event indexer failed to start:', error));
+  };
+
+  // Sent transactions are kept per chain and account so the tray survives reloads
+  const startTransactionTracker = (signer: ethers.JsonRpcSigner, activeDeployment: Deployment) => {
+    const tracker = new TransactionTracker(
+      signer.provider,
+      new LocalStorageTransactionStorage(`yieldfarm-transactions-${activeDeployment.chainId}-${signer.address.toLowerCase()}`)
+    );
+    txTrackerRef.current = tracker;
+    setTransactions(tracker.list());
+    tracker.onChange((list) => {
+      if (txTrackerRef.current === tracker) setTransactions(list);
+    });
+    tracker.resume().catch((error) => console.error('Failed to resume pending transactions:', error));
+  };
+
+  // Deposits are whenNotPaused; withdraw, harvest and emergencyWithdraw keep working during a pause
+  const watchPaused = (farmClient: YieldFarmClient) => {
+    pauseUnsubscribeRef.current?.();
+    pauseUnsubscribeRef.current = farmClient.onPausedChange((paused) => {
+      setFarmPaused(paused);
+      setMessage({
+        type: paused ? 'warning' : 'success',
+        text: paused ? 'The farm owner paused deposits.' : 'The farm owner resumed deposits.'
+      });
+    });
+  };
+
+  // Pending rewards are recomputed locally every block and re-read from the chain every few blocks
+  const startRewardTicker = (userAddress: string, farmClient: YieldFarmClient) => {
+    trackerRef.current?.stop();
+    setRewardDrift([]);
+
+    const tracker = new PendingRewardTracker(farmClient, userAddress);
+    trackerRef.current = tracker;
+    tracker.onUpdate((update) => {
+      if (trackerRef.current !== tracker) return;
+      setPools((prev) => prev.map((pool) => (pool.pid in update.pending ? { ...pool, pendingReward: update.pending[pool.pid] } : pool)));
+      setUserStats((prev) => prev && { ...prev, pendingReward: update.total });
+      if (update.reconciled) setRewardDrift(update.drift);
+    });
+    tracker.start().catch((error) => console.error('Pending reward ticker failed to start:', error));
+  };
+
+  // Live updates pushed by the API server (api/), when VITE_API_WS_URL points at its /ws endpoint
+  const startStream = (userAddress: string, farmClient: YieldFarmClient) => {
+    streamRef.current?.close();
+    streamRef.current = null;
+    setStreamStatus(null);
 
+    const url = import.meta.env.VITE_API_WS_URL;
+    if (!url) return;
+
+    const stream = new FarmStreamClient(url);
+    streamRef.current = stream;
+    // A replaced stream still reports 'closed' as its socket shuts down
+    stream.onStatus((status) => {
+      if (streamRef.current === stream) setStreamStatus(status);
+    });
+    stream.onMessage((streamMessage) => {
+      if (streamMessage.type === 'error') {
+        console.warn('Event stream error:', streamMessage.error.message);
+      } else if (streamMessage.type !== 'subscribed') {
+        scheduleRefresh(userAddress, farmClient, streamMessage.type !== 'poolUpdate');
+      }
+    });
+    // The user filter only narrows deposit/withdraw/harvest events; every pool update still arrives
+    stream.subscribe({ filters: { users: [userAddress] } });
+    stream.connect();
+  };
+
+  // One block often carries several messages, so refreshes are coalesced
+  const scheduleRefresh = (userAddress: string, farmClient: YieldFarmClient, includeActivity: boolean) => {
+    if (refreshTimerRef.current) clearTimeout(refreshTimerRef.current);
+    refreshTimerRef.current = setTimeout(() => {
+      refreshTimerRef.current = null;
+      loadUserStats(userAddress, farmClient);
+      if (includeActivity) {
+        indexerRef.current?.sync().catch((error) => console.error('Event indexer sync failed:', error));
+      }
+    }, 300);
+  };
+
+  const connectWallet = () => setConnectorPickerOpen(true);
+
+  // Anyone opening the link sees this account's positions read-only
+  const copyPortfolioLink = async () => {
+    const url = `${window.location.origin}${getAddressPath(watchedName || account)}`;
     try {
-      await provider.send('eth_requestAccounts', []);
-      const signer = await provider.getSigner();
-      const address = await signer.getAddress();
+      await navigator.clipboard.writeText(url);
+      setMessage({ type: 'success', text: 'Portfolio link copied.' });
+    } catch {
+      setMessage({ type: 'warning', text: `Copy this link to share the portfolio: ${url}` });
+    }
+  };
 
-      setAccount(address);
-      setSigner(signer);
-      await initializeContracts(signer);
+  const connectWith = async (connector: WalletConnector) => {
+    setConnectorPickerOpen(false);
+
+    try {
+      const wallet = startWalletSession(await connector.getProvider());
+      // Resolves once applyWalletState has initialized the contracts for the account
+      const state = await wallet.connect();
+      if (!state.account) return;
+      saveConnectorChoice(connector.id);
+      if (!getDeployment(state.chainId)) {
+        if (state.chainId !== getTargetChainId()) await switchNetwork();
+        return;
+      }
       setMessage({ type: 'success', text: 'Wallet connected successfully!' });
     } catch (error) {
       console.error('Connection error:', error);
-      setMessage({ type: 'warning', text: 'Failed to connect wallet.' });
+      setMessage({ type: 'warning', text: `Failed to connect ${connector.name}.` });
+    }
+  };
+
+  // Read-only view of any address or ENS name, served by the target chain's RPC instead of a wallet.
+  // It lives at /address/:addr so it can be shared; only a pick from the connector picker is remembered
+  // for the next visit, and only that pick adds a history entry.
+  const watchAddress = async (addressOrName: string, fromPicker = false): Promise<boolean> => {
+    const ensName = ethers.isAddress(addressOrName) ? '' : addressOrName;
+    let address: string | null = ensName ? null : addressOrName;
+    if (ensName.includes('.')) {
+      try {
+        address = await resolveEnsName(ensName);
+      } catch (error) {
+        console.error('ENS resolution failed:', error);
+      }
+    }
+    if (!address) {
+      setMessage({
+        type: 'error',
+        text: ensName.includes('.') ? `${ensName} does not resolve to an address.` : 'Enter a valid address or ENS name to watch.'
+      });
+      return false;
+    }
+    const chainId = getTargetChainId();
+    const readProvider = createReadProvider(chainId);
+    if (!readProvider) {
+      setMessage({ type: 'error', text: `No RPC URL is configured for ${getChainName(chainId)}; set VITE_RPC_URL_${chainId}.` });
+      return false;
+    }
+
+    setConnectorPickerOpen(false);
+    walletRef.current?.destroy();
+    walletRef.current = null;
+    readProviderRef.current?.destroy();
+    readProviderRef.current = readProvider;
+
+    const watched = ethers.getAddress(address);
+    if (fromPicker) saveConnectorChoice(`watch:${watched}`);
+    // A name stays in the link, so the link follows the name when it is pointed elsewhere
+    watchedRouteRef.current = ensName || watched;
+    navigate(getAddressPath(watchedRouteRef.current), !fromPicker);
+    setWatchedName(ensName);
+    setActiveSection('app');
+    setActiveDashboardPage('overview');
+    await applyWalletState({ provider: readProvider, chainId, account: watched, signer: null }, null);
+    return true;
+  };
+
+  const stopWatching = async () => {
+    watchedRouteRef.current = null;
+    setWatchedName('');
+    navigate('/');
+    resetSessionState();
+    setAccount('');
+    setReadOnly(false);
+    await startBrowsing();
+  };
+
+  // Back and forward move between watched addresses; leaving /address/:addr stops watching
+  const onPopState = () => {
+    const routed = parseAddressRoute(window.location.pathname);
+    // Fragment links also pop state without changing the route
+    if (routed === watchedRouteRef.current) return;
+    (routed ? watchAddress(routed) : stopWatching()).catch((error) => console.error('Failed to follow the route:', error));
+  };
+
+  const disconnectWallet = async () => {
+    saveConnectorChoice('none');
+    const wallet = walletRef.current;
+    walletRef.current = null;
+
+    if (wallet) {
+      try {
+        await wallet.disconnect();
+      } catch (error) {
+        console.error('Disconnect error:', error);
+      }
+      wallet.destroy();
+      return;
+    }
+    await stopWatching();
+  };
+
+  const loadPool = async (pid: number, userAddress: string, farmClient: YieldFarmClient): Promise<PoolData> => {
+    const pool = await farmClient.getPool(pid);
+    const lpToken = farmClient.getLpToken(pool.lpToken);
+    const permitKey = pool.lpToken.toLowerCase();
+    if (!permitSupportRef.current.has(permitKey)) {
+      permitSupportRef.current.set(permitKey, farmClient.supportsPermit(pid));
     }
+    const [position, lpBalance, allowance, supportsPermit] = await Promise.all([
+      farmClient.getUserPosition(pid, userAddress),
+      lpToken.balanceOf(userAddress),
+      lpToken.allowance(userAddress, farmClient.address),
+      permitSupportRef.current.get(permitKey)!
+    ]);
+
+    return {
+      ...pool,
+      stakedAmount: position.amount,
+      pendingReward: position.pendingReward,
+      lpBalance,
+      lastStakeTime: position.lastStakeTime,
+      allowance,
+      supportsPermit
+    };
   };
 
-  const loadUserStats = async (userAddress: string, contractsObj: any) => {
+  const loadUserStats = async (userAddress: string, farmClient: YieldFarmClient) => {
+    const version = stateVersionRef.current;
     try {
-      const [userInfo, pendingReward, lpBalance, rewardBalance] = await Promise.all([
-        contractsObj.yieldFarm.getUserInfo(0, userAddress),
-        contractsObj.yieldFarm.pendingReward(0, userAddress),
-        contractsObj.lpToken.balanceOf(userAddress),
-        contractsObj.rewardToken.balanceOf(userAddress)
+      const chainProvider = farmClient.runner.provider!;
+      const [farmInfo, rewardBalance, currentBlock, owner, paused] = await Promise.all([
+        farmClient.getFarmInfo(),
+        farmClient.getRewardBalance(userAddress),
+        chainProvider.getBlockNumber(),
+        farmClient.getOwner(),
+        farmClient.isPaused()
       ]);
-
+      const blockTime = blockTimeRef.current ?? (await estimateBlockTime(chainProvider));
+
+      const loadedPools: PoolData[] = await Promise.all(
+        Array.from({ length: farmInfo.poolCount }, (_, pid) => loadPool(pid, userAddress, farmClient))
+      );
+
+      const pendingTotal = loadedPools.reduce((sum, pool) => sum + pool.pendingReward, 0n);
+      const tokenPrices = priceSourceRef.current
+        ? await getPrices(priceSourceRef.current, [farmInfo.rewardToken, ...loadedPools.map((pool) => pool.lpToken)])
+        : {};
+      if (stateVersionRef.current !== version) return;
+      blockTimeRef.current = blockTime;
+
+      setPools(loadedPools);
+      setPrices(tokenPrices);
+      setEmission({ farmInfo, currentBlock: BigInt(currentBlock), blockTime });
+      setFarmOwner(owner);
+      setFarmPaused(paused);
       setUserStats({
-        stakedAmount: ethers.formatEther(userInfo[0]),
-        pendingReward: ethers.formatEther(pendingReward),
-        lpBalance: ethers.formatEther(lpBalance),
-        rewardBalance: ethers.formatEther(rewardBalance)
+        activePools: loadedPools.filter((pool) => pool.stakedAmount > 0n).length,
+        pendingReward: pendingTotal,
+        rewardBalance
       });
+      loadReserve(farmClient);
+      // Rebase the per-block estimate on the state just read
+      trackerRef.current?.refresh().catch((error) => console.error('Pending reward refresh failed:', error));
     } catch (error) {
       console.error('Failed to load user stats:', error);
     }
   };
 
-  const handleStake = async () => {
-    if (!contracts.yieldFarm || !stakeAmount) return;
+  // Liabilities come from the indexed stakers, so they are understated until the backfill completes
+  const loadReserve = async (farmClient: YieldFarmClient) => {
+    const indexer = indexerRef.current;
+    if (!indexer) return;
+
+    try {
+      const status = await checkRewardReserve(farmClient, await indexer.store.getEvents());
+      if (indexerRef.current === indexer) setReserve(status);
+    } catch (error) {
+      console.error('Failed to check the reward reserve:', error);
+    }
+  };
+
+  const updatePoolInput = (pid: number, field: keyof PoolInput, value: string) => {
+    setPoolInputs((prev) => ({
+      ...prev,
+      [pid]: { ...(prev[pid] || { stake: '', withdraw: '' }), [field]: value }
+    }));
+  };
+
+  // Every write path reports failures through the shared decoder so reverts get an actionable message
+  const reportTxError = (action: string, error: unknown) => {
+    console.error(`${action} error:`, error);
+    const { category, message } = decodeTransactionError(error);
+    setMessage({
+      type: category === 'userRejected' ? 'warning' : 'error',
+      text: category === 'userRejected' ? `${action} cancelled: ${message}` : `${action} failed: ${message}`
+    });
+  };
+
+  const parseStakeInput = (value: string, pool: PoolData): bigint | null => {
+    try {
+      return ethers.parseUnits(value, pool.decimals);
+    } catch {
+      return null;
+    }
+  };
+
+  const getPoolStakeLimits = (pool: PoolData): StakeLimits => ({
+    minStakeAmount: pool.minStakeAmount,
+    maxStakeAmount: pool.maxStakeAmount,
+    staked: pool.stakedAmount,
+    balance: pool.lpBalance,
+    allowance: pool.allowance
+  });
+
+  const describeStakeError = (error: TransactionErrorCategory, pool: PoolData, limits: StakeLimits) => {
+    switch (error) {
+      case 'belowMinimum':
+        return `The minimum stake in this pool is ${formatPoolAmount(limits.minStakeAmount, pool)} ${pool.symbol}.`;
+      case 'aboveMaximum': {
+        const room = limits.maxStakeAmount > limits.staked ? limits.maxStakeAmount - limits.staked : 0n;
+        return `You can stake at most ${formatPoolAmount(room, pool)} more ${pool.symbol} (limit ${formatPoolAmount(limits.maxStakeAmount, pool)} per wallet).`;
+      }
+      case 'insufficientTokenBalance':
+        return `Your wallet holds ${formatPoolAmount(limits.balance, pool)} ${pool.symbol}.`;
+      default:
+        return decodeTransactionError(error).message;
+    }
+  };
+
+  // Inline feedback under the stake input, from the limits loaded with the pool
+  const getStakeHint = (pool: PoolData): { type: 'error' | 'note'; text: string } | null => {
+    const input = poolInputs[pool.pid]?.stake;
+    if (!input) return null;
+
+    const amount = parseStakeInput(input, pool);
+    if (amount === null) return { type: 'error', text: 'Enter a valid amount.' };
+
+    const limits = getPoolStakeLimits(pool);
+    const { error, needsApproval } = validateStake(amount, limits);
+    if (error) return { type: 'error', text: describeStakeError(error, pool, limits) };
+    if (!needsApproval) return null;
+    return {
+      type: 'note',
+      text:
+        getApprovalStrategy(pool) === 'unlimited'
+          ? `Needs a one-time unlimited approval of ${pool.symbol} before staking.`
+          : `Needs ${getApprovalStrategy(pool) === 'permit' ? 'a permit' : 'an approval'} of ${input} ${pool.symbol} before staking.`
+    };
+  };
+
+  // Permit falls back to an exact approval for LP tokens without EIP-2612
+  const getApprovalStrategy = (pool: PoolData): ApprovalStrategy =>
+    approvalStrategy === 'permit' && !pool.supportsPermit ? 'exact' : approvalStrategy;
+
+  const selectApprovalStrategy = (strategy: ApprovalStrategy) => {
+    localStorage.setItem(APPROVAL_STRATEGY_KEY, strategy);
+    setApprovalStrategy(strategy);
+  };
+
+  const formatAllowance = (pool: PoolData) =>
+    pool.allowance === ethers.MaxUint256 ? 'Unlimited' : `${formatPoolAmount(pool.allowance, pool)} ${pool.symbol}`;
 
-    setLoading(true);
+  const fillMaxStake = (pool: PoolData) => {
+    const amount = maxStakeAmount(getPoolStakeLimits(pool));
+    updatePoolInput(pool.pid, 'stake', amount > 0n ? ethers.formatUnits(amount, pool.decimals) : '');
+  };
+
+  // Locks are per pool (or per feature), so a pending transaction in one pool leaves the rest usable
+  const runAction = async (key: string, action: () => Promise<void>) => {
+    if (!canWrite) {
+      setMessage({
+        type: 'warning',
+        text: readOnly ? 'You are watching an address. Connect a wallet to send transactions.' : 'Connect a wallet to send transactions.'
+      });
+      return;
+    }
+    setBusy((prev) => ({ ...prev, [key]: true }));
     try {
-      const amount = ethers.parseEther(stakeAmount);
+      await action();
+    } finally {
+      setBusy((prev) => {
+        const next = { ...prev };
+        delete next[key];
+        return next;
+      });
+    }
+  };
+
+  const poolKey = (pid: number) => `pool:${pid}`;
+  const isPoolBusy = (pid: number) => Boolean(busy[poolKey(pid)] || busy.harvestAll);
+
+  // Every sent transaction goes through the tracker so it shows in the tray and survives a reload
+  const trackTx = (tx: ethers.TransactionResponse, kind: string, label: string, pid?: number) =>
+    txTrackerRef.current ? txTrackerRef.current.track(tx, { kind, label, pid }) : tx.wait().then((receipt) => receipt!);
+
+  const handleStake = (pool: PoolData) => {
+    const stakeAmount = poolInputs[pool.pid]?.stake;
+    if (!client || !stakeAmount || farmPaused) return;
+
+    const amount = parseStakeInput(stakeAmount, pool);
+    if (amount === null) {
+      setMessage({ type: 'error', text: 'Enter a valid stake amount.' });
+      return;
+    }
+
+    return runAction(poolKey(pool.pid), async () => {
+      try {
+        // The card may be a few blocks stale, so the limits are re-read before anything is signed
+        const limits = await client.getStakeLimits(pool.pid, account);
+        const { error } = validateStake(amount, limits);
+        if (error) {
+          setMessage({ type: 'error', text: describeStakeError(error, pool, limits) });
+          return;
+        }
+
+        // Approve the farm first if the current allowance does not cover the stake
+        const strategy = getApprovalStrategy(pool);
+        const approveTx = await client.ensureAllowance(pool.pid, amount, strategy);
+        if (approveTx) {
+          const approveLabel = {
+            exact: `Approve ${stakeAmount} ${pool.symbol}`,
+            unlimited: `Approve unlimited ${pool.symbol}`,
+            permit: `Permit ${stakeAmount} ${pool.symbol}`
+          }[strategy];
+          await trackTx(approveTx, strategy === 'permit' ? 'permit' : 'approve', approveLabel, pool.pid);
+        }
+
+        // Surface any remaining revert before the wallet asks for a signature
+        await client.simulateDeposit(pool.pid, amount);
+        const tx = await client.deposit(pool.pid, amount);
+        await trackTx(tx, 'deposit', `Stake ${stakeAmount} ${pool.symbol}`, pool.pid);
+
+        setMessage({ type: 'success', text: `Successfully staked ${stakeAmount} ${pool.symbol}!` });
+        updatePoolInput(pool.pid, 'stake', '');
+        await loadUserStats(account, client);
+      } catch (error) {
+        reportTxError('Staking', error);
+      }
+    });
+  };
+
+  const handleWithdraw = (pool: PoolData) => {
+    const withdrawAmount = poolInputs[pool.pid]?.withdraw;
+    if (!client || !withdrawAmount) return;
+
+    return runAction(poolKey(pool.pid), async () => {
+      try {
+        const amount = ethers.parseUnits(withdrawAmount, pool.decimals);
+        const tx = await client.withdraw(pool.pid, amount);
+        await trackTx(tx, 'withdraw', `Withdraw ${withdrawAmount} ${pool.symbol}`, pool.pid);
+
+        setMessage({ type: 'success', text: `Successfully withdrew ${withdrawAmount} ${pool.symbol}!` });
+        updatePoolInput(pool.pid, 'withdraw', '');
+        await loadUserStats(account, client);
+      } catch (error) {
+        reportTxError('Withdrawal', error);
+      }
+    });
+  };
+
+  const handleRevoke = (pool: PoolData) => {
+    if (!client) return;
 
-      // Check allowance
-      const allowance = await contracts.lpToken.allowance(account, CONTRACT_ADDRESSES.yieldFarm);
-      if (allowance < amount) {
-        const approveTx = await contracts.lpToken.approve(CONTRACT_ADDRESSES.yieldFarm, amount);
-        await approveTx.wait();
+    return runAction(poolKey(pool.pid), async () => {
+      try {
+        const tx = await client.revokeAllowance(pool.pid);
+        await trackTx(tx, 'revoke', `Revoke ${pool.symbol} allowance`, pool.pid);
+
+        setMessage({ type: 'success', text: `Revoked the farm's ${pool.symbol} allowance.` });
+        await loadUserStats(account, client);
+      } catch (error) {
+        reportTxError('Revoking the allowance', error);
       }
+    });
+  };
+
+  // Holds back a harvest that safeRewardTransfer would cap at the farm's balance until the user confirms it
+  const confirmFullPayout = async (harvestPools: PoolData[], proceed: () => void) => {
+    if (!client) return false;
+
+    const payouts = await Promise.all(harvestPools.map((pool) => previewRewardPayout(client, pool.pid, account)));
+    const pending = payouts.reduce((sum, payout) => sum + payout.pending, 0n);
+    const balance = payouts[0]?.balance ?? 0n;
+    if (pending <= balance) return true;
+
+    setRewardShortfall({ poolCount: harvestPools.length, pending, payable: balance, proceed });
+    return false;
+  };
+
+  const handleHarvest = (pool: PoolData, acceptShortfall = false) => {
+    if (!client) return;
 
-      const tx = await contracts.yieldFarm.deposit(0, amount);
-      await tx.wait();
+    return runAction(poolKey(pool.pid), async () => {
+      try {
+        if (!acceptShortfall && !(await confirmFullPayout([pool], () => handleHarvest(pool, true)))) return;
 
-      setMessage({ type: 'success', text: `Successfully staked ${stakeAmount} LP tokens!` });
-      setStakeAmount('');
-      await loadUserStats(account, contracts);
+        const tx = await client.harvest(pool.pid);
+        await trackTx(tx, 'harvest', `Harvest ${pool.symbol}`, pool.pid);
+
+        setMessage({ type: 'success', text: `Successfully harvested rewards from ${pool.symbol}!` });
+        await loadUserStats(account, client);
+      } catch (error) {
+        reportTxError('Harvest', error);
+      }
+    });
+  };
+
+  const quoteEmergencyExit = async (farmClient: YieldFarmClient, pid: number, blockNumber: number) => {
+    const [pending, forfeited] = await Promise.all([
+      farmClient.farm.pendingReward(pid, account, { blockTag: blockNumber }),
+      farmClient.pendingRewardInBlock(pid, account, blockNumber + 1)
+    ]);
+    return { blockNumber, forfeited, perBlock: forfeited - pending };
+  };
+
+  const openEmergencyExit = async (pool: PoolData) => {
+    const chainProvider = client?.runner.provider;
+    if (!client || !chainProvider) return;
+
+    try {
+      const quote = await quoteEmergencyExit(client, pool.pid, await chainProvider.getBlockNumber());
+      setEmergencyExit({ pool, ...quote });
     } catch (error) {
-      console.error('Staking error:', error);
-      setMessage({ type: 'warning', text: 'Staking failed. Please try again.' });
+      console.error('Emergency withdraw quote error:', error);
+      setMessage({ type: 'warning', text: 'Could not read pending rewards. Please try again.' });
     }
-    setLoading(false);
   };
 
-  const handleWithdraw = async () => {
-    if (!contracts.yieldFarm || !withdrawAmount) return;
+  const handleEmergencyWithdraw = () => {
+    if (!client || !emergencyExit) return;
+    const { pool } = emergencyExit;
+
+    setEmergencyExit(null);
+    return runAction(poolKey(pool.pid), async () => {
+      try {
+        const tx = await client.emergencyWithdraw(pool.pid);
+        const receipt = await trackTx(tx, 'emergencyWithdraw', `Emergency withdraw ${pool.symbol}`, pool.pid);
+
+        // Only the farm's EmergencyWithdraw event proves the stake actually came back
+        const event = receipt.logs
+          .filter((log) => log.address.toLowerCase() === client.address.toLowerCase())
+          .map((log) => client.farm.interface.parseLog(log))
+          .find((parsed) => parsed?.name === 'EmergencyWithdraw' && parsed.args.user.toLowerCase() === account.toLowerCase());
+        if (!event) {
+          setMessage({ type: 'warning', text: `Transaction ${receipt.hash} was mined without an EmergencyWithdraw event.` });
+        } else {
+          const forfeited = await client.pendingRewardInBlock(pool.pid, account, receipt.blockNumber);
+          setMessage({
+            type: 'success',
+            text: `Emergency withdrawal confirmed in block #${receipt.blockNumber}: ${formatPoolAmount(event.args.amount, pool)} ${pool.symbol} returned, ${formatReward(forfeited)} YFT forfeited.`
+          });
+        }
+        await loadUserStats(account, client);
+      } catch (error) {
+        reportTxError('Emergency withdrawal', error);
+      }
+    });
+  };
+
+  const handleHarvestAll = (acceptShortfall = false) => {
+    const harvestable = pools.filter((pool) => pool.pendingReward > 0n);
+    if (!client || harvestable.length === 0) return;
+
+    return runAction('harvestAll', async () => {
+      try {
+        if (!acceptShortfall && !(await confirmFullPayout(harvestable, () => handleHarvestAll(true)))) return;
+
+        // harvestAll re-reads pendingReward, so pools that accrued since the last refresh are included
+        const result = await harvestAll(client, account, (tx, pid) =>
+          trackTx(tx, 'harvest', `Harvest ${getPoolSymbol(pid)}`, pid)
+        );
+        if (result.failed && result.harvested.length === 0) {
+          reportTxError('Harvest', result.failed.error);
+        } else {
+          setHarvestSummary(result.failed ? { ...result, error: decodeTransactionError(result.failed.error).message } : result);
+        }
+        await loadUserStats(account, client);
+      } catch (error) {
+        reportTxError('Harvest', error);
+      }
+    });
+  };
+
+  const isOwner = canWrite && farmOwner !== '' && account.toLowerCase() === farmOwner.toLowerCase();
+
+  const updateAdminInput = (field: Exclude<keyof AdminInputs, 'allocPoints'>, value: string) => {
+    setAdminInputs((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const updateAdminAllocPoint = (pid: number, value: string) => {
+    setAdminInputs((prev) => ({ ...prev, allocPoints: { ...prev.allocPoints, [pid]: value } }));
+  };
+
+  const parseAllocPoint = (value: string): bigint | null => (/^\d+$/.test(value.trim()) ? BigInt(value.trim()) : null);
+
+  // Share of emissions and YFT per block for every pool under the given alloc points and emission rate
+  const describeEmissionSplit = (allocPoints: bigint[], rewardPerBlock: bigint) => {
+    const totalAllocPoint = allocPoints.reduce((sum, points) => sum + points, 0n);
+    return allocPoints.map((points) => {
+      const share = totalAllocPoint > 0n ? `${(Number(points * 10000n / totalAllocPoint) / 100).toFixed(2)}%` : '0%';
+      return `${points} pts · ${share} · ${formatReward(poolRewardPerBlock(points, { rewardPerBlock, totalAllocPoint }))} YFT/block`;
+    });
+  };
+
+  const emissionRows = (beforeAllocPoints: bigint[], afterAllocPoints: bigint[], beforeRate: bigint, afterRate: bigint) => {
+    const before = describeEmissionSplit(beforeAllocPoints, beforeRate);
+    const after = describeEmissionSplit(afterAllocPoints, afterRate);
+    return after.map((value, index) => ({
+      label: index < pools.length ? `Pool #${index} ${pools[index].symbol}` : `Pool #${index} (new)`,
+      before: before[index] ?? '—',
+      after: value
+    }));
+  };
+
+  const prepareAddPool = async () => {
+    if (!client || !emission) return;
+    const { lpToken, allocPoint, minStake, maxStake } = adminInputs;
+
+    const points = parseAllocPoint(allocPoint);
+    if (!ethers.isAddress(lpToken) || points === null || !minStake || !maxStake) {
+      setMessage({ type: 'warning', text: 'Enter an LP token address, whole alloc points and min/max stake amounts.' });
+      return;
+    }
 
-    setLoading(true);
     try {
-      const amount = ethers.parseEther(withdrawAmount);
-      const tx = await contracts.yieldFarm.withdraw(0, amount);
-      await tx.wait();
+      const token = client.getLpToken(lpToken);
+      const [symbol, decimals] = await Promise.all([token.symbol(), token.decimals()]);
+      const min = ethers.parseUnits(minStake, decimals);
+      const max = ethers.parseUnits(maxStake, decimals);
+      if (min > max) {
+        setMessage({ type: 'warning', text: 'Minimum stake cannot exceed the maximum stake.' });
+        return;
+      }
 
-      setMessage({ type: 'success', text: `Successfully withdrew ${withdrawAmount} LP tokens!` });
-      setWithdrawAmount('');
-      await loadUserStats(account, contracts);
+      const current = pools.map((pool) => pool.allocPoint);
+      const { rewardPerBlock } = emission.farmInfo;
+      setAdminChange({
+        title: `Add ${symbol} pool #${pools.length}`,
+        rows: [
+          { label: 'LP token', before: '—', after: `${symbol} (${lpToken})` },
+          { label: 'Stake limits', before: '—', after: `${minStake} – ${maxStake} ${symbol}` },
+          ...emissionRows(current, [...current, points], rewardPerBlock, rewardPerBlock)
+        ],
+        send: (farmClient) => farmClient.addPool(points, lpToken, min, max)
+      });
     } catch (error) {
-      console.error('Withdrawal error:', error);
-      setMessage({ type: 'warning', text: 'Withdrawal failed. Please try again.' });
+      console.error('Add pool preview error:', error);
+      setMessage({ type: 'warning', text: 'Could not read the LP token. Check the address and amounts.' });
     }
-    setLoading(false);
   };
 
-  const handleHarvest = async () => {
-    if (!contracts.yieldFarm) return;
+  const prepareSetPools = () => {
+    if (!emission) return;
 
-    setLoading(true);
+    const current = pools.map((pool) => pool.allocPoint);
+    const next = pools.map((pool) => {
+      const input = adminInputs.allocPoints[pool.pid];
+      return input === undefined || input === '' ? pool.allocPoint : parseAllocPoint(input);
+    });
+    if (next.some((points) => points === null)) {
+      setMessage({ type: 'warning', text: 'Alloc points must be whole numbers.' });
+      return;
+    }
+
+    const changed = pools.filter((pool, index) => next[index] !== pool.allocPoint);
+    if (changed.length === 0) {
+      setMessage({ type: 'warning', text: 'No alloc points were changed.' });
+      return;
+    }
+
+    const { rewardPerBlock } = emission.farmInfo;
+    setAdminChange({
+      title: `Rebalance ${changed.length} pool(s)`,
+      rows: emissionRows(current, next as bigint[], rewardPerBlock, rewardPerBlock),
+      // setPool is one transaction per pool; the split is only final once all of them are mined
+      send: async (farmClient) => {
+        for (const pool of changed.slice(0, -1)) {
+          await trackTx(await farmClient.setPool(pool.pid, next[pool.pid]!), 'admin', `Set pool #${pool.pid} alloc points`);
+        }
+        const last = changed[changed.length - 1];
+        return farmClient.setPool(last.pid, next[last.pid]!);
+      }
+    });
+  };
+
+  const prepareRewardPerBlock = () => {
+    if (!emission || !adminInputs.rewardPerBlock) return;
+
+    let rate: bigint;
     try {
-      const tx = await contracts.yieldFarm.harvest(0);
-      await tx.wait();
+      rate = ethers.parseEther(adminInputs.rewardPerBlock);
+    } catch {
+      setMessage({ type: 'warning', text: 'Enter a valid reward per block.' });
+      return;
+    }
 
-      setMessage({ type: 'success', text: 'Successfully harvested rewards!' });
-      await loadUserStats(account, contracts);
-    } catch (error) {
-      console.error('Harvest error:', error);
-      setMessage({ type: 'warning', text: 'Harvest failed. Please try again.' });
+    const current = pools.map((pool) => pool.allocPoint);
+    const { rewardPerBlock } = emission.farmInfo;
+    setAdminChange({
+      title: 'Change reward per block',
+      rows: [
+        { label: 'Reward per block', before: `${formatReward(rewardPerBlock)} YFT`, after: `${formatReward(rate)} YFT` },
+        ...emissionRows(current, current, rewardPerBlock, rate)
+      ],
+      send: (farmClient) => farmClient.updateRewardPerBlock(rate)
+    });
+  };
+
+  const preparePauseToggle = () => {
+    setAdminChange({
+      title: farmPaused ? 'Unpause the farm' : 'Pause the farm',
+      rows: [
+        { label: 'Deposits', before: farmPaused ? 'Paused' : 'Open', after: farmPaused ? 'Open' : 'Paused' }
+      ],
+      send: (farmClient) => (farmPaused ? farmClient.unpause() : farmClient.pause())
+    });
+  };
+
+  const handleAdminChange = () => {
+    if (!client || !adminChange) return;
+    const change = adminChange;
+
+    setAdminChange(null);
+    return runAction('admin', async () => {
+      try {
+        const tx = await change.send(client);
+        await trackTx(tx, 'admin', change.title);
+
+        setMessage({ type: 'success', text: `${change.title}: confirmed.` });
+        setAdminInputs(EMPTY_ADMIN_INPUTS);
+        await loadUserStats(account, client);
+      } catch (error) {
+        reportTxError(change.title, error);
+      }
+    });
+  };
+
+  const formatPoolAmount = (value: bigint, pool: PoolData) =>
+    Number(ethers.formatUnits(value, pool.decimals)).toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+  const formatReward = (value: bigint) =>
+    Number(ethers.formatEther(value)).toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+  const getDriftTotal = () =>
+    rewardDrift.reduce((sum, { expected, actual }) => sum + (expected > actual ? expected - actual : actual - expected), 0n);
+
+  const formatRewardShare = (pool: PoolData) =>
+    emission && emission.farmInfo.totalAllocPoint > 0n
+      ? `${(Number(pool.allocPoint * 10000n / emission.farmInfo.totalAllocPoint) / 100).toFixed(2)}%`
+      : '0%';
+
+  const describeEvent = (event: FarmEvent) => {
+    const pool = pools.find((candidate) => candidate.pid === event.pid);
+    const poolName = pool ? `${pool.symbol} pool #${pool.pid}` : `pool #${event.pid}`;
+    const lpAmount = pool ? formatPoolAmount(event.amount, pool) : ethers.formatEther(event.amount);
+    const lpSymbol = pool?.symbol ?? 'LP';
+
+    switch (event.type) {
+      case 'deposit':
+        return { icon: '📈', action: `Staked to ${poolName}`, amount: `+${lpAmount} ${lpSymbol}` };
+      case 'withdraw':
+        return { icon: '💰', action: `Withdrew from ${poolName}`, amount: `-${lpAmount} ${lpSymbol}` };
+      case 'emergencyWithdraw':
+        return { icon: '🚨', action: `Emergency withdrew from ${poolName}`, amount: `-${lpAmount} ${lpSymbol}` };
+      case 'rewardPaid':
+        return { icon: '🌾', action: `Harvested rewards from ${poolName}`, amount: `+${formatReward(event.amount)} YFT` };
     }
-    setLoading(false);
+  };
+
+  // Largest whole unit only, e.g. "3 days"; null below a minute
+  const formatDuration = (seconds: number) => {
+    const units: [string, number][] = [['day', 86400], ['hour', 3600], ['minute', 60]];
+    for (const [unit, size] of units) {
+      const count = Math.floor(seconds / size);
+      if (count > 0) return `${count} ${unit}${count === 1 ? '' : 's'}`;
+    }
+    return null;
+  };
+
+  const formatTimeAgo = (timestamp: number) => {
+    const duration = formatDuration(Math.max(0, Math.floor(Date.now() / 1000) - timestamp));
+    return duration ? `${duration} ago` : 'Just now';
+  };
+
+  const renderPausedBanner = () =>
+    farmPaused && (
+      <div className="dashboard-warning">
+        <div className="warning-content">
+          <span className="warning-icon">⏸️</span>
+          <div>
+            <strong>Deposits are paused</strong>
+            <p>
+              The farm owner has paused new stakes. You can still withdraw, harvest rewards and emergency withdraw
+              from every pool.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+
+  const renderReserveBanner = () => {
+    if (!reserve || !emission) return null;
+    const { balance, liabilities, headroom, emissionPerBlock, blocksUntilDepletion } = reserve;
+
+    let title: string;
+    let detail: string;
+    if (headroom < 0n) {
+      title = 'Reward reserve is short';
+      detail = `The farm holds ${formatReward(balance)} YFT but owes stakers ${formatReward(liabilities)} YFT. ` +
+        'Harvests and withdrawals only pay out what is left in the farm.';
+    } else if (blocksUntilDepletion !== null && Number(blocksUntilDepletion) * emission.blockTime < RESERVE_WARNING_DAYS * 86400) {
+      const runway = formatDuration(Number(blocksUntilDepletion) * emission.blockTime) ?? 'under a minute';
+      title = 'Reward reserve is running low';
+      detail = `${formatReward(headroom)} YFT remain after pending rewards. At ${formatReward(emissionPerBlock)} YFT per block ` +
+        `they run out in ${blocksUntilDepletion.toLocaleString()} blocks (about ${runway}).`;
+    } else {
+      return null;
+    }
+
+    return (
+      <div className="dashboard-warning">
+        <div className="warning-content">
+          <span className="warning-icon">⚠️</span>
+          <div>
+            <strong>{title}</strong>
+            <p>{detail}</p>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderTransactionTray = () => {
+    if (!account || transactions.length === 0) return null;
+    const inFlight = transactions.filter((tx) => tx.status === 'submitted' || tx.status === 'mined').length;
+
+    return (
+      <div className="tx-tray">
+        <button className="tx-tray-toggle" onClick={() => setTrayOpen((open) => !open)}>
+          {inFlight > 0 ? <span className="loading"></span> : '🧾'}
+          <span>{inFlight > 0 ? `${inFlight} pending` : 'Transactions'}</span>
+        </button>
+        {trayOpen && (
+          <div className="tx-tray-panel">
+            <div className="tx-tray-header">
+              <h4>Transactions</h4>
+              <button className="filter-btn" onClick={() => txTrackerRef.current?.clearFinished()}>Clear finished</button>
+            </div>
+            {transactions.map((tx) => (
+              <div className="tx-item" key={tx.hash}>
+                <div className="tx-details">
+                  <span className="tx-label">{tx.label}</span>
+                  <span className="tx-meta" title={tx.hash}>
+                    {tx.hash.slice(0, 10)}…{tx.blockNumber !== undefined && ` · block #${tx.blockNumber}`}
+                    {' · '}{formatTimeAgo(Math.floor(tx.submittedAt / 1000))}
+                  </span>
+                  {tx.error && <span className="tx-error">{tx.error}</span>}
+                </div>
+                <span className={`tx-status ${tx.status}`}>
+                  {tx.replacement ? TX_REPLACEMENT_LABELS[tx.replacement] : TX_STATUS_LABELS[tx.status]}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const getPoolSymbol = (pid: number) => pools.find((pool) => pool.pid === pid)?.symbol ?? `Pool #${pid}`;
+
+  const renderConnectorPicker = () => {
+    if (!connectorPickerOpen) return null;
+
+    return (
+      <div className="modal-overlay" onClick={() => setConnectorPickerOpen(false)}>
+        <div className="modal-card connector-picker" role="dialog" aria-modal="true" onClick={(e) => e.stopPropagation()}>
+          <h3>Connect a wallet</h3>
+          {!connectors.some(({ injected }) => injected) && (
+            <p className="input-hint note">No browser extension wallet was found. Use a mobile wallet or watch an address instead.</p>
+          )}
+          <div className="connector-list">
+            {connectors.map((connector) => (
+              <button className="connector-option" key={connector.id} onClick={() => connectWith(connector)}>
+                {connector.icon.startsWith('data:') || connector.icon.startsWith('http') ? (
+                  <img className="connector-icon" src={connector.icon} alt="" />
+                ) : (
+                  <span className="connector-icon">{connector.icon}</span>
+                )}
+                <span>{connector.name}</span>
+              </button>
+            ))}
+          </div>
+          <h4>Watch an address</h4>
+          <p className="input-hint note">See any account's positions read-only, at a link you can share. Nothing can be signed.</p>
+          <div className="input-group">
+            <input
+              type="text"
+              value={watchInput}
+              onChange={(e) => setWatchInput(e.target.value)}
+              placeholder="0x… or name.eth"
+              className="stake-input"
+            />
+            <button className="btn-secondary" onClick={() => watchAddress(watchInput.trim(), true)} disabled={!watchInput.trim()}>
+              Watch
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderHarvestSummaryDialog = () => {
+    if (!harvestSummary) return null;
+    const { harvested, failed, remaining, error } = harvestSummary;
+    const total = harvested.reduce((sum, { amount }) => sum + amount, 0n);
+
+    return (
+      <div className="modal-overlay" onClick={() => setHarvestSummary(null)}>
+        <div className="modal-card" role="dialog" aria-modal="true" onClick={(e) => e.stopPropagation()}>
+          <h3>{failed ? 'Harvest all stopped' : 'Harvest all complete'}</h3>
+          <table className="diff-table">
+            <thead>
+              <tr>
+                <th>Pool</th>
+                <th>YFT received</th>
+                <th>Transaction</th>
+              </tr>
+            </thead>
+            <tbody>
+              {harvested.map(({ pid, amount, transactionHash }) => (
+                <tr key={transactionHash}>
+                  <td>#{pid} {getPoolSymbol(pid)}</td>
+                  <td>{formatReward(amount)}</td>
+                  <td title={transactionHash}>{transactionHash.slice(0, 10)}…</td>
+                </tr>
+              ))}
+              <tr>
+                <th>Total</th>
+                <th>{formatReward(total)} YFT</th>
+                <th></th>
+              </tr>
+            </tbody>
+          </table>
+          {failed && (
+            <div className="modal-warning">
+              Harvesting #{failed.pid} {getPoolSymbol(failed.pid)} failed: {error}
+              {remaining.length > 0 && ` Not attempted: ${remaining.map((pid) => `#${pid} ${getPoolSymbol(pid)}`).join(', ')}.`}
+            </div>
+          )}
+          <div className="modal-actions">
+            <button className="btn-primary" onClick={() => setHarvestSummary(null)}>Close</button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderRewardShortfallDialog = () => {
+    if (!rewardShortfall) return null;
+    const { poolCount, pending, payable, proceed } = rewardShortfall;
+
+    return (
+      <div className="modal-overlay" onClick={() => setRewardShortfall(null)}>
+        <div className="modal-card" role="dialog" aria-modal="true" onClick={(e) => e.stopPropagation()}>
+          <h3>Harvest will be partially paid</h3>
+          <p>
+            You have <strong>{formatReward(pending)} YFT</strong> pending across {poolCount} pool(s), but the farm only
+            holds <strong>{formatReward(payable)} YFT</strong>.
+          </p>
+          <div className="modal-warning">
+            The contract pays out what it holds and clears your pending balance, so the remaining{' '}
+            {formatReward(pending - payable)} YFT will not be paid later.
+          </div>
+          <div className="modal-actions">
+            <button className="btn-secondary" onClick={() => setRewardShortfall(null)}>Cancel</button>
+            <button
+              className="btn-emergency"
+              onClick={() => {
+                setRewardShortfall(null);
+                proceed();
+              }}
+            >
+              Harvest anyway
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const getTokenPrice = (token: string): number | undefined => prices[token.toLowerCase()];
+
+  const toUsd = (amount: bigint, decimals: number, token: string): number | undefined => {
+    const price = getTokenPrice(token);
+    return price === undefined ? undefined : Number(ethers.formatUnits(amount, decimals)) * price;
+  };
+
+  const formatUsd = (value: number | undefined) =>
+    value === undefined ? '—' : value.toLocaleString(undefined, { style: 'currency', currency: 'USD' });
+
+  // Staked and wallet LP per pool, plus wallet and pending YFT
+  const getHoldings = (): Holding[] => {
+    if (!emission || !userStats) return [];
+    const rewardToken = emission.farmInfo.rewardToken;
+    const holdings: Holding[] = [];
+
+    pools.filter((pool) => pool.stakedAmount > 0n).forEach((pool) => {
+      holdings.push({
+        key: `staked-${pool.pid}`,
+        icon: POOL_ICONS[pool.pid % POOL_ICONS.length][0],
+        name: pool.symbol,
+        detail: `Staked in pool #${pool.pid}`,
+        amount: pool.stakedAmount,
+        decimals: pool.decimals,
+        symbol: pool.symbol,
+        price: getTokenPrice(pool.lpToken),
+        value: toUsd(pool.stakedAmount, pool.decimals, pool.lpToken)
+      });
+    });
+
+    // Pools can share an LP token, so wallet balances are listed once per token
+    const walletTokens = new Map(pools.filter((pool) => pool.lpBalance > 0n).map((pool) => [pool.lpToken.toLowerCase(), pool]));
+    walletTokens.forEach((pool) => {
+      holdings.push({
+        key: `wallet-${pool.lpToken}`,
+        icon: '👛',
+        name: pool.symbol,
+        detail: 'In wallet',
+        amount: pool.lpBalance,
+        decimals: pool.decimals,
+        symbol: pool.symbol,
+        price: getTokenPrice(pool.lpToken),
+        value: toUsd(pool.lpBalance, pool.decimals, pool.lpToken)
+      });
+    });
+
+    [
+      { key: 'pending-yft', icon: '⭐', detail: 'Pending rewards', amount: userStats.pendingReward },
+      { key: 'wallet-yft', icon: '🌾', detail: 'In wallet', amount: userStats.rewardBalance }
+    ].filter((entry) => entry.amount > 0n).forEach((entry) => {
+      holdings.push({
+        ...entry,
+        name: 'YFT',
+        decimals: 18,
+        symbol: 'YFT',
+        price: getTokenPrice(rewardToken),
+        value: toUsd(entry.amount, 18, rewardToken)
+      });
+    });
+
+    return holdings;
+  };
+
+  const getPortfolioValue = () => {
+    const holdings = getHoldings();
+    return {
+      total: holdings.reduce((sum, holding) => sum + (holding.value ?? 0), 0),
+      hasUnpriced: holdings.some((holding) => holding.value === undefined)
+    };
+  };
+
+  // USD value of the holdings of one kind: 'staked', 'pending' or 'wallet'
+  const getHoldingsValue = (kind: string) =>
+    getHoldings()
+      .filter((holding) => holding.key.startsWith(`${kind}-`))
+      .reduce((sum, holding) => sum + (holding.value ?? 0), 0);
+
+  // Each pool's stake in its own LP token; stakes in different LP tokens are only added up in USD
+  const describeStakes = () => {
+    const staked = pools.filter((pool) => pool.stakedAmount > 0n);
+    return staked.length === 0
+      ? 'Nothing staked'
+      : staked.map((pool) => `${formatPoolAmount(pool.stakedAmount, pool)} ${pool.symbol}`).join(' · ');
+  };
+
+  // Value staked across all pools; undefined until at least one LP token has a price
+  const getProtocolTvl = () => {
+    const values = pools.map((pool) => toUsd(pool.totalStaked, pool.decimals, pool.lpToken));
+    return {
+      total: values.some((value) => value !== undefined) ? values.reduce<number>((sum, value) => sum + (value ?? 0), 0) : undefined,
+      hasUnpriced: values.some((value) => value === undefined)
+    };
+  };
+
+  const getPoolApr = (pool: PoolData): PoolApr | null => {
+    if (!emission) return null;
+
+    return computePoolApr(
+      emission.farmInfo,
+      { pid: pool.pid, allocPoint: pool.allocPoint, totalStaked: pool.totalStaked, lpDecimals: pool.decimals },
+      {
+        currentBlock: emission.currentBlock,
+        blockTime: emission.blockTime,
+        rewardTokenPrice: getTokenPrice(emission.farmInfo.rewardToken),
+        lpTokenPrice: getTokenPrice(pool.lpToken)
+      }
+    );
+  };
+
+  const formatRate = (rate: number | null | undefined) =>
+    rate === null || rate === undefined ? '—' : `${(rate * 100).toLocaleString(undefined, { maximumFractionDigits: 2 })}%`;
+
+  // Stake-weighted APY over the user's positions, or the plain pool average when nothing is staked
+  const getAverageApy = () => {
+    const rated = pools
+      .map((pool) => ({ pool, apy: getPoolApr(pool)?.apy ?? null }))
+      .filter((entry): entry is { pool: PoolData; apy: number } => entry.apy !== null);
+    if (rated.length === 0) return null;
+
+    const staked = rated.filter(({ pool }) => pool.stakedAmount > 0n);
+    if (staked.length === 0) {
+      return rated.reduce((sum, { apy }) => sum + apy, 0) / rated.length;
+    }
+
+    const weight = ({ pool }: { pool: PoolData }) =>
+      Number(ethers.formatUnits(pool.stakedAmount, pool.decimals)) * (getTokenPrice(pool.lpToken) ?? 0);
+    const totalWeight = staked.reduce((sum, entry) => sum + weight(entry), 0);
+    return totalWeight === 0 ? null : staked.reduce((sum, entry) => sum + entry.apy * weight(entry), 0) / totalWeight;
+  };
+
+  // Highest APY first; pools that cannot be rated yet go last
+  const getPoolsByApy = () =>
+    pools
+      .map((pool) => ({ pool, apy: getPoolApr(pool)?.apy ?? null }))
+      .sort((a, b) => (b.apy ?? -Infinity) - (a.apy ?? -Infinity));
+
+  const isBonusActive = () => !!emission && emission.currentBlock < emission.farmInfo.bonusEndBlock;
+
+  const describeBonus = () => {
+    if (!emission) return 'Loading emission schedule';
+    const remaining = emission.farmInfo.bonusEndBlock - emission.currentBlock;
+    return remaining > 0n
+      ? `${emission.farmInfo.bonusMultiplier}x bonus for ${remaining.toLocaleString()} more blocks`
+      : 'Bonus period ended';
   };
 
   const renderNavigation = () => (
@@ -245,8 +1682,11 @@ function App() {
       <div className="nav-wallet">
         {account ? (
           <div className="wallet-info">
-            <span className="wallet-address">{account.slice(0, 6)}...{account.slice(-4)}</span>
-            <div className="wallet-indicator"></div>
+            <span className="wallet-address">{watchedName || `${account.slice(0, 6)}...${account.slice(-4)}`}</span>
+            {readOnly ? <span className="wallet-watching" title="Watching this address read-only">👁</span> : <div className="wallet-indicator"></div>}
+            <button className="wallet-disconnect" onClick={disconnectWallet} title={readOnly ? 'Stop watching' : 'Disconnect wallet'}>
+              ✕
+            </button>
           </div>
         ) : (
           <button className="connect-btn" onClick={connectWallet}>
@@ -333,24 +1773,24 @@ function App() {
             <h2>Live Protocol Stats</h2>
             <div className="stats-grid-detailed stagger-animation">
               <div className="stat-item hover-glow animate-float">
-                <div className="stat-value">$2.4M+</div>
+                <div className="stat-value">{formatUsd(getProtocolTvl().total)}</div>
                 <div className="stat-label">Total Value Locked</div>
-                <div className="stat-change">+12.5% this week</div>
+                <div className="stat-change">{getProtocolTvl().hasUnpriced ? 'Excludes unpriced pools' : `Across ${pools.length} pools`}</div>
               </div>
               <div className="stat-item hover-glow animate-float" style={{animationDelay: '1s'}}>
-                <div className="stat-value">18.5%</div>
+                <div className="stat-value">{formatRate(getAverageApy())}</div>
                 <div className="stat-label">Average APY</div>
-                <div className="stat-change">Updated daily</div>
+                <div className="stat-change">From the emission schedule</div>
               </div>
               <div className="stat-item hover-glow animate-float" style={{animationDelay: '2s'}}>
-                <div className="stat-value">1,247</div>
-                <div className="stat-label">Active Farmers</div>
-                <div className="stat-change">+89 this month</div>
+                <div className="stat-value">{reserve ? reserve.positions.toLocaleString() : '—'}</div>
+                <div className="stat-label">Open Positions</div>
+                <div className="stat-change">Indexed from farm events</div>
               </div>
               <div className="stat-item hover-glow animate-float" style={{animationDelay: '3s'}}>
-                <div className="stat-value">99.9%</div>
-                <div className="stat-label">Uptime</div>
-                <div className="stat-change">24/7 monitoring</div>
+                <div className="stat-value">{emission ? formatReward(emission.farmInfo.rewardPerBlock) : '—'}</div>
+                <div className="stat-label">YFT per Block</div>
+                <div className="stat-change">{describeBonus()}</div>
               </div>
             </div>
           </div>
@@ -437,62 +1877,30 @@ function App() {
         </div>
 
         <div className="pools-grid animate-on-scroll stagger-animation">
-          <div className="pool-card hover-lift hover-glow">
-            <div className="pool-header">
-              <div className="pool-tokens">
-                <span className="token-icon animate-float">💎</span>
-                <span className="token-icon animate-float" style={{animationDelay: '1s'}}>💰</span>
+          {pools.length === 0 && (
+            <p className="empty-state">{emission ? 'No farming pools have been added yet.' : 'Loading pools from the chain…'}</p>
+          )}
+          {pools.map((pool) => (
+            <div className="pool-card hover-lift hover-glow" key={pool.pid}>
+              <div className="pool-header">
+                <div className="pool-tokens">
+                  {POOL_ICONS[pool.pid % POOL_ICONS.length].map((icon, index) => (
+                    <span className="token-icon animate-float" style={{animationDelay: `${index}s`}} key={icon}>{icon}</span>
+                  ))}
+                </div>
+                <div className="pool-name">{pool.symbol}</div>
               </div>
-              <div className="pool-name">ETH-USDC LP</div>
-            </div>
-            <div className="pool-stats">
-              <div className="pool-apy">24.5% APY</div>
-              <div className="pool-tvl">$890K TVL</div>
-            </div>
-            <div className="pool-info">
-              <span>• Low risk, stable returns</span>
-              <span>• High liquidity pair</span>
-              <span>• 2x bonus multiplier</span>
-            </div>
-          </div>
-
-          <div className="pool-card hover-lift hover-glow">
-            <div className="pool-header">
-              <div className="pool-tokens">
-                <span className="token-icon animate-float" style={{animationDelay: '2s'}}>🔥</span>
-                <span className="token-icon animate-float" style={{animationDelay: '3s'}}>💎</span>
+              <div className="pool-stats">
+                <div className="pool-apy">{formatRate(getPoolApr(pool)?.apy)} APY</div>
+                <div className="pool-tvl">{formatUsd(toUsd(pool.totalStaked, pool.decimals, pool.lpToken))} TVL</div>
               </div>
-              <div className="pool-name">YFT-ETH LP</div>
-            </div>
-            <div className="pool-stats">
-              <div className="pool-apy">45.2% APY</div>
-              <div className="pool-tvl">$340K TVL</div>
-            </div>
-            <div className="pool-info">
-              <span>• High yield potential</span>
-              <span>• Native token rewards</span>
-              <span>• Early adopter bonus</span>
-            </div>
-          </div>
-
-          <div className="pool-card hover-lift hover-glow">
-            <div className="pool-header">
-              <div className="pool-tokens">
-                <span className="token-icon animate-float" style={{animationDelay: '4s'}}>🌟</span>
-                <span className="token-icon animate-float" style={{animationDelay: '5s'}}>💰</span>
+              <div className="pool-info">
+                <span>• {formatRewardShare(pool)} of farm rewards</span>
+                <span>• {formatPoolAmount(pool.totalStaked, pool)} {pool.symbol} staked</span>
+                <span>• Minimum stake {formatPoolAmount(pool.minStakeAmount, pool)} {pool.symbol}</span>
               </div>
-              <div className="pool-name">DAI-USDC LP</div>
-            </div>
-            <div className="pool-stats">
-              <div className="pool-apy">12.8% APY</div>
-              <div className="pool-tvl">$1.2M TVL</div>
             </div>
-            <div className="pool-info">
-              <span>• Ultra-stable yields</span>
-              <span>• Minimal impermanent loss</span>
-              <span>• Conservative strategy</span>
-            </div>
-          </div>
+          ))}
         </div>
       </section>
 
@@ -814,16 +2222,20 @@ function App() {
               <h3>Key Metrics</h3>
               <div className="metrics-grid">
                 <div className="metric-item">
-                  <div className="metric-value animate-float">2.5M</div>
+                  <div className="metric-value animate-float">{emission ? formatReward(emission.farmInfo.rewardPerBlock) : '—'}</div>
                   <div className="metric-label">YFT per Block</div>
                 </div>
                 <div className="metric-item">
-                  <div className="metric-value animate-float" style={{animationDelay: '1s'}}>12s</div>
+                  <div className="metric-value animate-float" style={{animationDelay: '1s'}}>
+                    {emission ? `${emission.blockTime.toLocaleString(undefined, { maximumFractionDigits: 1 })}s` : '—'}
+                  </div>
                   <div className="metric-label">Block Time</div>
                 </div>
                 <div className="metric-item">
-                  <div className="metric-value animate-float" style={{animationDelay: '2s'}}>2x</div>
-                  <div className="metric-label">Bonus Multiplier</div>
+                  <div className="metric-value animate-float" style={{animationDelay: '2s'}}>
+                    {emission ? `${isBonusActive() ? emission.farmInfo.bonusMultiplier : 1n}x` : '—'}
+                  </div>
+                  <div className="metric-label">{emission && !isBonusActive() ? 'Bonus Period Ended' : 'Bonus Multiplier'}</div>
                 </div>
                 <div className="metric-item">
                   <div className="metric-value animate-float" style={{animationDelay: '3s'}}>∞</div>
@@ -947,15 +2359,15 @@ function App() {
           </div>
           <div className="cta-stats">
             <div className="cta-stat">
-              <span className="stat-value">$2.4M+</span>
+              <span className="stat-value">{formatUsd(getProtocolTvl().total)}</span>
               <span className="stat-label">Total Value Locked</span>
             </div>
             <div className="cta-stat">
-              <span className="stat-value">1,247</span>
-              <span className="stat-label">Active Users</span>
+              <span className="stat-value">{reserve ? reserve.positions.toLocaleString() : '—'}</span>
+              <span className="stat-label">Open Positions</span>
             </div>
             <div className="cta-stat">
-              <span className="stat-value">18.5%</span>
+              <span className="stat-value">{formatRate(getAverageApy())}</span>
               <span className="stat-label">Average APY</span>
             </div>
           </div>
@@ -1288,6 +2700,28 @@ function App() {
     </div>
   );
 
+  const renderActivityItems = (events: FarmEvent[]) => {
+    if (events.length === 0) {
+      return <p className="empty-state">No activity yet. Deposits, withdrawals and harvests will show up here.</p>;
+    }
+
+    return events.map((event) => {
+      const { icon, action, amount } = describeEvent(event);
+      return (
+        <div className="activity-item" key={event.id}>
+          <div className="activity-icon">{icon}</div>
+          <div className="activity-details">
+            <span className="activity-action">{action}</span>
+            <span className="activity-amount">{amount}</span>
+          </div>
+          <div className="activity-time" title={`Block ${event.blockNumber} · ${event.transactionHash}`}>
+            {formatTimeAgo(event.timestamp)}
+          </div>
+        </div>
+      );
+    });
+  };
+
   const renderDashboardOverview = () => (
     <div className="dashboard-overview">
       {/* Portfolio Summary */}
@@ -1298,32 +2732,40 @@ function App() {
               <h3>Total Portfolio Value</h3>
               <span className="card-icon">💰</span>
             </div>
-            <div className="card-value">$12,450.67</div>
-            <div className="card-change positive">+5.23% (24h)</div>
+            <div className="card-value">{formatUsd(getPortfolioValue().total)}</div>
+            <div className="card-change neutral">
+              {getPortfolioValue().hasUnpriced ? 'Excludes unpriced tokens' : 'Staked, pending and wallet balances'}
+            </div>
           </div>
           <div className="summary-card hover-lift">
             <div className="card-header">
               <h3>Total Staked</h3>
               <span className="card-icon">🏦</span>
             </div>
-            <div className="card-value">{userStats.stakedAmount || '0'} LP</div>
-            <div className="card-change neutral">Across 3 pools</div>
+            <div className="card-value">{formatUsd(getHoldingsValue('staked'))}</div>
+            <div className="card-change neutral">{describeStakes()}</div>
           </div>
           <div className="summary-card hover-lift">
             <div className="card-header">
               <h3>Pending Rewards</h3>
               <span className="card-icon">⭐</span>
             </div>
-            <div className="card-value">{userStats.pendingReward || '0'} YFT</div>
-            <div className="card-change positive">Ready to harvest</div>
+            <div className="card-value">{formatReward(userStats?.pendingReward ?? 0n)} YFT</div>
+            {rewardDrift.length > 0 ? (
+              <div className="card-change neutral" title="Another account or an owner change moved the pool since the last on-chain read">
+                Re-synced with chain, estimate was off by {formatReward(getDriftTotal())} YFT
+              </div>
+            ) : (
+              <div className="card-change positive">Updating every block</div>
+            )}
           </div>
           <div className="summary-card hover-lift">
             <div className="card-header">
               <h3>Average APY</h3>
               <span className="card-icon">📈</span>
             </div>
-            <div className="card-value">23.7%</div>
-            <div className="card-change positive">+2.1% this week</div>
+            <div className="card-value">{formatRate(getAverageApy())}</div>
+            <div className="card-change positive">{describeBonus()}</div>
           </div>
         </div>
       </div>
@@ -1336,7 +2778,7 @@ function App() {
             <span className="action-icon">🌊</span>
             <span className="action-text">Browse Pools</span>
           </button>
-          <button className="action-btn hover-lift hover-shimmer" onClick={handleHarvest} disabled={loading}>
+          <button className="action-btn hover-lift hover-shimmer" onClick={() => handleHarvestAll()} disabled={!canWrite || Boolean(busy.harvestAll)}>
             <span className="action-icon">🌾</span>
             <span className="action-text">Harvest All</span>
           </button>
@@ -1351,114 +2793,56 @@ function App() {
         </div>
       </div>
 
+      {readOnly && renderWatchedHoldings()}
+
       {/* Active Positions */}
       <div className="active-positions">
         <h3>Active Positions</h3>
         <div className="positions-grid">
-          <div className="position-card hover-lift">
-            <div className="position-header">
-              <div className="pool-tokens">
-                <span className="token-icon">💎</span>
-                <span className="token-icon">💰</span>
-              </div>
-              <div className="position-info">
-                <h4>ETH-USDC LP</h4>
-                <span className="pool-type">Stable Pair</span>
-              </div>
-            </div>
-            <div className="position-stats">
-              <div className="stat">
-                <span className="stat-label">Staked</span>
-                <span className="stat-value">2,500 LP</span>
-              </div>
-              <div className="stat">
-                <span className="stat-label">Value</span>
-                <span className="stat-value">$5,245.30</span>
-              </div>
-              <div className="stat">
-                <span className="stat-label">APY</span>
-                <span className="stat-value">24.5%</span>
-              </div>
-              <div className="stat">
-                <span className="stat-label">Pending</span>
-                <span className="stat-value">45.67 YFT</span>
-              </div>
-            </div>
-            <div className="position-actions">
-              <button className="btn-secondary">Manage</button>
-              <button className="btn-primary">Harvest</button>
-            </div>
-          </div>
-
-          <div className="position-card hover-lift">
-            <div className="position-header">
-              <div className="pool-tokens">
-                <span className="token-icon">🔥</span>
-                <span className="token-icon">💎</span>
-              </div>
-              <div className="position-info">
-                <h4>YFT-ETH LP</h4>
-                <span className="pool-type">High Yield</span>
-              </div>
-            </div>
-            <div className="position-stats">
-              <div className="stat">
-                <span className="stat-label">Staked</span>
-                <span className="stat-value">1,200 LP</span>
-              </div>
-              <div className="stat">
-                <span className="stat-label">Value</span>
-                <span className="stat-value">$3,890.45</span>
-              </div>
-              <div className="stat">
-                <span className="stat-label">APY</span>
-                <span className="stat-value">45.2%</span>
-              </div>
-              <div className="stat">
-                <span className="stat-label">Pending</span>
-                <span className="stat-value">78.32 YFT</span>
-              </div>
-            </div>
-            <div className="position-actions">
-              <button className="btn-secondary">Manage</button>
-              <button className="btn-primary">Harvest</button>
-            </div>
-          </div>
-
-          <div className="position-card hover-lift">
-            <div className="position-header">
-              <div className="pool-tokens">
-                <span className="token-icon">🌟</span>
-                <span className="token-icon">💰</span>
-              </div>
-              <div className="position-info">
-                <h4>DAI-USDC LP</h4>
-                <span className="pool-type">Conservative</span>
-              </div>
-            </div>
-            <div className="position-stats">
-              <div className="stat">
-                <span className="stat-label">Staked</span>
-                <span className="stat-value">5,000 LP</span>
-              </div>
-              <div className="stat">
-                <span className="stat-label">Value</span>
-                <span className="stat-value">$5,002.15</span>
-              </div>
-              <div className="stat">
-                <span className="stat-label">APY</span>
-                <span className="stat-value">12.8%</span>
+          {pools.filter((pool) => pool.stakedAmount > 0n).length === 0 && (
+            <p className="empty-state">
+              {readOnly ? 'This address has no active positions.' : 'You have no active positions yet. Stake LP tokens in a pool to start earning.'}
+            </p>
+          )}
+          {pools.filter((pool) => pool.stakedAmount > 0n).map((pool) => (
+            <div className="position-card hover-lift" key={pool.pid}>
+              <div className="position-header">
+                <div className="pool-tokens">
+                  {POOL_ICONS[pool.pid % POOL_ICONS.length].map((icon) => (
+                    <span className="token-icon" key={icon}>{icon}</span>
+                  ))}
+                </div>
+                <div className="position-info">
+                  <h4>{pool.symbol}</h4>
+                  <span className="pool-type">Pool #{pool.pid}</span>
+                </div>
               </div>
-              <div className="stat">
-                <span className="stat-label">Pending</span>
-                <span className="stat-value">23.45 YFT</span>
+              <div className="position-stats">
+                <div className="stat">
+                  <span className="stat-label">Staked</span>
+                  <span className="stat-value">{formatPoolAmount(pool.stakedAmount, pool)} {pool.symbol}</span>
+                </div>
+                <div className="stat">
+                  <span className="stat-label">Value</span>
+                  <span className="stat-value">{formatUsd(toUsd(pool.stakedAmount, pool.decimals, pool.lpToken))}</span>
+                </div>
+                <div className="stat">
+                  <span className="stat-label">APY</span>
+                  <span className="stat-value">{formatRate(getPoolApr(pool)?.apy)}</span>
+                </div>
+                <div className="stat">
+                  <span className="stat-label">Pending</span>
+                  <span className="stat-value">{formatReward(pool.pendingReward)} YFT</span>
+                </div>
               </div>
+              {canWrite && (
+                <div className="position-actions">
+                  <button className="btn-secondary" onClick={() => setActiveDashboardPage('pools')}>Manage</button>
+                  <button className="btn-primary" onClick={() => handleHarvest(pool)} disabled={isPoolBusy(pool.pid)}>Harvest</button>
+                </div>
+              )}
             </div>
-            <div className="position-actions">
-              <button className="btn-secondary">Manage</button>
-              <button className="btn-primary">Harvest</button>
-            </div>
-          </div>
+          ))}
         </div>
       </div>
 
@@ -1466,30 +2850,7 @@ function App() {
       <div className="recent-activity">
         <h3>Recent Activity</h3>
         <div className="activity-list">
-          <div className="activity-item">
-            <div className="activity-icon">🌾</div>
-            <div className="activity-details">
-              <span className="activity-action">Harvested rewards</span>
-              <span className="activity-amount">+156.78 YFT</span>
-            </div>
-            <div className="activity-time">2 hours ago</div>
-          </div>
-          <div className="activity-item">
-            <div className="activity-icon">📈</div>
-            <div className="activity-details">
-              <span className="activity-action">Staked to ETH-USDC pool</span>
-              <span className="activity-amount">+500 LP</span>
-            </div>
-            <div className="activity-time">1 day ago</div>
-          </div>
-          <div className="activity-item">
-            <div className="activity-icon">💰</div>
-            <div className="activity-details">
-              <span className="activity-action">Withdrew from YFT-ETH pool</span>
-              <span className="activity-amount">-200 LP</span>
-            </div>
-            <div className="activity-time">3 days ago</div>
-          </div>
+          {renderActivityItems(activity.slice(0, 5))}
         </div>
       </div>
     </div>
@@ -1508,360 +2869,273 @@ function App() {
       </div>
 
       <div className="pools-grid-dashboard">
-        <div className="pool-card-dashboard hover-lift">
-          <div className="pool-header-dashboard">
-            <div className="pool-tokens">
-              <span className="token-icon animate-float">💎</span>
-              <span className="token-icon animate-float" style={{animationDelay: '1s'}}>💰</span>
-            </div>
-            <div className="pool-info-header">
-              <h4>ETH-USDC LP</h4>
-              <span className="pool-category">Stable Pair</span>
-            </div>
-            <div className="pool-badge">Active</div>
-          </div>
-
-          <div className="pool-metrics">
-            <div className="metric-item">
-              <span className="metric-label">APY</span>
-              <span className="metric-value gradient-text">24.5%</span>
-            </div>
-            <div className="metric-item">
-              <span className="metric-label">TVL</span>
-              <span className="metric-value">$890K</span>
-            </div>
-            <div className="metric-item">
-              <span className="metric-label">Your Stake</span>
-              <span className="metric-value">2,500 LP</span>
-            </div>
-            <div className="metric-item">
-              <span className="metric-label">Pending</span>
-              <span className="metric-value">45.67 YFT</span>
-            </div>
-          </div>
-
-          <div className="pool-actions">
-            <div className="stake-section">
-              <div className="input-group">
-                <input
-                  type="number"
-                  value={stakeAmount}
-                  onChange={(e) => setStakeAmount(e.target.value)}
-                  placeholder="Amount to stake"
-                  className="stake-input"
-                />
-                <button className="btn-primary" onClick={handleStake} disabled={loading || !stakeAmount}>
-                  {loading ? <span className="loading"></span> : 'Stake'}
-                </button>
-              </div>
-              <div className="input-group">
-                <input
-                  type="number"
-                  value={withdrawAmount}
-                  onChange={(e) => setWithdrawAmount(e.target.value)}
-                  placeholder="Amount to withdraw"
-                  className="stake-input"
-                />
-                <button className="btn-secondary" onClick={handleWithdraw} disabled={loading || !withdrawAmount}>
-                  {loading ? <span className="loading"></span> : 'Withdraw'}
-                </button>
-              </div>
-            </div>
-            <button className="btn-harvest" onClick={handleHarvest} disabled={loading}>
-              {loading ? <span className="loading"></span> : 'Harvest Rewards'}
-            </button>
-          </div>
-        </div>
-
-        <div className="pool-card-dashboard hover-lift">
-          <div className="pool-header-dashboard">
-            <div className="pool-tokens">
-              <span className="token-icon animate-float" style={{animationDelay: '2s'}}>🔥</span>
-              <span className="token-icon animate-float" style={{animationDelay: '3s'}}>💎</span>
-            </div>
-            <div className="pool-info-header">
-              <h4>YFT-ETH LP</h4>
-              <span className="pool-category">High Yield</span>
-            </div>
-            <div className="pool-badge hot">Hot</div>
-          </div>
-
-          <div className="pool-metrics">
-            <div className="metric-item">
-              <span className="metric-label">APY</span>
-              <span className="metric-value gradient-text">45.2%</span>
-            </div>
-            <div className="metric-item">
-              <span className="metric-label">TVL</span>
-              <span className="metric-value">$340K</span>
-            </div>
-            <div className="metric-item">
-              <span className="metric-label">Your Stake</span>
-              <span className="metric-value">1,200 LP</span>
-            </div>
-            <div className="metric-item">
-              <span className="metric-label">Pending</span>
-              <span className="metric-value">78.32 YFT</span>
-            </div>
-          </div>
-
-          <div className="pool-actions">
-            <div className="stake-section">
-              <div className="input-group">
-                <input
-                  type="number"
-                  placeholder="Amount to stake"
-                  className="stake-input"
-                />
-                <button className="btn-primary">Stake</button>
-              </div>
-              <div className="input-group">
-                <input
-                  type="number"
-                  placeholder="Amount to withdraw"
-                  className="stake-input"
-                />
-                <button className="btn-secondary">Withdraw</button>
+        {pools.length === 0 && (
+          <p className="empty-state">No farming pools have been added yet.</p>
+        )}
+        {pools.map((pool) => {
+          const apr = getPoolApr(pool);
+          const stakeHint = getStakeHint(pool);
+          return (
+            <div className="pool-card-dashboard hover-lift" key={pool.pid}>
+              <div className="pool-header-dashboard">
+                <div className="pool-tokens">
+                  {POOL_ICONS[pool.pid % POOL_ICONS.length].map((icon, i) => (
+                    <span className="token-icon animate-float" style={{animationDelay: `${pool.pid * 2 + i}s`}} key={icon}>{icon}</span>
+                  ))}
+                </div>
+                <div className="pool-info-header">
+                  <h4>{pool.symbol}</h4>
+                  <span className="pool-category">Pool #{pool.pid} · {formatRewardShare(pool)} of emissions</span>
+                </div>
+                <div className={`pool-badge ${pool.allocPoint === 0n ? 'stable' : ''}`}>
+                  {pool.allocPoint === 0n ? 'Inactive' : 'Active'}
+                </div>
               </div>
-            </div>
-            <button className="btn-harvest">Harvest Rewards</button>
-          </div>
-        </div>
 
-        <div className="pool-card-dashboard hover-lift">
-          <div className="pool-header-dashboard">
-            <div className="pool-tokens">
-              <span className="token-icon animate-float" style={{animationDelay: '4s'}}>🌟</span>
-              <span className="token-icon animate-float" style={{animationDelay: '5s'}}>💰</span>
-            </div>
-            <div className="pool-info-header">
-              <h4>DAI-USDC LP</h4>
-              <span className="pool-category">Conservative</span>
-            </div>
-            <div className="pool-badge stable">Stable</div>
-          </div>
+              <div className="pool-metrics">
+                <div className="metric-item">
+                  <span className="metric-label">APR</span>
+                  <span className="metric-value gradient-text">{formatRate(apr?.apr)}</span>
+                  {apr?.bonusActive && (
+                    <span className="metric-note">
+                      {formatRate(apr?.bonusApr)} during bonus, {formatRate(apr?.postBonusApr)} after
+                    </span>
+                  )}
+                </div>
+                <div className="metric-item">
+                  <span className="metric-label">TVL</span>
+                  <span className="metric-value">{formatUsd(toUsd(pool.totalStaked, pool.decimals, pool.lpToken))}</span>
+                  <span className="metric-note">{formatPoolAmount(pool.totalStaked, pool)} {pool.symbol}</span>
+                </div>
+                <div className="metric-item">
+                  <span className="metric-label">Your Stake</span>
+                  <span className="metric-value">{formatPoolAmount(pool.stakedAmount, pool)} {pool.symbol}</span>
+                </div>
+                <div className="metric-item">
+                  <span className="metric-label">Pending</span>
+                  <span className="metric-value">{formatReward(pool.pendingReward)} YFT</span>
+                </div>
+              </div>
+
+              {canWrite ? (
+                <div className="pool-actions">
+                  <div className="stake-section">
+                    <div className="input-group">
+                      <input
+                        type="number"
+                        value={poolInputs[pool.pid]?.stake || ''}
+                        onChange={(e) => updatePoolInput(pool.pid, 'stake', e.target.value)}
+                        placeholder={farmPaused ? 'Staking is paused' : `Amount to stake (min ${formatPoolAmount(pool.minStakeAmount, pool)})`}
+                        className="stake-input"
+                        disabled={farmPaused}
+                      />
+                      <button
+                        className="btn-max"
+                        onClick={() => fillMaxStake(pool)}
+                        disabled={farmPaused || maxStakeAmount(getPoolStakeLimits(pool)) === 0n}
+                      >
+                        Max
+                      </button>
+                      <button
+                        className="btn-primary"
+                        onClick={() => handleStake(pool)}
+                        disabled={isPoolBusy(pool.pid) || farmPaused || !poolInputs[pool.pid]?.stake || stakeHint?.type === 'error'}
+                      >
+                        {isPoolBusy(pool.pid) ? <span className="loading"></span> : 'Stake'}
+                      </button>
+                    </div>
+                    {stakeHint && <span className={`input-hint ${stakeHint.type}`}>{stakeHint.text}</span>}
+                    <div className="input-group">
+                      <input
+                        type="number"
+                        value={poolInputs[pool.pid]?.withdraw || ''}
+                        onChange={(e) => updatePoolInput(pool.pid, 'withdraw', e.target.value)}
+                        placeholder="Amount to withdraw"
+                        className="stake-input"
+                      />
+                      <button
+                        className="btn-secondary"
+                        onClick={() => handleWithdraw(pool)}
+                        disabled={isPoolBusy(pool.pid) || !poolInputs[pool.pid]?.withdraw}
+                      >
+                        {isPoolBusy(pool.pid) ? <span className="loading"></span> : 'Withdraw'}
+                      </button>
+                    </div>
+                  </div>
+                  <button className="btn-harvest" onClick={() => handleHarvest(pool)} disabled={isPoolBusy(pool.pid) || pool.pendingReward === 0n}>
+                    {isPoolBusy(pool.pid) ? <span className="loading"></span> : 'Harvest Rewards'}
+                  </button>
+                  {pool.stakedAmount > 0n && (
+                    <button className="btn-emergency" onClick={() => openEmergencyExit(pool)} disabled={isPoolBusy(pool.pid)}>
+                      Emergency Withdraw
+                    </button>
+                  )}
+                </div>
+              ) : (
+                <div className="pool-actions">
+                  <button className="btn-primary" onClick={connectWallet}>
+                    {readOnly ? 'Watching read-only · Connect a wallet to stake' : 'Connect Wallet to Stake'}
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
 
-          <div className="pool-metrics">
-            <div className="metric-item">
-              <span className="metric-label">APY</span>
-              <span className="metric-value gradient-text">12.8%</span>
-            </div>
-            <div className="metric-item">
-              <span className="metric-label">TVL</span>
-              <span className="metric-value">$1.2M</span>
-            </div>
-            <div className="metric-item">
-              <span className="metric-label">Your Stake</span>
-              <span className="metric-value">5,000 LP</span>
-            </div>
-            <div className="metric-item">
-              <span className="metric-label">Pending</span>
-              <span className="metric-value">23.45 YFT</span>
-            </div>
-          </div>
+      {canWrite && pools.length > 0 && renderApprovals()}
+    </div>
+  );
 
-          <div className="pool-actions">
-            <div className="stake-section">
-              <div className="input-group">
-                <input
-                  type="number"
-                  placeholder="Amount to stake"
-                  className="stake-input"
-                />
-                <button className="btn-primary">Stake</button>
-              </div>
-              <div className="input-group">
-                <input
-                  type="number"
-                  placeholder="Amount to withdraw"
-                  className="stake-input"
-                />
-                <button className="btn-secondary">Withdraw</button>
-              </div>
-            </div>
-            <button className="btn-harvest">Harvest Rewards</button>
-          </div>
-        </div>
+  // Every pool for a watched address, including LP tokens it holds but has not staked
+  const renderWatchedHoldings = () => (
+    <div className="analytics-card holdings-card">
+      <h4>Holdings of {watchedName || account}</h4>
+      <p className="input-hint note">
+        {formatReward(userStats?.rewardBalance ?? 0n)} YFT in the wallet{watchedName && ` · ${account}`}
+      </p>
+      <table className="diff-table">
+        <thead>
+          <tr>
+            <th>Pool</th>
+            <th>Staked</th>
+            <th>Pending</th>
+            <th>In wallet</th>
+            <th>Last stake</th>
+          </tr>
+        </thead>
+        <tbody>
+          {pools.map((pool) => (
+            <tr key={pool.pid}>
+              <td>#{pool.pid} {pool.symbol}</td>
+              <td>{formatPoolAmount(pool.stakedAmount, pool)}</td>
+              <td>{formatReward(pool.pendingReward)} YFT</td>
+              <td>{formatPoolAmount(pool.lpBalance, pool)}</td>
+              <td>{pool.lastStakeTime > 0n ? formatTimeAgo(Number(pool.lastStakeTime)) : '—'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  const renderApprovals = () => (
+    <div className="analytics-card approvals-card">
+      <h4>Approvals</h4>
+      <div className="pools-filters">
+        {APPROVAL_STRATEGIES.map(({ value, label }) => (
+          <button
+            key={value}
+            className={`filter-btn ${approvalStrategy === value ? 'active' : ''}`}
+            onClick={() => selectApprovalStrategy(value)}
+          >
+            {label}
+          </button>
+        ))}
       </div>
+      <p className="input-hint note">{APPROVAL_STRATEGIES.find(({ value }) => value === approvalStrategy)?.description}</p>
+      <table className="diff-table">
+        <thead>
+          <tr>
+            <th>Pool</th>
+            <th>Farm allowance</th>
+            <th>Permit</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {pools.map((pool) => (
+            <tr key={pool.pid}>
+              <td>#{pool.pid} {pool.symbol}</td>
+              <td>{formatAllowance(pool)}</td>
+              <td>{pool.supportsPermit ? 'Supported' : 'Not supported'}</td>
+              <td>
+                <button className="filter-btn" onClick={() => handleRevoke(pool)} disabled={isPoolBusy(pool.pid) || pool.allowance === 0n}>
+                  Revoke
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
     </div>
   );
 
-  const renderDashboardPortfolio = () => (
-    <div className="dashboard-portfolio-advanced">
-      {/* Header with Market Overview */}
-      <div className="market-header">
-        <div className="market-stats-row">
-          <div className="market-stat">
-            <span className="stat-label">Market Cap</span>
-            <span className="stat-value">$1.2T</span>
-            <span className="stat-change positive">+2.4%</span>
-          </div>
-          <div className="market-stat">
-            <span className="stat-label">24h Volume</span>
-            <span className="stat-value">$42.8B</span>
-            <span className="stat-change positive">+5.1%</span>
-          </div>
-          <div className="market-stat">
-            <span className="stat-label">DeFi TVL</span>
-            <span className="stat-value">$85.3B</span>
-            <span className="stat-change negative">-1.2%</span>
-          </div>
-          <div className="market-stat">
-            <span className="stat-label">Fear & Greed</span>
-            <span className="stat-value">74</span>
-            <span className="stat-badge greed">Greed</span>
+  const renderEmergencyExitDialog = () => {
+    if (!emergencyExit) return null;
+    const { pool, blockNumber, forfeited, perBlock } = emergencyExit;
+
+    return (
+      <div className="modal-overlay" onClick={() => setEmergencyExit(null)}>
+        <div className="modal-card" role="dialog" aria-modal="true" onClick={(e) => e.stopPropagation()}>
+          <h3>Emergency withdraw from {pool.symbol}?</h3>
+          <p>
+            Your whole stake of <strong>{formatPoolAmount(pool.stakedAmount, pool)} {pool.symbol}</strong> is returned
+            immediately, without harvesting.
+          </p>
+          <div className="modal-warning">
+            You forfeit <strong>{formatReward(forfeited)} YFT</strong> of pending rewards if the transaction is mined
+            in block #{blockNumber + 1}
+            {perBlock > 0n && <>, plus {formatReward(perBlock)} YFT for every block after that</>}.
+            Forfeited rewards cannot be recovered.
+          </div>
+          <div className="modal-actions">
+            <button className="btn-secondary" onClick={() => setEmergencyExit(null)}>Cancel</button>
+            <button className="btn-emergency" onClick={handleEmergencyWithdraw} disabled={isPoolBusy(pool.pid)}>
+              Withdraw and forfeit rewards
+            </button>
           </div>
         </div>
       </div>
+    );
+  };
 
+  const renderDashboardPortfolio = () => (
+    <div className="dashboard-portfolio-advanced">
       {/* Advanced Trading Chart */}
       <div className="portfolio-content-grid">
         <div className="chart-section">
           <div className="chart-header">
-            <div className="chart-title">Portfolio Performance</div>
-            <div className="chart-timeframe">
-              <button className="timeframe-btn active">1D</button>
-              <button className="timeframe-btn">7D</button>
-              <button className="timeframe-btn">1M</button>
-              <button className="timeframe-btn">3M</button>
-              <button className="timeframe-btn">1Y</button>
-              <button className="timeframe-btn">ALL</button>
-            </div>
+            <div className="chart-title">Portfolio Value</div>
           </div>
 
           <div className="chart-controls-advanced">
             <div className="portfolio-value-header">
               <div className="portfolio-main-value">
-                <span className="portfolio-amount">$12,450.67</span>
-                <span className="portfolio-change positive">+$1,234.56 (+11.0%)</span>
+                <span className="portfolio-amount">{formatUsd(getPortfolioValue().total)}</span>
+                <span className="portfolio-change neutral">
+                  {getPortfolioValue().hasUnpriced ? 'Excludes unpriced tokens' : 'Staked, pending and wallet balances'}
+                </span>
               </div>
               <div className="portfolio-stats">
                 <div className="stat-item">
-                  <span className="stat-label">24h High</span>
-                  <span className="stat-value">$12,890.23</span>
+                  <span className="stat-label">Staked</span>
+                  <span className="stat-value">{formatUsd(getHoldingsValue('staked'))}</span>
                 </div>
                 <div className="stat-item">
-                  <span className="stat-label">24h Low</span>
-                  <span className="stat-value">$11,234.56</span>
+                  <span className="stat-label">Pending</span>
+                  <span className="stat-value">{formatUsd(getHoldingsValue('pending'))}</span>
                 </div>
                 <div className="stat-item">
-                  <span className="stat-label">24h Volume</span>
-                  <span className="stat-value">$234.5K</span>
+                  <span className="stat-label">In wallet</span>
+                  <span className="stat-value">{formatUsd(getHoldingsValue('wallet'))}</span>
                 </div>
               </div>
             </div>
-
-            <div className="chart-type-controls">
-              <button className="chart-type-btn active" data-type="area">📈 Area</button>
-              <button className="chart-type-btn" data-type="candlestick">📊 Candlestick</button>
-              <button className="chart-type-btn" data-type="line">📉 Line</button>
-            </div>
-          </div>
-
-          <div className="advanced-chart">
-            <svg viewBox="0 0 800 300" className="trading-chart-svg">
-              <defs>
-                <linearGradient id="portfolioGradientAdvanced" x1="0%" y1="0%" x2="0%" y2="100%">
-                  <stop offset="0%" style={{stopColor: '#667eea', stopOpacity: 0.4}} />
-                  <stop offset="50%" style={{stopColor: '#764ba2', stopOpacity: 0.2}} />
-                  <stop offset="100%" style={{stopColor: '#667eea', stopOpacity: 0}} />
-                </linearGradient>
-                <linearGradient id="volumeGradient" x1="0%" y1="0%" x2="0%" y2="100%">
-                  <stop offset="0%" style={{stopColor: '#00ff88', stopOpacity: 0.3}} />
-                  <stop offset="100%" style={{stopColor: '#00ff88', stopOpacity: 0.1}} />
-                </linearGradient>
-                <filter id="glow">
-                  <feGaussianBlur stdDeviation="3" result="coloredBlur"/>
-                  <feMerge>
-                    <feMergeNode in="coloredBlur"/>
-                    <feMergeNode in="SourceGraphic"/>
-                  </feMerge>
-                </filter>
-              </defs>
-
-              {/* Grid Lines */}
-              <g className="chart-grid" stroke="rgba(255,255,255,0.05)" strokeWidth="1">
-                <line x1="0" y1="60" x2="800" y2="60" />
-                <line x1="0" y1="120" x2="800" y2="120" />
-                <line x1="0" y1="180" x2="800" y2="180" />
-                <line x1="0" y1="240" x2="800" y2="240" />
-                <line x1="160" y1="0" x2="160" y2="300" />
-                <line x1="320" y1="0" x2="320" y2="300" />
-                <line x1="480" y1="0" x2="480" y2="300" />
-                <line x1="640" y1="0" x2="640" y2="300" />
-              </g>
-
-              {/* Volume Bars */}
-              <g className="volume-bars">
-                <rect x="40" y="270" width="8" height="20" fill="url(#volumeGradient)" />
-                <rect x="80" y="260" width="8" height="30" fill="url(#volumeGradient)" />
-                <rect x="120" y="250" width="8" height="40" fill="url(#volumeGradient)" />
-                <rect x="160" y="265" width="8" height="25" fill="url(#volumeGradient)" />
-                <rect x="200" y="240" width="8" height="50" fill="url(#volumeGradient)" />
-                <rect x="240" y="255" width="8" height="35" fill="url(#volumeGradient)" />
-                <rect x="280" y="245" width="8" height="45" fill="url(#volumeGradient)" />
-                <rect x="320" y="235" width="8" height="55" fill="url(#volumeGradient)" />
-                <rect x="360" y="250" width="8" height="40" fill="url(#volumeGradient)" />
-                <rect x="400" y="245" width="8" height="45" fill="url(#volumeGradient)" />
-                <rect x="440" y="240" width="8" height="50" fill="url(#volumeGradient)" />
-                <rect x="480" y="260" width="8" height="30" fill="url(#volumeGradient)" />
-                <rect x="520" y="255" width="8" height="35" fill="url(#volumeGradient)" />
-                <rect x="560" y="235" width="8" height="55" fill="url(#volumeGradient)" />
-                <rect x="600" y="245" width="8" height="45" fill="url(#volumeGradient)" />
-                <rect x="640" y="250" width="8" height="40" fill="url(#volumeGradient)" />
-                <rect x="680" y="260" width="8" height="30" fill="url(#volumeGradient)" />
-                <rect x="720" y="265" width="8" height="25" fill="url(#volumeGradient)" />
-                <rect x="760" y="255" width="8" height="35" fill="url(#volumeGradient)" />
-              </g>
-
-              {/* Main Price Line */}
-              <path
-                d="M0,250 L50,235 L100,220 L150,210 L200,180 L250,195 L300,170 L350,160 L400,150 L450,140 L500,120 L550,110 L600,100 L650,95 L700,80 L750,75 L800,60"
-                stroke="#667eea"
-                strokeWidth="3"
-                fill="none"
-                filter="url(#glow)"
-                className="price-line"
-              />
-
-              {/* Area Fill */}
-              <path
-                d="M0,250 L50,235 L100,220 L150,210 L200,180 L250,195 L300,170 L350,160 L400,150 L450,140 L500,120 L550,110 L600,100 L650,95 L700,80 L750,75 L800,60 L800,300 L0,300 Z"
-                fill="url(#portfolioGradientAdvanced)"
-              />
-
-              {/* Support/Resistance Lines */}
-              <line x1="0" y1="120" x2="800" y2="120" stroke="#00ff88" strokeWidth="2" strokeDasharray="5,5" opacity="0.6" />
-              <line x1="0" y1="200" x2="800" y2="200" stroke="#ff4444" strokeWidth="2" strokeDasharray="5,5" opacity="0.6" />
-
-              {/* Data Points */}
-              <g className="data-points">
-                <circle cx="200" cy="180" r="4" fill="#667eea" className="data-point" />
-                <circle cx="400" cy="150" r="4" fill="#667eea" className="data-point" />
-                <circle cx="600" cy="100" r="4" fill="#667eea" className="data-point" />
-                <circle cx="800" cy="60" r="6" fill="#667eea" className="current-point animate-pulse" />
-              </g>
-
-              {/* Tooltip */}
-              <g className="price-tooltip" transform="translate(800, 60)">
-                <rect x="-60" y="-30" width="120" height="25" rx="5" fill="rgba(0,0,0,0.8)" stroke="rgba(255,255,255,0.2)" />
-                <text x="0" y="-12" textAnchor="middle" fill="white" fontSize="12" fontWeight="600">$12,450.67</text>
-              </g>
-            </svg>
           </div>
 
           <div className="chart-stats">
             <div className="chart-stat">
-              <div className="chart-stat-label">Total Return</div>
-              <div className="chart-stat-value">+11.0%</div>
+              <div className="chart-stat-label">Average APY</div>
+              <div className="chart-stat-value">{formatRate(getAverageApy())}</div>
             </div>
             <div className="chart-stat">
-              <div className="chart-stat-label">Sharpe Ratio</div>
-              <div className="chart-stat-value">1.43</div>
+              <div className="chart-stat-label">Pending</div>
+              <div className="chart-stat-value">{formatReward(userStats?.pendingReward ?? 0n)} YFT</div>
             </div>
             <div className="chart-stat">
-              <div className="chart-stat-label">Max Drawdown</div>
-              <div className="chart-stat-value">-8.2%</div>
+              <div className="chart-stat-label">Active Pools</div>
+              <div className="chart-stat-value">{userStats?.activePools || 0}</div>
             </div>
           </div>
         </div>
@@ -1876,8 +3150,8 @@ function App() {
               </svg>
               <span className="performance-title">Total Portfolio</span>
             </div>
-            <div className="performance-value" style={{color: '#00ff88'}}>$12,450.67</div>
-            <div className="performance-change" style={{color: '#00ff88'}}>+11.0% today</div>
+            <div className="performance-value" style={{color: '#00ff88'}}>{formatUsd(getPortfolioValue().total)}</div>
+            <div className="performance-change" style={{color: '#00ff88'}}>{getHoldings().length} holdings</div>
           </div>
 
           <div className="performance-card">
@@ -1887,7 +3161,7 @@ function App() {
               </svg>
               <span className="performance-title">Active Farms</span>
             </div>
-            <div className="performance-value" style={{color: '#667eea'}}>7</div>
+            <div className="performance-value" style={{color: '#667eea'}}>{userStats?.activePools || 0}</div>
             <div className="performance-change" style={{color: '#667eea'}}>Generating yield</div>
           </div>
 
@@ -1899,7 +3173,9 @@ function App() {
               </svg>
               <span className="performance-title">Pending Rewards</span>
             </div>
-            <div className="performance-value" style={{color: '#764ba2'}}>$234.56</div>
+            <div className="performance-value" style={{color: '#764ba2'}}>
+              {formatUsd(emission && userStats ? toUsd(userStats.pendingReward, 18, emission.farmInfo.rewardToken) : undefined)}
+            </div>
             <div className="performance-change" style={{color: '#764ba2'}}>Ready to harvest</div>
           </div>
         </div>
@@ -1929,275 +3205,103 @@ function App() {
                 <th>Asset</th>
                 <th>Holdings</th>
                 <th>Price</th>
-                <th>24h %</th>
                 <th>Value</th>
                 <th>Allocation</th>
-                <th>P&L</th>
-                <th>Actions</th>
               </tr>
             </thead>
             <tbody>
-              <tr className="table-row">
-                <td>
-                  <div className="asset-info">
-                    <div className="asset-icon">💎</div>
-                    <div>
-                      <div className="asset-name">ETH-USDC LP</div>
-                      <div className="asset-pair">Uniswap V2</div>
-                    </div>
-                  </div>
-                </td>
-                <td>
-                  <div className="holdings-amount">
-                    <div>2,500.00 LP</div>
-                    <div className="holdings-usd">≈ $5,245</div>
-                  </div>
-                </td>
-                <td>
-                  <div className="price-info">
-                    <div>$2.098</div>
-                    <div className="price-change positive">+2.4%</div>
-                  </div>
-                </td>
-                <td>
-                  <span className="percentage positive">+5.2%</span>
-                </td>
-                <td>
-                  <div className="value-info">
-                    <div>$5,245.30</div>
-                    <div className="value-change positive">+$245.30</div>
-                  </div>
-                </td>
-                <td>
-                  <div className="allocation-info">
-                    <div>42.1%</div>
-                    <div className="allocation-bar">
-                      <div className="bar-fill" style={{width: '42.1%', background: '#667eea'}}></div>
-                    </div>
-                  </div>
-                </td>
-                <td>
-                  <div className="pnl positive">
-                    <div>+$456.78</div>
-                    <div>+9.5%</div>
-                  </div>
-                </td>
-                <td>
-                  <div className="action-buttons">
-                    <button className="action-btn buy">Buy</button>
-                    <button className="action-btn sell">Sell</button>
-                  </div>
-                </td>
-              </tr>
-
-              <tr className="table-row">
-                <td>
-                  <div className="asset-info">
-                    <div className="asset-icon">🔥</div>
-                    <div>
-                      <div className="asset-name">YFT-ETH LP</div>
-                      <div className="asset-pair">Uniswap V2</div>
-                    </div>
-                  </div>
-                </td>
-                <td>
-                  <div className="holdings-amount">
-                    <div>1,200.00 LP</div>
-                    <div className="holdings-usd">≈ $3,890</div>
-                  </div>
-                </td>
-                <td>
-                  <div className="price-info">
-                    <div>$3.242</div>
-                    <div className="price-change positive">+8.7%</div>
-                  </div>
-                </td>
-                <td>
-                  <span className="percentage positive">+12.4%</span>
-                </td>
-                <td>
-                  <div className="value-info">
-                    <div>$3,890.45</div>
-                    <div className="value-change positive">+$390.45</div>
-                  </div>
-                </td>
-                <td>
-                  <div className="allocation-info">
-                    <div>31.3%</div>
-                    <div className="allocation-bar">
-                      <div className="bar-fill" style={{width: '31.3%', background: '#764ba2'}}></div>
-                    </div>
-                  </div>
-                </td>
-                <td>
-                  <div className="pnl positive">
-                    <div>+$623.12</div>
-                    <div>+19.1%</div>
-                  </div>
-                </td>
-                <td>
-                  <div className="action-buttons">
-                    <button className="action-btn buy">Buy</button>
-                    <button className="action-btn sell">Sell</button>
-                  </div>
-                </td>
-              </tr>
-
-              <tr className="table-row">
-                <td>
-                  <div className="asset-info">
-                    <div className="asset-icon">🌟</div>
-                    <div>
-                      <div className="asset-name">DAI-USDC LP</div>
-                      <div className="asset-pair">Uniswap V2</div>
-                    </div>
-                  </div>
-                </td>
-                <td>
-                  <div className="holdings-amount">
-                    <div>3,315.00 LP</div>
-                    <div className="holdings-usd">≈ $3,315</div>
-                  </div>
-                </td>
-                <td>
-                  <div className="price-info">
-                    <div>$1.001</div>
-                    <div className="price-change positive">+0.1%</div>
-                  </div>
-                </td>
-                <td>
-                  <span className="percentage positive">+0.3%</span>
-                </td>
-                <td>
-                  <div className="value-info">
-                    <div>$3,314.92</div>
-                    <div className="value-change positive">+$14.92</div>
-                  </div>
-                </td>
-                <td>
-                  <div className="allocation-info">
-                    <div>26.6%</div>
-                    <div className="allocation-bar">
-                      <div className="bar-fill" style={{width: '26.6%', background: '#10b981'}}></div>
-                    </div>
-                  </div>
-                </td>
-                <td>
-                  <div className="pnl positive">
-                    <div>+$154.88</div>
-                    <div>+4.9%</div>
-                  </div>
-                </td>
-                <td>
-                  <div className="action-buttons">
-                    <button className="action-btn buy">Buy</button>
-                    <button className="action-btn sell">Sell</button>
-                  </div>
-                </td>
-              </tr>
+              {getHoldings().length === 0 && (
+                <tr className="table-row">
+                  <td colSpan={5} className="empty-state">No holdings yet.</td>
+                </tr>
+              )}
+              {getHoldings().map((holding) => {
+                const { total } = getPortfolioValue();
+                const allocation = holding.value !== undefined && total > 0 ? (holding.value / total) * 100 : undefined;
+                return (
+                  <tr className="table-row" key={holding.key}>
+                    <td>
+                      <div className="asset-info">
+                        <div className="asset-icon">{holding.icon}</div>
+                        <div>
+                          <div className="asset-name">{holding.name}</div>
+                          <div className="asset-pair">{holding.detail}</div>
+                        </div>
+                      </div>
+                    </td>
+                    <td>
+                      <div className="holdings-amount">
+                        <div>
+                          {Number(ethers.formatUnits(holding.amount, holding.decimals)).toLocaleString(undefined, { maximumFractionDigits: 4 })} {holding.symbol}
+                        </div>
+                        <div className="holdings-usd">≈ {formatUsd(holding.value)}</div>
+                      </div>
+                    </td>
+                    <td>
+                      <div className="price-info">
+                        <div>{formatUsd(holding.price)}</div>
+                      </div>
+                    </td>
+                    <td>
+                      <div className="value-info">
+                        <div>{formatUsd(holding.value)}</div>
+                      </div>
+                    </td>
+                    <td>
+                      <div className="allocation-info">
+                        <div>{allocation === undefined ? '—' : `${allocation.toFixed(1)}%`}</div>
+                        <div className="allocation-bar">
+                          <div className="bar-fill" style={{width: `${allocation ?? 0}%`, background: '#667eea'}}></div>
+                        </div>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
             </tbody>
           </table>
         </div>
       </div>
 
+      {/* Transaction History */}
+      <div className="recent-activity">
+        <h3>Transaction History</h3>
+        <div className="activity-list">
+          {renderActivityItems(activity)}
+        </div>
+      </div>
+
       {/* Token Performance Analytics Dashboard */}
       <div className="token-performance-analytics">
         <div className="analytics-header">
           <h3>Token Performance Analytics</h3>
-          <div className="analytics-period-selector">
-            <button className="period-btn active">24H</button>
-            <button className="period-btn">7D</button>
-            <button className="period-btn">30D</button>
-            <button className="period-btn">90D</button>
-          </div>
         </div>
 
         <div className="performance-grid">
           <div className="performance-overview-card">
             <div className="card-header">
               <h4>Portfolio Performance Summary</h4>
-              <div className="performance-indicator positive">
-                <span className="indicator-icon">📈</span>
-                <span className="indicator-text">Strong Performance</span>
-              </div>
             </div>
             <div className="performance-summary-grid">
               <div className="summary-metric">
-                <span className="metric-label">Total Gains</span>
-                <span className="metric-value positive">+$1,234.35</span>
-                <span className="metric-change">+11.2% overall</span>
+                <span className="metric-label">Staked Value</span>
+                <span className="metric-value">{formatUsd(getHoldingsValue('staked'))}</span>
+                <span className="metric-change">{describeStakes()}</span>
               </div>
               <div className="summary-metric">
-                <span className="metric-label">Best Performer</span>
-                <span className="metric-value">YFT-ETH LP</span>
-                <span className="metric-change positive">+19.3% ROI</span>
+                <span className="metric-label">Highest APY</span>
+                <span className="metric-value">{getPoolsByApy()[0]?.pool.symbol ?? '—'}</span>
+                <span className="metric-change positive">{formatRate(getPoolsByApy()[0]?.apy)}</span>
               </div>
               <div className="summary-metric">
                 <span className="metric-label">Total Value</span>
-                <span className="metric-value">$12,450.67</span>
-                <span className="metric-change positive">+$583.45 today</span>
+                <span className="metric-value">{formatUsd(getPortfolioValue().total)}</span>
+                <span className="metric-change">{getPortfolioValue().hasUnpriced ? 'Excludes unpriced tokens' : 'All holdings priced'}</span>
               </div>
               <div className="summary-metric">
                 <span className="metric-label">Diversification</span>
-                <span className="metric-value">4 pools</span>
-                <span className="metric-change">Well balanced</span>
-              </div>
-            </div>
-          </div>
-
-          <div className="token-analysis-cards">
-            <div className="analysis-card">
-              <div className="card-header">
-                <h4>Risk-Reward Analysis</h4>
-                <div className="analysis-badge medium-risk">Medium Risk</div>
-              </div>
-              <div className="analysis-content">
-                <div className="risk-metric">
-                  <span className="metric-name">Portfolio Beta</span>
-                  <span className="metric-value">1.23</span>
-                  <div className="metric-bar">
-                    <div className="metric-fill" style={{width: '61.5%', backgroundColor: '#ffa500'}}></div>
-                  </div>
-                </div>
-                <div className="risk-metric">
-                  <span className="metric-name">Volatility (30d)</span>
-                  <span className="metric-value">18.4%</span>
-                  <div className="metric-bar">
-                    <div className="metric-fill" style={{width: '36.8%', backgroundColor: '#00ff88'}}></div>
-                  </div>
-                </div>
-                <div className="risk-metric">
-                  <span className="metric-name">Sharpe Ratio</span>
-                  <span className="metric-value">2.15</span>
-                  <div className="metric-bar">
-                    <div className="metric-fill" style={{width: '86%', backgroundColor: '#00ff88'}}></div>
-                  </div>
-                </div>
-              </div>
-            </div>
-
-            <div className="analysis-card">
-              <div className="card-header">
-                <h4>Yield Optimization</h4>
-                <div className="analysis-badge high-yield">High Yield</div>
-              </div>
-              <div className="yield-recommendations">
-                <div className="recommendation">
-                  <div className="recommendation-header">
-                    <span className="recommendation-icon">🔄</span>
-                    <span className="recommendation-title">Rebalance Suggestion</span>
-                  </div>
-                  <p>Consider moving 5% from DAI-USDC to YFT-ETH for +2.1% APY increase</p>
-                  <div className="recommendation-impact positive">+$45.67 annually</div>
-                </div>
-                <div className="recommendation">
-                  <div className="recommendation-header">
-                    <span className="recommendation-icon">⚡</span>
-                    <span className="recommendation-title">Auto-Compound</span>
-                  </div>
-                  <p>Enable auto-compounding on YFT-ETH LP to maximize returns</p>
-                  <div className="recommendation-impact positive">+3.2% APY boost</div>
-                </div>
+                <span className="metric-value">{userStats?.activePools || 0} pools</span>
+                <span className="metric-change">{getHoldings().length} holdings</span>
               </div>
             </div>
           </div>
@@ -2207,106 +3311,44 @@ function App() {
         <div className="detailed-token-metrics">
           <div className="metrics-section-header">
             <h4>Individual Token Analysis</h4>
-            <div className="metrics-view-toggle">
-              <button className="toggle-btn active">Performance</button>
-              <button className="toggle-btn">Technical</button>
-              <button className="toggle-btn">Fundamentals</button>
-            </div>
           </div>
 
           <div className="token-metrics-grid">
-            <div className="token-metric-card">
-              <div className="token-header">
-                <div className="token-info">
-                  <div className="token-icon">E</div>
-                  <div className="token-details">
-                    <h5>ETH-USDC LP</h5>
-                    <span className="token-protocol">Uniswap V3</span>
+            {pools.length === 0 && <p className="empty-state">No farming pools have been added yet.</p>}
+            {pools.map((pool) => (
+              <div className="token-metric-card" key={pool.pid}>
+                <div className="token-header">
+                  <div className="token-info">
+                    <div className="token-icon">{pool.symbol.charAt(0)}</div>
+                    <div className="token-details">
+                      <h5>{pool.symbol}</h5>
+                      <span className="token-protocol">Pool #{pool.pid}</span>
+                    </div>
                   </div>
+                  <div className="token-performance positive">{formatRate(getPoolApr(pool)?.apy)}</div>
                 </div>
-                <div className="token-performance positive">+9.6%</div>
-              </div>
-              <div className="token-metrics">
-                <div className="metric-row">
-                  <span className="metric-label">7-day Performance</span>
-                  <span className="metric-value positive">+14.2%</span>
-                </div>
-                <div className="metric-row">
-                  <span className="metric-label">Current APY</span>
-                  <span className="metric-value">45.3%</span>
-                </div>
-                <div className="metric-row">
-                  <span className="metric-label">Impermanent Loss</span>
-                  <span className="metric-value negative">-1.2%</span>
-                </div>
-                <div className="metric-row">
-                  <span className="metric-label">Fee Rewards (24h)</span>
-                  <span className="metric-value positive">+$12.45</span>
-                </div>
-              </div>
-            </div>
-
-            <div className="token-metric-card">
-              <div className="token-header">
-                <div className="token-info">
-                  <div className="token-icon">Y</div>
-                  <div className="token-details">
-                    <h5>YFT-ETH LP</h5>
-                    <span className="token-protocol">YieldFarm</span>
+                <div className="token-metrics">
+                  <div className="metric-row">
+                    <span className="metric-label">Current APR</span>
+                    <span className="metric-value">{formatRate(getPoolApr(pool)?.apr)}</span>
                   </div>
-                </div>
-                <div className="token-performance positive">+19.3%</div>
-              </div>
-              <div className="token-metrics">
-                <div className="metric-row">
-                  <span className="metric-label">7-day Performance</span>
-                  <span className="metric-value positive">+23.7%</span>
-                </div>
-                <div className="metric-row">
-                  <span className="metric-label">Current APY</span>
-                  <span className="metric-value">67.8%</span>
-                </div>
-                <div className="metric-row">
-                  <span className="metric-label">Reward Multiplier</span>
-                  <span className="metric-value">2.3x</span>
-                </div>
-                <div className="metric-row">
-                  <span className="metric-label">Pending Rewards</span>
-                  <span className="metric-value positive">+$78.90</span>
-                </div>
-              </div>
-            </div>
-
-            <div className="token-metric-card">
-              <div className="token-header">
-                <div className="token-info">
-                  <div className="token-icon">D</div>
-                  <div className="token-details">
-                    <h5>DAI-USDC LP</h5>
-                    <span className="token-protocol">Balancer</span>
+                  <div className="metric-row">
+                    <span className="metric-label">Reward Share</span>
+                    <span className="metric-value">{formatRewardShare(pool)}</span>
+                  </div>
+                  <div className="metric-row">
+                    <span className="metric-label">Your Stake</span>
+                    <span className="metric-value">{formatUsd(toUsd(pool.stakedAmount, pool.decimals, pool.lpToken))}</span>
+                  </div>
+                  <div className="metric-row">
+                    <span className="metric-label">Pending Rewards</span>
+                    <span className="metric-value positive">
+                      {formatUsd(emission ? toUsd(pool.pendingReward, 18, emission.farmInfo.rewardToken) : undefined)}
+                    </span>
                   </div>
-                </div>
-                <div className="token-performance positive">+3.7%</div>
-              </div>
-              <div className="token-metrics">
-                <div className="metric-row">
-                  <span className="metric-label">7-day Performance</span>
-                  <span className="metric-value positive">+1.8%</span>
-                </div>
-                <div className="metric-row">
-                  <span className="metric-label">Current APY</span>
-                  <span className="metric-value">12.6%</span>
-                </div>
-                <div className="metric-row">
-                  <span className="metric-label">Risk Level</span>
-                  <span className="metric-value">Very Low</span>
-                </div>
-                <div className="metric-row">
-                  <span className="metric-label">BAL Rewards</span>
-                  <span className="metric-value positive">+$2.34</span>
                 </div>
               </div>
-            </div>
+            ))}
           </div>
         </div>
       </div>
@@ -2317,28 +3359,28 @@ function App() {
           <div className="metric-card">
             <div className="metric-header">
               <span className="metric-icon">📈</span>
-              <span className="metric-title">Total Return</span>
+              <span className="metric-title">Staked Value</span>
             </div>
-            <div className="metric-value positive">+$1,234.78</div>
-            <div className="metric-subtitle">+11.0% since inception</div>
+            <div className="metric-value">{formatUsd(getHoldingsValue('staked'))}</div>
+            <div className="metric-subtitle">Across {userStats?.activePools || 0} pools</div>
           </div>
 
           <div className="metric-card">
             <div className="metric-header">
               <span className="metric-icon">💰</span>
-              <span className="metric-title">Daily P&L</span>
+              <span className="metric-title">Pending Rewards</span>
             </div>
-            <div className="metric-value positive">+$156.23</div>
-            <div className="metric-subtitle">+1.3% today</div>
+            <div className="metric-value positive">{formatUsd(getHoldingsValue('pending'))}</div>
+            <div className="metric-subtitle">{formatReward(userStats?.pendingReward ?? 0n)} YFT</div>
           </div>
 
           <div className="metric-card">
             <div className="metric-header">
               <span className="metric-icon">⚡</span>
-              <span className="metric-title">Best Performer</span>
+              <span className="metric-title">Highest APY</span>
             </div>
-            <div className="metric-value">YFT-ETH LP</div>
-            <div className="metric-subtitle positive">+19.1% return</div>
+            <div className="metric-value">{getPoolsByApy()[0]?.pool.symbol ?? '—'}</div>
+            <div className="metric-subtitle positive">{formatRate(getPoolsByApy()[0]?.apy)}</div>
           </div>
 
           <div className="metric-card">
@@ -2346,8 +3388,8 @@ function App() {
               <span className="metric-icon">🎯</span>
               <span className="metric-title">Avg. APY</span>
             </div>
-            <div className="metric-value">23.7%</div>
-            <div className="metric-subtitle">Weighted average</div>
+            <div className="metric-value">{formatRate(getAverageApy())}</div>
+            <div className="metric-subtitle">Weighted by stake</div>
           </div>
         </div>
       </div>
@@ -2356,48 +3398,10 @@ function App() {
       <div className="market-metrics-comprehensive">
         <div className="metrics-header">
           <h3>Market Analysis & Protocol Statistics</h3>
-          <div className="metrics-controls">
-            <button className="metric-filter-btn active">All Markets</button>
-            <button className="metric-filter-btn">DeFi</button>
-            <button className="metric-filter-btn">Yield</button>
-            <button className="metric-filter-btn">Governance</button>
-          </div>
         </div>
 
         {/* Market Overview Grid */}
         <div className="market-overview-grid">
-          <div className="market-metric-card">
-            <div className="metric-card-header">
-              <div className="metric-icon-large">🌐</div>
-              <div className="metric-card-title">
-                <h4>Global DeFi Market</h4>
-                <span className="metric-subtitle">Real-time data</span>
-              </div>
-            </div>
-            <div className="metric-data-grid">
-              <div className="metric-data-item">
-                <span className="data-label">Total TVL</span>
-                <span className="data-value">$48.7B</span>
-                <span className="data-change positive">+3.2%</span>
-              </div>
-              <div className="metric-data-item">
-                <span className="data-label">24h Volume</span>
-                <span className="data-value">$3.2B</span>
-                <span className="data-change negative">-1.8%</span>
-              </div>
-              <div className="metric-data-item">
-                <span className="data-label">Active Protocols</span>
-                <span className="data-value">2,847</span>
-                <span className="data-change positive">+12</span>
-              </div>
-              <div className="metric-data-item">
-                <span className="data-label">Avg APY</span>
-                <span className="data-value">18.4%</span>
-                <span className="data-change neutral">±0.0%</span>
-              </div>
-            </div>
-          </div>
-
           <div className="market-metric-card">
             <div className="metric-card-header">
               <div className="metric-icon-large">⚡</div>
@@ -2409,23 +3413,25 @@ function App() {
             <div className="metric-data-grid">
               <div className="metric-data-item">
                 <span className="data-label">Protocol TVL</span>
-                <span className="data-value">$8.9M</span>
-                <span className="data-change positive">+15.7%</span>
+                <span className="data-value">{formatUsd(getProtocolTvl().total)}</span>
+                <span className="data-change neutral">{getProtocolTvl().hasUnpriced ? 'Excludes unpriced pools' : 'All pools priced'}</span>
               </div>
               <div className="metric-data-item">
-                <span className="data-label">Active Farmers</span>
-                <span className="data-value">4,283</span>
-                <span className="data-change positive">+8.1%</span>
+                <span className="data-label">Open Positions</span>
+                <span className="data-value">{reserve ? reserve.positions.toLocaleString() : '—'}</span>
+                <span className="data-change neutral">From the event index</span>
               </div>
               <div className="metric-data-item">
-                <span className="data-label">Total Rewards</span>
-                <span className="data-value">$342K</span>
-                <span className="data-change positive">+23.4%</span>
+                <span className="data-label">Reward Reserve</span>
+                <span className="data-value">
+                  {formatUsd(reserve && emission ? toUsd(reserve.balance, 18, emission.farmInfo.rewardToken) : undefined)}
+                </span>
+                <span className="data-change neutral">{reserve ? `${formatReward(reserve.balance)} YFT` : 'Loading'}</span>
               </div>
               <div className="metric-data-item">
                 <span className="data-label">Pools Active</span>
-                <span className="data-value">12</span>
-                <span className="data-change neutral">±0</span>
+                <span className="data-value">{pools.length}</span>
+                <span className="data-change neutral">{emission ? `${formatReward(emission.farmInfo.rewardPerBlock)} YFT per block` : ''}</span>
               </div>
             </div>
           </div>
@@ -2439,223 +3445,20 @@ function App() {
               </div>
             </div>
             <div className="pool-performance-list">
-              <div className="pool-item">
-                <div className="pool-info">
-                  <span className="pool-name">ETH-USDC</span>
-                  <span className="pool-protocol">Uniswap V3</span>
-                </div>
-                <div className="pool-metrics">
-                  <span className="pool-apy">45.2% APY</span>
-                  <span className="pool-change positive">+2.1%</span>
-                </div>
-              </div>
-              <div className="pool-item">
-                <div className="pool-info">
-                  <span className="pool-name">YFT-ETH</span>
-                  <span className="pool-protocol">YieldFarm</span>
-                </div>
-                <div className="pool-metrics">
-                  <span className="pool-apy">38.7% APY</span>
-                  <span className="pool-change positive">+5.8%</span>
-                </div>
-              </div>
-              <div className="pool-item">
-                <div className="pool-info">
-                  <span className="pool-name">WBTC-USDT</span>
-                  <span className="pool-protocol">Curve</span>
-                </div>
-                <div className="pool-metrics">
-                  <span className="pool-apy">23.1% APY</span>
-                  <span className="pool-change negative">-0.9%</span>
-                </div>
-              </div>
-            </div>
-          </div>
-        </div>
-
-        {/* Detailed Protocol Analytics */}
-        <div className="protocol-analytics-section">
-          <div className="analytics-row">
-            <div className="analytics-chart-card">
-              <div className="chart-card-header">
-                <h4>TVL Growth Trend</h4>
-                <div className="chart-period-selector">
-                  <button className="period-btn active">7D</button>
-                  <button className="period-btn">30D</button>
-                  <button className="period-btn">90D</button>
-                </div>
-              </div>
-              <div className="mini-chart">
-                <svg viewBox="0 0 400 150" className="tvl-chart">
-                  <defs>
-                    <linearGradient id="tvlGradient" x1="0%" y1="0%" x2="0%" y2="100%">
-                      <stop offset="0%" style={{stopColor: '#00ff88', stopOpacity: 0.3}} />
-                      <stop offset="100%" style={{stopColor: '#00ff88', stopOpacity: 0}} />
-                    </linearGradient>
-                  </defs>
-                  <path
-                    d="M0,120 L50,110 L100,95 L150,85 L200,75 L250,65 L300,55 L350,45 L400,35"
-                    stroke="#00ff88"
-                    strokeWidth="2"
-                    fill="none"
-                  />
-                  <path
-                    d="M0,120 L50,110 L100,95 L150,85 L200,75 L250,65 L300,55 L350,45 L400,35 L400,150 L0,150 Z"
-                    fill="url(#tvlGradient)"
-                  />
-                </svg>
-                <div className="chart-value">$8.9M TVL</div>
-              </div>
-            </div>
-
-            <div className="analytics-chart-card">
-              <div className="chart-card-header">
-                <h4>User Activity</h4>
-                <div className="activity-indicator">
-                  <span className="activity-dot active"></span>
-                  <span>Live</span>
-                </div>
-              </div>
-              <div className="activity-stats">
-                <div className="activity-metric">
-                  <span className="activity-label">Daily Active Users</span>
-                  <span className="activity-value">1,247</span>
-                  <span className="activity-trend positive">↗ +12%</span>
-                </div>
-                <div className="activity-metric">
-                  <span className="activity-label">New Farmers Today</span>
-                  <span className="activity-value">89</span>
-                  <span className="activity-trend positive">↗ +34%</span>
-                </div>
-                <div className="activity-metric">
-                  <span className="activity-label">Transactions</span>
-                  <span className="activity-value">3,421</span>
-                  <span className="activity-trend neutral">→ +2%</span>
-                </div>
-              </div>
-            </div>
-
-            <div className="analytics-chart-card">
-              <div className="chart-card-header">
-                <h4>Risk Assessment</h4>
-                <div className="risk-score">
-                  <span className="score-value">7.2</span>
-                  <span className="score-label">/10</span>
-                </div>
-              </div>
-              <div className="risk-breakdown">
-                <div className="risk-item">
-                  <span className="risk-category">Smart Contract</span>
-                  <div className="risk-bar">
-                    <div className="risk-fill" style={{width: '85%', backgroundColor: '#00ff88'}}></div>
-                  </div>
-                  <span className="risk-rating">Low</span>
-                </div>
-                <div className="risk-item">
-                  <span className="risk-category">Liquidity</span>
-                  <div className="risk-bar">
-                    <div className="risk-fill" style={{width: '70%', backgroundColor: '#ffa500'}}></div>
+              {getPoolsByApy().slice(0, 3).map(({ pool, apy }) => (
+                <div className="pool-item" key={pool.pid}>
+                  <div className="pool-info">
+                    <span className="pool-name">{pool.symbol}</span>
+                    <span className="pool-protocol">Pool #{pool.pid}</span>
                   </div>
-                  <span className="risk-rating">Medium</span>
-                </div>
-                <div className="risk-item">
-                  <span className="risk-category">Market</span>
-                  <div className="risk-bar">
-                    <div className="risk-fill" style={{width: '60%', backgroundColor: '#ff4444'}}></div>
+                  <div className="pool-metrics">
+                    <span className="pool-apy">{formatRate(apy)} APY</span>
                   </div>
-                  <span className="risk-rating">High</span>
                 </div>
-              </div>
+              ))}
             </div>
           </div>
         </div>
-
-        {/* Market Comparison Table */}
-        <div className="market-comparison-section">
-          <div className="comparison-header">
-            <h4>Protocol Comparison</h4>
-            <div className="comparison-filters">
-              <button className="comparison-filter active">All</button>
-              <button className="comparison-filter">Yield Farming</button>
-              <button className="comparison-filter">DEX</button>
-              <button className="comparison-filter">Lending</button>
-            </div>
-          </div>
-          <div className="comparison-table-container">
-            <table className="market-comparison-table">
-              <thead>
-                <tr>
-                  <th>Protocol</th>
-                  <th>TVL</th>
-                  <th>24h Change</th>
-                  <th>APY Range</th>
-                  <th>Users</th>
-                  <th>Risk Score</th>
-                  <th>Status</th>
-                </tr>
-              </thead>
-              <tbody>
-                <tr className="protocol-row">
-                  <td>
-                    <div className="protocol-info">
-                      <div className="protocol-icon">🌾</div>
-                      <div>
-                        <div className="protocol-name">YieldFarm</div>
-                        <div className="protocol-category">Yield Farming</div>
-                      </div>
-                    </div>
-                  </td>
-                  <td><strong>$8.9M</strong></td>
-                  <td><span className="change-badge positive">+15.7%</span></td>
-                  <td>12.5% - 45.2%</td>
-                  <td>4,283</td>
-                  <td>
-                    <div className="risk-indicator low">7.2</div>
-                  </td>
-                  <td><span className="status-badge active">Active</span></td>
-                </tr>
-                <tr className="protocol-row">
-                  <td>
-                    <div className="protocol-info">
-                      <div className="protocol-icon">🦄</div>
-                      <div>
-                        <div className="protocol-name">Uniswap V3</div>
-                        <div className="protocol-category">DEX</div>
-                      </div>
-                    </div>
-                  </td>
-                  <td><strong>$4.2B</strong></td>
-                  <td><span className="change-badge positive">+3.2%</span></td>
-                  <td>5.1% - 89.4%</td>
-                  <td>287K</td>
-                  <td>
-                    <div className="risk-indicator low">8.9</div>
-                  </td>
-                  <td><span className="status-badge active">Active</span></td>
-                </tr>
-                <tr className="protocol-row">
-                  <td>
-                    <div className="protocol-info">
-                      <div className="protocol-icon">🏪</div>
-                      <div>
-                        <div className="protocol-name">Curve Finance</div>
-                        <div className="protocol-category">DEX</div>
-                      </div>
-                    </div>
-                  </td>
-                  <td><strong>$2.1B</strong></td>
-                  <td><span className="change-badge negative">-2.1%</span></td>
-                  <td>2.3% - 34.7%</td>
-                  <td>45K</td>
-                  <td>
-                    <div className="risk-indicator medium">6.8</div>
-                  </td>
-                  <td><span className="status-badge active">Active</span></td>
-                </tr>
-              </tbody>
-            </table>
-          </div>
-        </div>
       </div>
     </div>
   );
@@ -2672,22 +3475,22 @@ function App() {
           <div className="metrics-list">
             <div className="metric-row">
               <span className="metric-name">Total Value Locked</span>
-              <span className="metric-amount">$2.4M</span>
-              <span className="metric-change positive">+12.5%</span>
+              <span className="metric-amount">{formatUsd(getProtocolTvl().total)}</span>
+              <span className="metric-change neutral">{getProtocolTvl().hasUnpriced ? 'Excludes unpriced pools' : 'All pools'}</span>
             </div>
             <div className="metric-row">
-              <span className="metric-name">24h Volume</span>
-              <span className="metric-amount">$890K</span>
-              <span className="metric-change positive">+8.2%</span>
+              <span className="metric-name">Reward Rate</span>
+              <span className="metric-amount">{emission ? formatReward(emission.farmInfo.rewardPerBlock) : '—'} YFT</span>
+              <span className="metric-change neutral">Per block</span>
             </div>
             <div className="metric-row">
-              <span className="metric-name">Active Users</span>
-              <span className="metric-amount">1,247</span>
-              <span className="metric-change positive">+89</span>
+              <span className="metric-name">Open Positions</span>
+              <span className="metric-amount">{reserve ? reserve.positions.toLocaleString() : '—'}</span>
+              <span className="metric-change neutral">Indexed</span>
             </div>
             <div className="metric-row">
               <span className="metric-name">Total Pools</span>
-              <span className="metric-amount">3</span>
+              <span className="metric-amount">{pools.length}</span>
               <span className="metric-change neutral">Active</span>
             </div>
           </div>
@@ -2696,60 +3499,173 @@ function App() {
         <div className="analytics-card">
           <h4>Top Performing Pools</h4>
           <div className="performance-list">
-            <div className="performance-item">
-              <div className="pool-identity">
-                <span className="pool-icon">🔥💎</span>
-                <span className="pool-name">YFT-ETH LP</span>
-              </div>
-              <span className="pool-apy">45.2%</span>
-            </div>
-            <div className="performance-item">
-              <div className="pool-identity">
-                <span className="pool-icon">💎💰</span>
-                <span className="pool-name">ETH-USDC LP</span>
-              </div>
-              <span className="pool-apy">24.5%</span>
-            </div>
-            <div className="performance-item">
-              <div className="pool-identity">
-                <span className="pool-icon">🌟💰</span>
-                <span className="pool-name">DAI-USDC LP</span>
+            {getPoolsByApy().slice(0, 3).map(({ pool, apy }) => (
+              <div className="performance-item" key={pool.pid}>
+                <div className="pool-identity">
+                  <span className="pool-icon">{POOL_ICONS[pool.pid % POOL_ICONS.length].join('')}</span>
+                  <span className="pool-name">{pool.symbol}</span>
+                </div>
+                <span className="pool-apy">{formatRate(apy)}</span>
               </div>
-              <span className="pool-apy">12.8%</span>
-            </div>
+            ))}
           </div>
         </div>
 
         <div className="analytics-card">
-          <h4>Yield Distribution</h4>
+          <h4>Reward Distribution</h4>
           <div className="distribution-chart">
-            <div className="distribution-item">
-              <div className="distribution-bar">
-                <div className="bar-fill" style={{width: '60%'}}></div>
-              </div>
-              <span className="distribution-label">Staking Rewards</span>
-              <span className="distribution-value">60%</span>
-            </div>
-            <div className="distribution-item">
-              <div className="distribution-bar">
-                <div className="bar-fill" style={{width: '25%'}}></div>
+            {pools.map((pool) => (
+              <div className="distribution-item" key={pool.pid}>
+                <div className="distribution-bar">
+                  <div className="bar-fill" style={{width: formatRewardShare(pool)}}></div>
+                </div>
+                <span className="distribution-label">{pool.symbol} #{pool.pid}</span>
+                <span className="distribution-value">{formatRewardShare(pool)}</span>
               </div>
-              <span className="distribution-label">LP Fees</span>
-              <span className="distribution-value">25%</span>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+
+  const renderDashboardAdmin = () => (
+    <div className="dashboard-analytics">
+      <div className="analytics-header">
+        <h3>Farm Administration</h3>
+      </div>
+
+      <div className="analytics-grid">
+        <div className="analytics-card">
+          <h4>Add Pool</h4>
+          <div className="admin-form">
+            <input
+              className="stake-input"
+              value={adminInputs.lpToken}
+              onChange={(e) => updateAdminInput('lpToken', e.target.value)}
+              placeholder="LP token address"
+            />
+            <input
+              className="stake-input"
+              type="number"
+              value={adminInputs.allocPoint}
+              onChange={(e) => updateAdminInput('allocPoint', e.target.value)}
+              placeholder="Alloc points"
+            />
+            <div className="input-group">
+              <input
+                className="stake-input"
+                type="number"
+                value={adminInputs.minStake}
+                onChange={(e) => updateAdminInput('minStake', e.target.value)}
+                placeholder="Min stake"
+              />
+              <input
+                className="stake-input"
+                type="number"
+                value={adminInputs.maxStake}
+                onChange={(e) => updateAdminInput('maxStake', e.target.value)}
+                placeholder="Max stake"
+              />
             </div>
-            <div className="distribution-item">
-              <div className="distribution-bar">
-                <div className="bar-fill" style={{width: '15%'}}></div>
+            <button className="btn-primary" onClick={prepareAddPool} disabled={Boolean(busy.admin)}>Review new pool</button>
+          </div>
+        </div>
+
+        <div className="analytics-card">
+          <h4>Rebalance Alloc Points</h4>
+          <div className="admin-form">
+            {pools.length === 0 && <p className="empty-state">No pools to rebalance.</p>}
+            {pools.map((pool) => (
+              <div className="input-group" key={pool.pid}>
+                <span className="admin-label">#{pool.pid} {pool.symbol} · {formatRewardShare(pool)}</span>
+                <input
+                  className="stake-input"
+                  type="number"
+                  value={adminInputs.allocPoints[pool.pid] ?? ''}
+                  onChange={(e) => updateAdminAllocPoint(pool.pid, e.target.value)}
+                  placeholder={pool.allocPoint.toString()}
+                />
               </div>
-              <span className="distribution-label">Bonus Rewards</span>
-              <span className="distribution-value">15%</span>
+            ))}
+            <button className="btn-primary" onClick={prepareSetPools} disabled={Boolean(busy.admin) || pools.length === 0}>
+              Preview emission split
+            </button>
+          </div>
+        </div>
+
+        <div className="analytics-card">
+          <h4>Emission Rate</h4>
+          <div className="admin-form">
+            <span className="metric-note">
+              Currently {emission ? formatReward(emission.farmInfo.rewardPerBlock) : '—'} YFT per block
+            </span>
+            <div className="input-group">
+              <input
+                className="stake-input"
+                type="number"
+                value={adminInputs.rewardPerBlock}
+                onChange={(e) => updateAdminInput('rewardPerBlock', e.target.value)}
+                placeholder="New YFT per block"
+              />
+              <button className="btn-primary" onClick={prepareRewardPerBlock} disabled={Boolean(busy.admin) || !adminInputs.rewardPerBlock}>
+                Review
+              </button>
             </div>
           </div>
         </div>
+
+        <div className="analytics-card">
+          <h4>Emergency Stop</h4>
+          <div className="admin-form">
+            <span className="metric-note">
+              {farmPaused
+                ? 'Deposits are paused. Withdrawals, harvests and emergency withdrawals still work.'
+                : 'Pausing blocks new deposits; withdrawals, harvests and emergency withdrawals keep working.'}
+            </span>
+            <button className={farmPaused ? 'btn-primary' : 'btn-emergency'} onClick={preparePauseToggle} disabled={Boolean(busy.admin)}>
+              {farmPaused ? 'Unpause farm' : 'Pause farm'}
+            </button>
+          </div>
+        </div>
       </div>
     </div>
   );
 
+  const renderAdminChangeDialog = () => {
+    if (!adminChange) return null;
+
+    return (
+      <div className="modal-overlay" onClick={() => setAdminChange(null)}>
+        <div className="modal-card" role="dialog" aria-modal="true" onClick={(e) => e.stopPropagation()}>
+          <h3>{adminChange.title}</h3>
+          <table className="diff-table">
+            <thead>
+              <tr>
+                <th></th>
+                <th>Current</th>
+                <th>After</th>
+              </tr>
+            </thead>
+            <tbody>
+              {adminChange.rows.map((row) => (
+                <tr key={row.label} className={row.before === row.after ? '' : 'changed'}>
+                  <td>{row.label}</td>
+                  <td className="diff-before">{row.before}</td>
+                  <td className="diff-after">{row.after}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="modal-actions">
+            <button className="btn-secondary" onClick={() => setAdminChange(null)}>Cancel</button>
+            <button className="btn-primary" onClick={handleAdminChange} disabled={Boolean(busy.admin)}>Sign and submit</button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
   const renderDashboardContent = () => {
     switch (activeDashboardPage) {
       case 'overview':
@@ -2760,6 +3676,8 @@ function App() {
         return renderDashboardPortfolio();
       case 'analytics':
         return renderDashboardAnalytics();
+      case 'admin':
+        return isOwner ? renderDashboardAdmin() : renderDashboardOverview();
       default:
         return renderDashboardOverview();
     }
@@ -2772,13 +3690,18 @@ function App() {
           {message.text}
         </div>
       )}
+      {renderEmergencyExitDialog()}
+      {renderAdminChangeDialog()}
+      {renderRewardShortfallDialog()}
+      {renderHarvestSummaryDialog()}
+      {renderTransactionTray()}
 
-      {!account ? (
+      {!account && !client ? (
         <div className="connect-prompt">
           <div className="connect-card hover-lift animate-scale-in">
             <div className="connect-icon">🔗</div>
             <h2>Connect Your Wallet</h2>
-            <p>Connect your MetaMask wallet to start farming and earning rewards</p>
+            <p>Connect a wallet to start farming and earning rewards, or watch any address read-only</p>
             <button className="connect-button hover-shimmer" onClick={connectWallet}>
               <span>Connect Wallet</span>
               <span className="connect-arrow">→</span>
@@ -2790,6 +3713,25 @@ function App() {
             </div>
           </div>
         </div>
+      ) : !deployment ? (
+        <div className="connect-prompt">
+          <div className="connect-card animate-scale-in">
+            <div className="connect-icon">⚠️</div>
+            <h2>Unsupported Network</h2>
+            <p>
+              YieldFarm is not deployed on {chainId !== null ? getChainName(chainId) : 'this network'}.
+              {chainId === getTargetChainId()
+                ? ' Add its contract addresses with `npm run sync-deployments` or the VITE_* variables in .env.'
+                : ' Switch your wallet to a supported network to continue.'}
+            </p>
+            {chainId !== getTargetChainId() && (
+              <button className="connect-button hover-shimmer" onClick={() => switchNetwork()}>
+                <span>Switch to {getChainName(getTargetChainId())}</span>
+                <span className="connect-arrow">→</span>
+              </button>
+            )}
+          </div>
+        </div>
       ) : (
         <div className="dashboard">
           {/* Dashboard Header */}
@@ -2798,13 +3740,30 @@ function App() {
               <h2>Farming Dashboard</h2>
               <span className="dashboard-subtitle">Welcome back, farmer! 🌾</span>
             </div>
-            <div className="dashboard-user">
-              <div className="user-info">
-                <span className="user-address">{account.slice(0, 6)}...{account.slice(-4)}</span>
-                <span className="user-status">Connected</span>
+            {account ? (
+              <div className="dashboard-user">
+                <div className="user-info">
+                  <span className="user-address" title={account}>{watchedName || `${account.slice(0, 6)}...${account.slice(-4)}`}</span>
+                  <span className="user-status">
+                    {readOnly ? 'Watching' : 'Connected'}{streamStatus && STREAM_STATUS_LABELS[streamStatus]}
+                  </span>
+                </div>
+                <button className="filter-btn" onClick={copyPortfolioLink} title="Copy a read-only link to this portfolio">
+                  🔗 Share
+                </button>
+                <div className="user-avatar">{readOnly ? '👁' : '👤'}</div>
               </div>
-              <div className="user-avatar">👤</div>
-            </div>
+            ) : (
+              <div className="dashboard-user">
+                <div className="user-info">
+                  <span className="user-address">Browsing {deployment?.name}</span>
+                  <span className="user-status">Read-only{streamStatus && STREAM_STATUS_LABELS[streamStatus]}</span>
+                </div>
+                <button className="connect-btn" onClick={connectWallet}>
+                  Connect Wallet
+                </button>
+              </div>
+            )}
           </div>
 
           {/* Dashboard Navigation */}
@@ -2837,24 +3796,25 @@ function App() {
               <span className="tab-icon">📈</span>
               <span>Analytics</span>
             </button>
+            {isOwner && (
+              <button
+                className={`nav-tab ${activeDashboardPage === 'admin' ? 'active' : ''}`}
+                onClick={() => setActiveDashboardPage('admin')}
+              >
+                <span className="tab-icon">🛠️</span>
+                <span>Admin</span>
+              </button>
+            )}
           </div>
 
+          {renderPausedBanner()}
+          {renderReserveBanner()}
+
           {/* Dashboard Content */}
           <div className="dashboard-content">
             {renderDashboardContent()}
           </div>
 
-          {CONTRACT_ADDRESSES.yieldFarm === '0x...' && (
-            <div className="dashboard-warning">
-              <div className="warning-content">
-                <span className="warning-icon">⚠️</span>
-                <div>
-                  <strong>Development Mode</strong>
-                  <p>Contract addresses are not set. Deploy contracts and update addresses for full functionality.</p>
-                </div>
-              </div>
-            </div>
-          )}
         </div>
       )}
     </div>
@@ -2878,6 +3838,7 @@ function App() {
   return (
     <div className="app">
       {renderNavigation()}
+      {renderConnectorPicker()}
       <main className="main-content">
         {renderContent()}
       </main>
@@ -2963,11 +3924,13 @@ function App() {
             <div className="footer-info">
               <div className="contract-info">
                 <span className="contract-label">Contract Address:</span>
-                <span className="contract-address">0x742...8901</span>
+                <span className="contract-address">
+                  {deployment ? `${deployment.yieldFarm.slice(0, 5)}...${deployment.yieldFarm.slice(-4)}` : 'Not deployed'}
+                </span>
               </div>
               <div className="network-info">
                 <span className="network-indicator"></span>
-                <span>Ethereum Mainnet</span>
+                <span>{chainId !== null ? getChainName(chainId) : 'Not connected'}</span>
               </div>
             </div>
           </div>
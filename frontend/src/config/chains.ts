@@ -0,0 +1,75 @@
+import { ethers } from 'ethers';
+import { DEPLOYMENTS, SUPPORTED_CHAINS } from './deployments';
+
+// EIP-3085 wallet_addEthereumChain parameter
+export interface AddEthereumChainParameter {
+  chainId: string;
+  chainName: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  rpcUrls: string[];
+  blockExplorerUrls?: string[];
+}
+
+interface ChainConfig {
+  rpcUrl: string;
+  blockExplorerUrl?: string;
+}
+
+// Defaults for wallet_addEthereumChain; VITE_RPC_URL_<chainId> overrides the RPC URL
+const CHAIN_CONFIGS: Record<number, ChainConfig> = {
+  1: { rpcUrl: 'https://ethereum-rpc.publicnode.com', blockExplorerUrl: 'https://etherscan.io' },
+  11155111: { rpcUrl: 'https://ethereum-sepolia-rpc.publicnode.com', blockExplorerUrl: 'https://sepolia.etherscan.io' },
+  // `anvil` with its default host and port
+  31337: { rpcUrl: 'http://127.0.0.1:8545' }
+};
+
+export const getRpcUrl = (chainId: number): string | undefined => {
+  const value = import.meta.env[`VITE_RPC_URL_${chainId}`];
+  return typeof value === 'string' && value !== '' ? value : CHAIN_CONFIGS[chainId]?.rpcUrl;
+};
+
+/**
+ * Chain the app asks the wallet to switch to: VITE_TARGET_CHAIN_ID, else the first chain with a
+ * deployment, else a local anvil chain.
+ */
+export const getTargetChainId = (): number => {
+  const configured = Number(import.meta.env.VITE_TARGET_CHAIN_ID);
+  if (Number.isInteger(configured) && configured > 0) return configured;
+  const deployed = Object.keys(DEPLOYMENTS).map(Number);
+  return deployed.length > 0 ? Math.min(...deployed) : 31337;
+};
+
+/** Parameters for wallet_addEthereumChain, or null when no RPC URL is known for the chain. */
+export const getAddChainParameter = (chainId: number): AddEthereumChainParameter | null => {
+  const rpcUrl = getRpcUrl(chainId);
+  if (!rpcUrl) return null;
+
+  const blockExplorerUrl = CHAIN_CONFIGS[chainId]?.blockExplorerUrl;
+  return {
+    chainId: ethers.toQuantity(chainId),
+    chainName: SUPPORTED_CHAINS[chainId] || `Chain ${chainId}`,
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: [rpcUrl],
+    ...(blockExplorerUrl ? { blockExplorerUrls: [blockExplorerUrl] } : {})
+  };
+};
+
+/** JSON-RPC provider for reading `chainId` without a wallet, or null when no RPC URL is known. */
+export const createReadProvider = (chainId: number): ethers.JsonRpcProvider | null => {
+  const rpcUrl = getRpcUrl(chainId);
+  return rpcUrl ? new ethers.JsonRpcProvider(rpcUrl, chainId, { staticNetwork: true }) : null;
+};
+
+/**
+ * Address an ENS name points to, or null when it has none. Names are resolved through the mainnet
+ * registry whatever chain the app reads, since local and test chains have no ENS of their own.
+ */
+export const resolveEnsName = async (name: string): Promise<string | null> => {
+  const mainnet = createReadProvider(1);
+  if (!mainnet) return null;
+  try {
+    return await mainnet.resolveName(name);
+  } finally {
+    mainnet.destroy();
+  }
+};
@@ -0,0 +1,89 @@
+import { ethers } from 'ethers';
+import manifest from './deployments.json';
+
+export interface Deployment {
+  chainId: number;
+  name: string;
+  yieldFarm: string;
+  rewardToken: string;
+  lpTokens: string[];
+  // Block the farm was deployed in; event scans never need to look further back
+  deployBlock: number;
+}
+
+type ManifestEntry = Partial<Omit<Deployment, 'chainId' | 'name'>>;
+
+// Networks the app knows how to talk to, keyed by chainId
+export const SUPPORTED_CHAINS: Record<number, string> = {
+  1: 'Ethereum Mainnet',
+  11155111: 'Sepolia Testnet',
+  31337: 'Anvil Local'
+};
+
+// VITE_YIELD_FARM_ADDRESS_<chainId>, VITE_REWARD_TOKEN_ADDRESS_<chainId>,
+// VITE_LP_TOKEN_ADDRESSES_<chainId> (comma separated) and VITE_DEPLOY_BLOCK_<chainId>
+const ENV_PATTERN = /^VITE_(YIELD_FARM_ADDRESS|REWARD_TOKEN_ADDRESS|LP_TOKEN_ADDRESSES|DEPLOY_BLOCK)_(\d+)$/;
+
+const readEnvEntries = (): Record<number, ManifestEntry> => {
+  const entries: Record<number, ManifestEntry> = {};
+
+  Object.entries(import.meta.env).forEach(([key, value]) => {
+    const match = ENV_PATTERN.exec(key);
+    if (!match || typeof value !== 'string' || value === '') return;
+
+    const chainId = Number(match[2]);
+    const entry = (entries[chainId] = entries[chainId] || {});
+    switch (match[1]) {
+      case 'YIELD_FARM_ADDRESS':
+        entry.yieldFarm = value;
+        break;
+      case 'REWARD_TOKEN_ADDRESS':
+        entry.rewardToken = value;
+        break;
+      case 'LP_TOKEN_ADDRESSES':
+        entry.lpTokens = value.split(',').map((address) => address.trim()).filter(Boolean);
+        break;
+      case 'DEPLOY_BLOCK':
+        entry.deployBlock = Number(value);
+        break;
+    }
+  });
+
+  return entries;
+};
+
+const buildRegistry = (): Record<number, Deployment> => {
+  const manifestEntries = manifest as Record<string, ManifestEntry>;
+  const envEntries = readEnvEntries();
+  const chainIds = new Set([...Object.keys(manifestEntries).map(Number), ...Object.keys(envEntries).map(Number)]);
+  const registry: Record<number, Deployment> = {};
+
+  chainIds.forEach((chainId) => {
+    // Env vars win over the generated manifest so a single address can be overridden locally
+    const entry = { ...manifestEntries[chainId], ...envEntries[chainId] };
+
+    if (!entry.yieldFarm || !ethers.isAddress(entry.yieldFarm) || !entry.rewardToken || !ethers.isAddress(entry.rewardToken)) {
+      console.warn(`Ignoring incomplete deployment for chain ${chainId}`);
+      return;
+    }
+
+    registry[chainId] = {
+      chainId,
+      name: SUPPORTED_CHAINS[chainId] || `Chain ${chainId}`,
+      yieldFarm: entry.yieldFarm,
+      rewardToken: entry.rewardToken,
+      lpTokens: (entry.lpTokens || []).filter((address) => ethers.isAddress(address)),
+      deployBlock: entry.deployBlock || 0
+    };
+  });
+
+  return registry;
+};
+
+export const DEPLOYMENTS: Record<number, Deployment> = buildRegistry();
+
+export const getDeployment = (chainId: number | bigint): Deployment | null =>
+  DEPLOYMENTS[Number(chainId)] || null;
+
+export const getChainName = (chainId: number | bigint): string =>
+  SUPPORTED_CHAINS[Number(chainId)] || `Chain ${chainId}`;
@@ -0,0 +1,49 @@
+import { ContractRunner } from 'ethers';
+import {
+  CachedPriceSource,
+  ChainlinkPriceSource,
+  ConstantPriceSource,
+  FallbackPriceSource,
+  PriceSource,
+  UniswapV2PairPriceSource
+} from '@yieldfarm/sdk';
+
+// VITE_TOKEN_PRICE_<token>=<usd> pins a price (local dev, tokens without a market);
+// VITE_CHAINLINK_FEED_<token>=<aggregator> reads it from a Chainlink USD feed.
+const ENV_PATTERN = /^VITE_(TOKEN_PRICE|CHAINLINK_FEED)_(0x[0-9a-fA-F]{40})$/;
+
+const readEnv = () => {
+  const prices: Record<string, number> = {};
+  const feeds: Record<string, string> = {};
+
+  Object.entries(import.meta.env).forEach(([key, value]) => {
+    const match = ENV_PATTERN.exec(key);
+    if (!match || typeof value !== 'string' || value === '') return;
+
+    if (match[1] === 'TOKEN_PRICE' && Number.isFinite(Number(value))) {
+      prices[match[2]] = Number(value);
+    } else if (match[1] === 'CHAINLINK_FEED') {
+      feeds[match[2]] = value;
+    }
+  });
+
+  return { prices, feeds };
+};
+
+const { prices: TOKEN_PRICES, feeds: CHAINLINK_FEEDS } = readEnv();
+
+// Feeds older than a day are treated as broken rather than shown
+const MAX_FEED_AGE_SECONDS = 24 * 60 * 60;
+
+/**
+ * Pinned prices first, then Chainlink, then Uniswap V2 reserve pricing for LP tokens
+ * whose underlying tokens the first two can price. Tokens none of them know stay unpriced.
+ */
+export const createPriceSource = (runner: ContractRunner): PriceSource => {
+  const tokenPrices = new FallbackPriceSource([
+    new ConstantPriceSource(TOKEN_PRICES),
+    new ChainlinkPriceSource(runner, CHAINLINK_FEEDS, { maxAgeSeconds: MAX_FEED_AGE_SECONDS })
+  ]);
+
+  return new CachedPriceSource(new FallbackPriceSource([tokenPrices, new UniswapV2PairPriceSource(runner, tokenPrices)]));
+};
@@ -0,0 +1,27 @@
+// Shareable read-only portfolio of any account: /address/<0x address or ENS name>
+const ADDRESS_ROUTE = /^\/address\/([^/]+)\/?$/;
+
+/** The address or ENS name in an `/address/:addr` path, or null for any other path or a malformed escape. */
+export const parseAddressRoute = (pathname: string): string | null => {
+  const match = ADDRESS_ROUTE.exec(pathname);
+  if (!match) return null;
+  try {
+    return decodeURIComponent(match[1]);
+  } catch {
+    return null;
+  }
+};
+
+// The trailing slash matters for ENS names: servers treat a path ending in `.eth` as a file, and Vite's
+// dev server skips its index.html fallback for one
+export const getAddressPath = (addressOrName: string) => `/address/${encodeURIComponent(addressOrName)}/`;
+
+/** Moves the address bar to `path` without reloading; `replace` keeps the current history entry. */
+export const navigate = (path: string, replace = false) => {
+  if (window.location.pathname === path) return;
+  if (replace) {
+    window.history.replaceState(null, '', path);
+  } else {
+    window.history.pushState(null, '', path);
+  }
+};
@@ -0,0 +1,108 @@
+import detectEthereumProvider from '@metamask/detect-provider';
+import { getRpcUrl, getTargetChainId } from '../config/chains';
+import { DEPLOYMENTS } from '../config/deployments';
+import { InjectedProvider } from './session';
+
+export interface WalletConnector {
+  // 'eip6963:<rdns>', 'injected', 'walletconnect' or 'coinbase'
+  id: string;
+  name: string;
+  // Image URL (EIP-6963 wallets announce a data URI) or an emoji
+  icon: string;
+  // Browser extension wallets; the first one is used when no connector was chosen yet
+  injected: boolean;
+  // Loads the EIP-1193 provider without prompting; eth_requestAccounts opens the wallet's own UI
+  getProvider(): Promise<InjectedProvider>;
+}
+
+// EIP-6963 provider announcement
+interface ProviderDetail {
+  info: { uuid: string; name: string; icon: string; rdns: string };
+  provider: InjectedProvider;
+}
+
+// The connector the user picked, a `watch:<address>` entry, or 'none' after an explicit disconnect
+const CONNECTOR_KEY = 'yieldfarm-wallet-connector';
+
+// Wallets answer eip6963:requestProvider synchronously; the wait only covers slow content scripts
+const DISCOVERY_WINDOW_MS = 300;
+
+export const loadConnectorChoice = (): string | null => localStorage.getItem(CONNECTOR_KEY);
+
+export const saveConnectorChoice = (choice: string) => localStorage.setItem(CONNECTOR_KEY, choice);
+
+/**
+ * Collects every extension wallet through EIP-6963, so users with several installed pick one instead of
+ * whichever won the race for window.ethereum. Falls back to window.ethereum for wallets without EIP-6963.
+ */
+const discoverInjectedConnectors = async (): Promise<WalletConnector[]> => {
+  const announced = new Map<string, ProviderDetail>();
+  const onAnnounce = (event: Event) => {
+    const detail = (event as CustomEvent<ProviderDetail>).detail;
+    announced.set(detail.info.rdns, detail);
+  };
+
+  window.addEventListener('eip6963:announceProvider', onAnnounce);
+  window.dispatchEvent(new Event('eip6963:requestProvider'));
+  await new Promise((resolve) => setTimeout(resolve, DISCOVERY_WINDOW_MS));
+  window.removeEventListener('eip6963:announceProvider', onAnnounce);
+
+  if (announced.size > 0) {
+    return [...announced.values()].map(({ info, provider }) => ({
+      id: `eip6963:${info.rdns}`,
+      name: info.name,
+      icon: info.icon,
+      injected: true,
+      getProvider: async () => provider
+    }));
+  }
+
+  const legacy = await detectEthereumProvider<InjectedProvider>({ silent: true });
+  return legacy ? [{ id: 'injected', name: 'Browser wallet', icon: '🦊', injected: true, getProvider: async () => legacy }] : [];
+};
+
+// Chains the app has a deployment on, target first
+const getAppChainIds = () => [...new Set([getTargetChainId(), ...Object.keys(DEPLOYMENTS).map(Number)])];
+
+// Needs a project id from cloud.reown.com; the SDK is only downloaded when the connector is used
+const createWalletConnectConnector = (projectId: string): WalletConnector => ({
+  id: 'walletconnect',
+  name: 'WalletConnect',
+  icon: '🔗',
+  injected: false,
+  getProvider: async () => {
+    const { EthereumProvider } = await import('@walletconnect/ethereum-provider');
+    const chains = getAppChainIds();
+    const rpcMap = Object.fromEntries(chains.flatMap((chainId) => (getRpcUrl(chainId) ? [[chainId, getRpcUrl(chainId)!]] : [])));
+    // Restores the previous pairing from its own storage; the QR modal only opens on eth_requestAccounts
+    return EthereumProvider.init({
+      projectId,
+      optionalChains: [chains[0], ...chains.slice(1)],
+      rpcMap,
+      showQrModal: true,
+      metadata: { name: 'YieldFarm', description: 'Stake LP tokens and earn YFT', url: window.location.origin, icons: [] }
+    });
+  }
+});
+
+const createCoinbaseConnector = (): WalletConnector => ({
+  id: 'coinbase',
+  name: 'Coinbase Wallet',
+  icon: '🔵',
+  injected: false,
+  getProvider: async () => {
+    const { createCoinbaseWalletSDK } = await import('@coinbase/wallet-sdk');
+    const sdk = createCoinbaseWalletSDK({ appName: 'YieldFarm', appChainIds: getAppChainIds() });
+    return sdk.getProvider();
+  }
+});
+
+/** Every connector available in this browser and build, extension wallets first. */
+export const loadConnectors = async (): Promise<WalletConnector[]> => {
+  const projectId = import.meta.env.VITE_WALLETCONNECT_PROJECT_ID;
+  return [
+    ...(await discoverInjectedConnectors()),
+    ...(typeof projectId === 'string' && projectId !== '' ? [createWalletConnectConnector(projectId)] : []),
+    createCoinbaseConnector()
+  ];
+};
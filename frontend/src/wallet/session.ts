@@ -0,0 +1,127 @@
+import { ethers } from 'ethers';
+
+// EIP-1193 provider events and their payloads
+interface ProviderEvents {
+  accountsChanged: string[];
+  // Hex chain id
+  chainChanged: string;
+  connect: { chainId: string };
+  disconnect: { code: number; message: string };
+}
+
+// The injected EIP-1193 provider, with the event methods every wallet implements
+export type InjectedProvider = ethers.Eip1193Provider & {
+  on<K extends keyof ProviderEvents>(event: K, listener: (payload: ProviderEvents[K]) => void): unknown;
+  removeListener<K extends keyof ProviderEvents>(event: K, listener: (payload: ProviderEvents[K]) => void): unknown;
+};
+
+export interface WalletState {
+  // Bound to `chainId`; a chain switch always comes with a new provider
+  provider: ethers.JsonRpcApiProvider;
+  chainId: number;
+  // Empty while no account is connected
+  account: string;
+  // Null while disconnected, and for a watched address
+  signer: ethers.JsonRpcSigner | null;
+}
+
+type WalletListener = (state: WalletState, previous: WalletState | null) => void | Promise<void>;
+
+/**
+ * Owns the connection to a wallet's EIP-1193 provider. Every account switch, chain switch, connect and
+ * disconnect produces a fresh WalletState with its own provider and signer, so nothing keeps reading
+ * from the previous chain or signing as the previous account. Listeners run one state at a time, in order.
+ */
+export class WalletSession {
+  private state: WalletState | null = null;
+  private readonly listeners = new Set<WalletListener>();
+  private readonly unsubscribers: (() => void)[] = [];
+  // Wallet events often arrive in bursts (accountsChanged + chainChanged), so loads are queued
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(readonly ethereum: InjectedProvider) {
+    this.listen('accountsChanged', () => this.reload());
+    this.listen('chainChanged', () => this.reload());
+    // EIP-1193 connect/disconnect are about the wallet reaching the chain, not about this site
+    this.listen('connect', () => this.reload());
+    this.listen('disconnect', () => this.reload());
+  }
+
+  get current(): WalletState | null {
+    return this.state;
+  }
+
+  onChange(listener: WalletListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Picks up an existing connection without prompting. */
+  restore(): Promise<WalletState> {
+    return this.enqueue(() => this.load('eth_accounts'));
+  }
+
+  /** Prompts the wallet for an account. */
+  connect(): Promise<WalletState> {
+    return this.enqueue(() => this.load('eth_requestAccounts'));
+  }
+
+  /**
+   * Forgets the account. WalletConnect and Coinbase Wallet end their session; extension wallets can
+   * only be asked to revoke the site's permission, which not all of them support. Destroy the session
+   * afterwards so later wallet events do not reconnect it.
+   */
+  disconnect(): Promise<WalletState> {
+    return this.enqueue(async () => {
+      const { disconnect } = this.ethereum as { disconnect?: () => Promise<void> };
+      const ended = disconnect
+        ? disconnect.call(this.ethereum)
+        : this.ethereum.request({ method: 'wallet_revokePermissions', params: [{ eth_accounts: {} }] });
+      await ended.catch(() => undefined);
+      return this.load(null);
+    });
+  }
+
+  destroy(): void {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers.length = 0;
+    this.listeners.clear();
+  }
+
+  private listen<K extends keyof ProviderEvents>(event: K, listener: (payload: ProviderEvents[K]) => void) {
+    this.ethereum.on(event, listener);
+    this.unsubscribers.push(() => this.ethereum.removeListener(event, listener));
+  }
+
+  private reload() {
+    this.enqueue(() => this.load('eth_accounts')).catch((error) => console.error('Failed to reload the wallet:', error));
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async load(method: 'eth_accounts' | 'eth_requestAccounts' | null): Promise<WalletState> {
+    const provider = new ethers.BrowserProvider(this.ethereum);
+    const accounts: string[] = method ? await provider.send(method, []) : [];
+    const { chainId } = await provider.getNetwork();
+    const account = accounts.length > 0 ? ethers.getAddress(accounts[0]) : '';
+
+    const previous = this.state;
+    // MetaMask repeats accountsChanged on unlock; nothing to rebuild when neither account nor chain moved
+    if (previous && previous.account === account && previous.chainId === Number(chainId)) {
+      return previous;
+    }
+
+    const state = { provider, chainId: Number(chainId), account, signer: account ? await provider.getSigner(account) : null };
+    this.state = state;
+    for (const listener of this.listeners) {
+      await listener(state, previous);
+    }
+    return state;
+  }
+}
@@ -1,8 +1,16 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
+import { fileURLToPath } from 'node:url';
 
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    // Bundle the SDK from source so it does not need a separate build step
+    alias: {
+      '@yieldfarm/sdk': fileURLToPath(new URL('../sdk/src/index.ts', import.meta.url)),
+    },
+    dedupe: ['ethers'],
+  },
   server: {
     port: 3000,
   },
@@ -0,0 +1,91 @@
+import { formatUnits, Provider } from 'ethers';
+import { EmissionSchedule, getMultiplier, poolRewardPerBlock } from './math.js';
+
+export const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+export const DEFAULT_BLOCK_TIME = 12;
+
+export interface PoolAprInput {
+  pid: number;
+  allocPoint: bigint;
+  totalStaked: bigint;
+  lpDecimals: number;
+}
+
+export interface AprOptions {
+  currentBlock: bigint;
+  // Average seconds per block, see estimateBlockTime
+  blockTime: number;
+  // USD prices; leave undefined when unknown and the rates come back null
+  rewardTokenPrice?: number;
+  lpTokenPrice?: number;
+  rewardDecimals?: number;
+  // Compounding periods per year used to turn APR into APY; defaults to daily
+  compoundsPerYear?: number;
+}
+
+export interface PoolApr {
+  pid: number;
+  // Reward tokens emitted to the pool per block, before the bonus multiplier
+  rewardPerBlock: bigint;
+  bonusActive: boolean;
+  bonusBlocksRemaining: bigint;
+  // Rates as fractions (0.25 = 25%); null when prices are unknown or nothing is staked
+  bonusApr: number | null;
+  postBonusApr: number | null;
+  // Expected over the next year, accounting for the bonus period running out part-way through
+  apr: number | null;
+  apy: number | null;
+}
+
+export const aprToApy = (apr: number, compoundsPerYear = 365): number =>
+  Math.pow(1 + apr / compoundsPerYear, compoundsPerYear) - 1;
+
+/**
+ * Derives a pool's reward rate from the farm's emission parameters.
+ *
+ * Yearly rewards are `poolRewardPerBlock * multiplier` over a year's worth of blocks, valued at
+ * `rewardTokenPrice` and divided by the USD value of `totalStaked`.
+ */
+export const computePoolApr = (schedule: EmissionSchedule, pool: PoolAprInput, options: AprOptions): PoolApr => {
+  const perBlock = poolRewardPerBlock(pool.allocPoint, schedule);
+  const blocksPerYear = BigInt(Math.floor(SECONDS_PER_YEAR / options.blockTime));
+  const bonusBlocksRemaining = schedule.bonusEndBlock > options.currentBlock ? schedule.bonusEndBlock - options.currentBlock : 0n;
+
+  const result: PoolApr = {
+    pid: pool.pid,
+    rewardPerBlock: perBlock,
+    bonusActive: bonusBlocksRemaining > 0n,
+    bonusBlocksRemaining,
+    bonusApr: null,
+    postBonusApr: null,
+    apr: null,
+    apy: null
+  };
+
+  if (options.rewardTokenPrice === undefined || options.lpTokenPrice === undefined || pool.totalStaked === 0n) {
+    return result;
+  }
+
+  const stakedValue = Number(formatUnits(pool.totalStaked, pool.lpDecimals)) * options.lpTokenPrice;
+  if (stakedValue === 0) return result;
+
+  const yearlyRate = (multiplier: bigint) =>
+    (Number(formatUnits(perBlock * multiplier, options.rewardDecimals ?? 18)) * options.rewardTokenPrice!) / stakedValue;
+
+  result.bonusApr = yearlyRate(blocksPerYear * schedule.bonusMultiplier);
+  result.postBonusApr = yearlyRate(blocksPerYear);
+  result.apr = yearlyRate(getMultiplier(options.currentBlock, options.currentBlock + blocksPerYear, schedule));
+  result.apy = aprToApy(result.apr, options.compoundsPerYear);
+  return result;
+};
+
+/** Average seconds per block over the last `sampleSize` blocks, falling back to DEFAULT_BLOCK_TIME. */
+export const estimateBlockTime = async (provider: Provider, sampleSize = 1000): Promise<number> => {
+  const latest = await provider.getBlock('latest');
+  if (!latest || latest.number === 0) return DEFAULT_BLOCK_TIME;
+
+  const earlier = await provider.getBlock(Math.max(0, latest.number - sampleSize));
+  if (!earlier || latest.timestamp <= earlier.timestamp) return DEFAULT_BLOCK_TIME;
+
+  return (latest.timestamp - earlier.timestamp) / (latest.number - earlier.number);
+};
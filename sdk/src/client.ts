@@ -0,0 +1,377 @@
+import { BigNumberish, ContractRunner, ContractTransactionResponse, MaxUint256, Signature, Signer, TypedDataDomain } from 'ethers';
+import {
+  ERC20,
+  ERC20__factory,
+  IERC20Permit__factory,
+  YieldFarm,
+  YieldFarm__factory,
+  YieldToken,
+  YieldToken__factory
+} from './contracts/index.js';
+import { pendingRewardAt } from './math.js';
+import { ApprovalStrategy, matchPermitDomain, PERMIT_TTL, PERMIT_TYPES } from './permit.js';
+import { FarmInfo, Pool, UserPosition } from './types.js';
+import { StakeLimits } from './validation.js';
+
+/**
+ * Read and write access to a deployed YieldFarm.
+ *
+ * Reads work with any provider; writes need the client to be constructed with (or
+ * `connect`ed to) a signer. Token metadata and contract wrappers are cached per client.
+ */
+export class YieldFarmClient {
+  readonly address: string;
+  readonly runner: ContractRunner;
+  readonly farm: YieldFarm;
+
+  private readonly lpTokens = new Map<string, ERC20>();
+  private readonly tokenMeta = new Map<string, Promise<{ symbol: string; decimals: number }>>();
+  private rewardToken?: Promise<YieldToken>;
+
+  constructor(address: string, runner: ContractRunner) {
+    this.address = address;
+    this.runner = runner;
+    this.farm = YieldFarm__factory.connect(address, runner);
+  }
+
+  /** Returns a client for the same farm using a different provider or signer. */
+  connect(runner: ContractRunner): YieldFarmClient {
+    return new YieldFarmClient(this.address, runner);
+  }
+
+  async getFarmInfo(): Promise<FarmInfo> {
+    const [rewardToken, rewardPerBlock, startBlock, bonusEndBlock, bonusMultiplier, totalAllocPoint, poolCount] =
+      await Promise.all([
+        this.farm.rewardToken(),
+        this.farm.rewardPerBlock(),
+        this.farm.startBlock(),
+        this.farm.bonusEndBlock(),
+        this.farm.BONUS_MULTIPLIER(),
+        this.farm.totalAllocPoint(),
+        this.farm.poolLength()
+      ]);
+
+    return { rewardToken, rewardPerBlock, startBlock, bonusEndBlock, bonusMultiplier, totalAllocPoint, poolCount: Number(poolCount) };
+  }
+
+  async getOwner(): Promise<string> {
+    return this.farm.owner();
+  }
+
+  async isPaused(): Promise<boolean> {
+    return this.farm.paused();
+  }
+
+  /**
+   * Calls `listener` with the new state whenever the owner pauses or unpauses the farm.
+   * Needs a runner with a provider that supports subscriptions; returns an unsubscribe function.
+   */
+  onPausedChange(listener: (paused: boolean) => void): () => void {
+    const onPaused = () => listener(true);
+    const onUnpaused = () => listener(false);
+    const paused = this.farm.getEvent('Paused');
+    const unpaused = this.farm.getEvent('Unpaused');
+
+    void this.farm.on(paused, onPaused);
+    void this.farm.on(unpaused, onUnpaused);
+    return () => {
+      void this.farm.off(paused, onPaused);
+      void this.farm.off(unpaused, onUnpaused);
+    };
+  }
+
+  async getPoolCount(): Promise<number> {
+    return Number(await this.farm.poolLength());
+  }
+
+  async getPool(pid: number): Promise<Pool> {
+    const info = await this.farm.getPoolInfo(pid);
+    const { symbol, decimals } = await this.getTokenMeta(info.lpToken, `LP #${pid}`);
+
+    return {
+      pid,
+      lpToken: info.lpToken,
+      symbol,
+      decimals,
+      allocPoint: info.allocPoint,
+      lastRewardBlock: info.lastRewardBlock,
+      accTokenPerShare: info.accTokenPerShare,
+      totalStaked: info.totalStaked,
+      minStakeAmount: info.minStakeAmount,
+      maxStakeAmount: info.maxStakeAmount
+    };
+  }
+
+  async getPools(): Promise<Pool[]> {
+    const count = await this.getPoolCount();
+    return Promise.all(Array.from({ length: count }, (_, pid) => this.getPool(pid)));
+  }
+
+  async pendingReward(pid: number, user: string): Promise<bigint> {
+    return this.farm.pendingReward(pid, user);
+  }
+
+  /**
+   * Pending reward a transaction by `user` mined in `blockNumber` would settle (harvest, withdraw) or
+   * forfeit (emergencyWithdraw). pendingReward() read at the previous block stops one block short,
+   * so this replays the contract math on that block's state; earlier transactions in the same block
+   * that touch the pool are not accounted for.
+   */
+  async pendingRewardInBlock(pid: number, user: string, blockNumber: number): Promise<bigint> {
+    const overrides = { blockTag: blockNumber - 1 };
+    const [rewardPerBlock, bonusEndBlock, bonusMultiplier, totalAllocPoint, pool, position] = await Promise.all([
+      this.farm.rewardPerBlock(overrides),
+      this.farm.bonusEndBlock(overrides),
+      this.farm.BONUS_MULTIPLIER(overrides),
+      this.farm.totalAllocPoint(overrides),
+      this.farm.getPoolInfo(pid, overrides),
+      this.farm.getUserInfo(pid, user, overrides)
+    ]);
+
+    return pendingRewardAt(pool, position, { rewardPerBlock, bonusEndBlock, bonusMultiplier, totalAllocPoint }, BigInt(blockNumber));
+  }
+
+  async getUserPosition(pid: number, user: string): Promise<UserPosition> {
+    const [info, pendingReward] = await Promise.all([this.farm.getUserInfo(pid, user), this.farm.pendingReward(pid, user)]);
+
+    return {
+      pid,
+      user,
+      amount: info.amount,
+      rewardDebt: info.rewardDebt,
+      pendingRewards: info.pendingRewards,
+      lastStakeTime: info.lastStakeTime,
+      pendingReward
+    };
+  }
+
+  async getUserPositions(user: string): Promise<UserPosition[]> {
+    const count = await this.getPoolCount();
+    return Promise.all(Array.from({ length: count }, (_, pid) => this.getUserPosition(pid, user)));
+  }
+
+  /** ERC20 wrapper for an LP token, bound to this client's runner. */
+  getLpToken(address: string): ERC20 {
+    const key = address.toLowerCase();
+    let token = this.lpTokens.get(key);
+    if (!token) {
+      token = ERC20__factory.connect(address, this.runner);
+      this.lpTokens.set(key, token);
+    }
+    return token;
+  }
+
+  async getRewardToken(): Promise<YieldToken> {
+    if (!this.rewardToken) {
+      const pending = this.farm.rewardToken().then((address) => YieldToken__factory.connect(address, this.runner));
+      // Retry on the next call rather than caching a failed lookup
+      pending.catch(() => {
+        if (this.rewardToken === pending) this.rewardToken = undefined;
+      });
+      this.rewardToken = pending;
+    }
+    return this.rewardToken;
+  }
+
+  async getLpBalance(pid: number, owner: string): Promise<bigint> {
+    const { lpToken } = await this.farm.getPoolInfo(pid);
+    return this.getLpToken(lpToken).balanceOf(owner);
+  }
+
+  async getRewardBalance(owner: string): Promise<bigint> {
+    return (await this.getRewardToken()).balanceOf(owner);
+  }
+
+  /** Amount of the pool's LP token the farm may currently pull from `owner`. */
+  async getAllowance(pid: number, owner: string): Promise<bigint> {
+    const { lpToken } = await this.farm.getPoolInfo(pid);
+    return this.getLpToken(lpToken).allowance(owner, this.address);
+  }
+
+  async approve(pid: number, amount: BigNumberish = MaxUint256): Promise<ContractTransactionResponse> {
+    this.requireSigner('approve');
+    const { lpToken } = await this.farm.getPoolInfo(pid);
+    return this.getLpToken(lpToken).approve(this.address, amount);
+  }
+
+  async revokeAllowance(pid: number): Promise<ContractTransactionResponse> {
+    return this.approve(pid, 0n);
+  }
+
+  /**
+   * Raises the signer's allowance to cover `amount` when it is lower, using `strategy`.
+   * Resolves to the approval or permit transaction, or null when none was needed.
+   */
+  async ensureAllowance(pid: number, amount: bigint, strategy: ApprovalStrategy = 'exact'): Promise<ContractTransactionResponse | null> {
+    const owner = await this.getSignerAddress('ensureAllowance');
+    const allowance = await this.getAllowance(pid, owner);
+    if (allowance >= amount) return null;
+
+    switch (strategy) {
+      case 'unlimited':
+        return this.approve(pid, MaxUint256);
+      case 'permit':
+        return this.permit(pid, amount);
+      default:
+        return this.approve(pid, amount);
+    }
+  }
+
+  /** EIP-712 domain of the pool's LP token, or null when the token does not implement EIP-2612. */
+  async getPermitDomain(pid: number): Promise<TypedDataDomain | null> {
+    const { lpToken } = await this.farm.getPoolInfo(pid);
+    try {
+      const [name, domainSeparator, { chainId }] = await Promise.all([
+        this.getLpToken(lpToken).name(),
+        IERC20Permit__factory.connect(lpToken, this.runner).DOMAIN_SEPARATOR(),
+        this.runner.provider!.getNetwork()
+      ]);
+      return matchPermitDomain(name, chainId, lpToken, domainSeparator);
+    } catch {
+      return null;
+    }
+  }
+
+  async supportsPermit(pid: number): Promise<boolean> {
+    return (await this.getPermitDomain(pid)) !== null;
+  }
+
+  /**
+   * Signs an EIP-2612 permit letting the farm pull `amount` and submits it through the LP token's
+   * permit(). YieldFarm has no depositWithPermit, so the signature still goes on chain in its own
+   * transaction; the wallet shows the exact amount and deadline instead of a raw approve call.
+   */
+  async permit(pid: number, amount: bigint, deadline?: bigint): Promise<ContractTransactionResponse> {
+    const owner = await this.getSignerAddress('permit');
+    const domain = await this.getPermitDomain(pid);
+    if (!domain) {
+      throw new Error(`The LP token of pool ${pid} does not support EIP-2612 permit`);
+    }
+
+    const token = IERC20Permit__factory.connect(domain.verifyingContract!, this.runner);
+    const [nonce, latest] = await Promise.all([token.nonces(owner), this.runner.provider!.getBlock('latest')]);
+    // Block time rather than the local clock, which can be far off on a dev chain
+    const expiry = deadline ?? BigInt(latest!.timestamp + PERMIT_TTL);
+    const signature = Signature.from(
+      await (this.runner as Signer).signTypedData(domain, PERMIT_TYPES, {
+        owner,
+        spender: this.address,
+        value: amount,
+        nonce,
+        deadline: expiry
+      })
+    );
+    return token.permit(owner, this.address, amount, expiry, signature.v, signature.r, signature.s);
+  }
+
+  /** Everything validateStake needs for `owner` in pool `pid`. */
+  async getStakeLimits(pid: number, owner: string): Promise<StakeLimits> {
+    const info = await this.farm.getPoolInfo(pid);
+    const token = this.getLpToken(info.lpToken);
+    const [position, balance, allowance] = await Promise.all([
+      this.farm.getUserInfo(pid, owner),
+      token.balanceOf(owner),
+      token.allowance(owner, this.address)
+    ]);
+
+    return {
+      minStakeAmount: info.minStakeAmount,
+      maxStakeAmount: info.maxStakeAmount,
+      staked: position.amount,
+      balance,
+      allowance
+    };
+  }
+
+  /** Runs deposit as an eth_call from the signer; rejects with the revert the real transaction would hit. */
+  async simulateDeposit(pid: number, amount: BigNumberish): Promise<void> {
+    this.requireSigner('simulateDeposit');
+    await this.farm.deposit.staticCall(pid, amount);
+  }
+
+  async deposit(pid: number, amount: BigNumberish): Promise<ContractTransactionResponse> {
+    this.requireSigner('deposit');
+    return this.farm.deposit(pid, amount);
+  }
+
+  async withdraw(pid: number, amount: BigNumberish): Promise<ContractTransactionResponse> {
+    this.requireSigner('withdraw');
+    return this.farm.withdraw(pid, amount);
+  }
+
+  async harvest(pid: number): Promise<ContractTransactionResponse> {
+    this.requireSigner('harvest');
+    return this.farm.harvest(pid);
+  }
+
+  /** Withdraws the whole stake without rewards; pending rewards are forfeited. */
+  async emergencyWithdraw(pid: number): Promise<ContractTransactionResponse> {
+    this.requireSigner('emergencyWithdraw');
+    return this.farm.emergencyWithdraw(pid);
+  }
+
+  /** Settles accrued rewards into every pool's accTokenPerShare. Anyone may call it. */
+  async massUpdatePools(): Promise<ContractTransactionResponse> {
+    this.requireSigner('massUpdatePools');
+    return this.farm.massUpdatePools();
+  }
+
+  // Owner-only administration; the contract reverts for any other signer
+
+  /** Adds a pool; `withUpdate` settles every pool's rewards first so the new alloc points do not apply retroactively. */
+  async addPool(
+    allocPoint: BigNumberish,
+    lpToken: string,
+    minStakeAmount: BigNumberish,
+    maxStakeAmount: BigNumberish,
+    withUpdate = true
+  ): Promise<ContractTransactionResponse> {
+    this.requireSigner('addPool');
+    return this.farm.addPool(allocPoint, lpToken, minStakeAmount, maxStakeAmount, withUpdate);
+  }
+
+  async setPool(pid: number, allocPoint: BigNumberish, withUpdate = true): Promise<ContractTransactionResponse> {
+    this.requireSigner('setPool');
+    return this.farm.setPool(pid, allocPoint, withUpdate);
+  }
+
+  async updateRewardPerBlock(rewardPerBlock: BigNumberish): Promise<ContractTransactionResponse> {
+    this.requireSigner('updateRewardPerBlock');
+    return this.farm.updateRewardPerBlock(rewardPerBlock);
+  }
+
+  async pause(): Promise<ContractTransactionResponse> {
+    this.requireSigner('pause');
+    return this.farm.pause();
+  }
+
+  async unpause(): Promise<ContractTransactionResponse> {
+    this.requireSigner('unpause');
+    return this.farm.unpause();
+  }
+
+  private getTokenMeta(address: string, fallbackSymbol: string) {
+    const key = address.toLowerCase();
+    let meta = this.tokenMeta.get(key);
+    if (!meta) {
+      const token = this.getLpToken(address);
+      meta = Promise.all([
+        token.symbol().catch(() => fallbackSymbol),
+        token.decimals().catch(() => 18n)
+      ]).then(([symbol, decimals]) => ({ symbol, decimals: Number(decimals) }));
+      this.tokenMeta.set(key, meta);
+    }
+    return meta;
+  }
+
+  private requireSigner(method: string) {
+    if (typeof this.runner.sendTransaction !== 'function') {
+      throw new Error(`YieldFarmClient.${method} requires a signer; construct the client with one or call connect(signer)`);
+    }
+  }
+
+  private async getSignerAddress(method: string): Promise<string> {
+    this.requireSigner(method);
+    return (this.runner as ContractRunner & { getAddress(): Promise<string> }).getAddress();
+  }
+}
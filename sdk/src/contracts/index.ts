@@ -0,0 +1,3 @@
+// Typed wrappers generated by `npm run codegen` from the Foundry artifacts in ../out
+export { ERC20__factory, IERC20Permit__factory, IMulticall3__factory, MockLPToken__factory, YieldFarm__factory, YieldToken__factory } from './types/index.js';
+export type { ERC20, IERC20Permit, IMulticall3, MockLPToken, YieldFarm, YieldToken } from './types/index.js';
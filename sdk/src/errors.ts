@@ -0,0 +1,107 @@
+import { isError } from 'ethers';
+
+export type TransactionErrorCategory =
+  | 'belowMinimum'
+  | 'aboveMaximum'
+  | 'insufficientStake'
+  | 'paused'
+  | 'notOwner'
+  | 'insufficientAllowance'
+  | 'insufficientTokenBalance'
+  | 'tokenTransferFailed'
+  | 'userRejected'
+  | 'insufficientFunds'
+  | 'outOfGas'
+  | 'unknown';
+
+export interface DecodedTransactionError {
+  category: TransactionErrorCategory;
+  // Actionable text for the user
+  message: string;
+  // Revert string when the chain supplied one
+  reason?: string;
+}
+
+// Revert strings from YieldFarm and the OpenZeppelin v4 contracts it uses, matched as substrings
+// because wallets wrap them differently ("execution reverted: ...", "reverted with reason string '...'")
+const REVERT_REASONS: [string, TransactionErrorCategory][] = [
+  ['Amount below minimum', 'belowMinimum'],
+  ['Amount exceeds maximum', 'aboveMaximum'],
+  ['Insufficient balance', 'insufficientStake'],
+  ['Pausable: paused', 'paused'],
+  ['Ownable: caller is not the owner', 'notOwner'],
+  ['ERC20: insufficient allowance', 'insufficientAllowance'],
+  ['ERC20: transfer amount exceeds balance', 'insufficientTokenBalance'],
+  ['SafeERC20:', 'tokenTransferFailed']
+];
+
+const MESSAGES: Record<TransactionErrorCategory, string> = {
+  belowMinimum: "The amount is below this pool's minimum stake. Increase it and try again.",
+  aboveMaximum: "This deposit would take your stake above the pool's maximum. Lower the amount.",
+  insufficientStake: 'You are trying to withdraw more than you have staked in this pool.',
+  paused: 'Deposits are paused by the farm owner. Withdrawals and harvests still work.',
+  notOwner: 'Only the farm owner can make this change.',
+  insufficientAllowance: 'The farm is not approved to move enough LP tokens. Approve the amount and try again.',
+  insufficientTokenBalance: 'Your wallet does not hold enough LP tokens for this amount.',
+  tokenTransferFailed: 'The token transfer failed. The LP token may not be a standard ERC-20.',
+  userRejected: 'The transaction was rejected in your wallet.',
+  insufficientFunds: 'Your wallet does not have enough ETH to pay for gas.',
+  outOfGas: 'The transaction ran out of gas. Try again with a higher gas limit.',
+  unknown: 'The transaction failed. Please try again.'
+};
+
+// EIP-1193 "User Rejected Request"
+const USER_REJECTED_CODE = 4001;
+
+// Every message-like string along the error's cause chain: ethers wraps the wallet's JSON-RPC
+// error in `info.error` or `error`, and some wallets nest the node's error once more in `data`
+export const collectMessages = (error: unknown, depth = 0): string[] => {
+  if (depth > 4 || error === null || typeof error !== 'object') {
+    return typeof error === 'string' ? [error] : [];
+  }
+  const record = error as Record<string, unknown>;
+  const own = ['reason', 'shortMessage', 'message'].map((key) => record[key]).filter((value): value is string => typeof value === 'string');
+  const nested = [record.info && (record.info as Record<string, unknown>).error, record.error, record.data, record.cause];
+  return [...own, ...nested.flatMap((value) => collectMessages(value, depth + 1))];
+};
+
+export const hasCode = (error: unknown, code: number, depth = 0): boolean => {
+  if (depth > 4 || error === null || typeof error !== 'object') return false;
+  const record = error as Record<string, unknown>;
+  if (record.code === code) return true;
+  const nested = [record.info && (record.info as Record<string, unknown>).error, record.error, record.cause];
+  return nested.some((value) => hasCode(value, code, depth + 1));
+};
+
+/**
+ * Maps a failed write (from estimateGas, the wallet prompt or a reverted receipt) to a category and an
+ * actionable message. Works on ethers errors and on raw EIP-1193 errors thrown by wallets.
+ */
+export const decodeTransactionError = (error: unknown): DecodedTransactionError => {
+  const decoded = (category: TransactionErrorCategory, reason?: string): DecodedTransactionError =>
+    reason === undefined ? { category, message: MESSAGES[category] } : { category, message: MESSAGES[category], reason };
+
+  if (isError(error, 'ACTION_REJECTED') || hasCode(error, USER_REJECTED_CODE)) {
+    return decoded('userRejected');
+  }
+  if (isError(error, 'INSUFFICIENT_FUNDS')) {
+    return decoded('insufficientFunds');
+  }
+
+  const messages = collectMessages(error);
+  const reason = isError(error, 'CALL_EXCEPTION') && error.reason ? error.reason : undefined;
+  for (const [needle, category] of REVERT_REASONS) {
+    if (messages.some((message) => message.includes(needle))) {
+      return decoded(category, reason ?? needle);
+    }
+  }
+
+  const lower = messages.map((message) => message.toLowerCase());
+  if (lower.some((message) => message.includes('insufficient funds'))) {
+    return decoded('insufficientFunds');
+  }
+  if (lower.some((message) => message.includes('out of gas') || message.includes('intrinsic gas too low'))) {
+    return decoded('outOfGas');
+  }
+  return decoded('unknown', reason);
+};
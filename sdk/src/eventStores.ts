@@ -0,0 +1,97 @@
+import { EventStore, FarmEvent, FarmEventFilter, filterEvents } from './indexer.js';
+
+/** Keeps events in memory; for tests and short-lived scripts. */
+export class MemoryEventStore implements EventStore {
+  private cursor: number | null = null;
+  private readonly events = new Map<string, FarmEvent>();
+
+  async getCursor(): Promise<number | null> {
+    return this.cursor;
+  }
+
+  async setCursor(blockNumber: number): Promise<void> {
+    this.cursor = blockNumber;
+  }
+
+  async putEvents(events: FarmEvent[]): Promise<void> {
+    events.forEach((event) => this.events.set(event.id, event));
+  }
+
+  async removeFrom(blockNumber: number): Promise<void> {
+    this.events.forEach((event, id) => {
+      if (event.blockNumber >= blockNumber) this.events.delete(id);
+    });
+  }
+
+  async getEvents(filter?: FarmEventFilter): Promise<FarmEvent[]> {
+    return filterEvents([...this.events.values()], filter);
+  }
+}
+
+const EVENTS = 'events';
+const META = 'meta';
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Persists events in the browser's IndexedDB. Use one database per chain and farm,
+ * e.g. `yieldfarm-events-31337-0x9fe4...`.
+ */
+export class IndexedDbEventStore implements EventStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly name: string) {}
+
+  async getCursor(): Promise<number | null> {
+    const value = await this.run(META, 'readonly', (store) => store.get('cursor'));
+    return value === undefined ? null : (value as number);
+  }
+
+  async setCursor(blockNumber: number): Promise<void> {
+    await this.run(META, 'readwrite', (store) => store.put(blockNumber, 'cursor'));
+  }
+
+  async putEvents(events: FarmEvent[]): Promise<void> {
+    if (events.length === 0) return;
+    const db = await this.open();
+    const tx = db.transaction(EVENTS, 'readwrite');
+    events.forEach((event) => tx.objectStore(EVENTS).put(event));
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  async removeFrom(blockNumber: number): Promise<void> {
+    await this.run(EVENTS, 'readwrite', (store) => store.index('blockNumber').getAllKeys(IDBKeyRange.lowerBound(blockNumber)))
+      .then((keys) => Promise.all(keys.map((key) => this.run(EVENTS, 'readwrite', (store) => store.delete(key)))));
+  }
+
+  async getEvents(filter?: FarmEventFilter): Promise<FarmEvent[]> {
+    const range = filter?.fromBlock === undefined ? undefined : IDBKeyRange.lowerBound(filter.fromBlock);
+    const events = await this.run(EVENTS, 'readonly', (store) => store.index('blockNumber').getAll(range));
+    return filterEvents(events as FarmEvent[], filter);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(this.name, 1);
+      request.onupgradeneeded = () => {
+        const events = request.result.createObjectStore(EVENTS, { keyPath: 'id' });
+        events.createIndex('blockNumber', 'blockNumber');
+        request.result.createObjectStore(META);
+      };
+      this.db = promisify(request);
+    }
+    return this.db;
+  }
+
+  private async run<T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    return promisify(action(db.transaction(storeName, mode).objectStore(storeName)));
+  }
+}
@@ -0,0 +1,90 @@
+import { ContractTransactionResponse, TransactionReceipt } from 'ethers';
+import { YieldFarmClient } from './client.js';
+import { IMulticall3__factory } from './contracts/index.js';
+
+// Canonical Multicall3 deployment, at the same address on most chains but absent from a fresh anvil
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+export interface HarvestablePool {
+  pid: number;
+  pendingReward: bigint;
+}
+
+export interface HarvestResult {
+  pid: number;
+  transactionHash: string;
+  // As reported by RewardPaid; safeRewardTransfer sends less when the reserve is short (see previewRewardPayout)
+  amount: bigint;
+}
+
+export interface HarvestAllResult {
+  harvested: HarvestResult[];
+  // Set when a harvest was rejected or reverted; the pools after it were not attempted
+  failed?: { pid: number; error: unknown };
+  remaining: number[];
+}
+
+/**
+ * Pools where `user` has rewards to harvest. The pendingReward() reads go through one Multicall3
+ * aggregate3 call when the chain has Multicall3, and one call per pool otherwise; both read a single block.
+ */
+export const findHarvestablePools = async (client: YieldFarmClient, user: string, blockNumber?: number): Promise<HarvestablePool[]> => {
+  const provider = client.runner.provider!;
+  const block = blockNumber ?? (await provider.getBlockNumber());
+  const overrides = { blockTag: block };
+  const pids = Array.from({ length: Number(await client.farm.poolLength(overrides)) }, (_, pid) => pid);
+
+  let pending: bigint[];
+  if ((await provider.getCode(MULTICALL3_ADDRESS, block)) !== '0x') {
+    const farmInterface = client.farm.interface;
+    const results = await IMulticall3__factory.connect(MULTICALL3_ADDRESS, provider).aggregate3.staticCall(
+      pids.map((pid) => ({
+        target: client.address,
+        allowFailure: false,
+        callData: farmInterface.encodeFunctionData('pendingReward', [pid, user])
+      })),
+      overrides
+    );
+    pending = results.map(({ returnData }) => farmInterface.decodeFunctionResult('pendingReward', returnData)[0]);
+  } else {
+    pending = await Promise.all(pids.map((pid) => client.farm.pendingReward(pid, user, overrides)));
+  }
+
+  return pids.map((pid) => ({ pid, pendingReward: pending[pid] })).filter(({ pendingReward }) => pendingReward > 0n);
+};
+
+/** RewardPaid events paid to `user` by this farm in `receipt`. */
+export const parseRewardPaid = (client: YieldFarmClient, receipt: TransactionReceipt, user: string): HarvestResult[] => {
+  const farmAddress = client.address.toLowerCase();
+  return receipt.logs.flatMap((log) => {
+    if (log.address.toLowerCase() !== farmAddress) return [];
+    const parsed = client.farm.interface.parseLog(log);
+    if (parsed?.name !== 'RewardPaid' || parsed.args.user.toLowerCase() !== user.toLowerCase()) return [];
+    return [{ pid: Number(parsed.args.pid), transactionHash: receipt.hash, amount: parsed.args.amount }];
+  });
+};
+
+/**
+ * Harvests every pool with pending rewards as a queue of transactions, each sent once the previous
+ * one is mined. They cannot be batched through Multicall3: harvest() pays msg.sender, which would be
+ * the Multicall3 contract rather than the user. `send` waits for a transaction; pass a
+ * TransactionTracker's track() to show the queue in a UI.
+ */
+export const harvestAll = async (
+  client: YieldFarmClient,
+  user: string,
+  send: (tx: ContractTransactionResponse, pid: number) => Promise<TransactionReceipt> = async (tx) => (await tx.wait())!
+): Promise<HarvestAllResult> => {
+  const pids = (await findHarvestablePools(client, user)).map(({ pid }) => pid);
+  const harvested: HarvestResult[] = [];
+
+  for (const [index, pid] of pids.entries()) {
+    try {
+      const receipt = await send(await client.harvest(pid), pid);
+      harvested.push(...parseRewardPaid(client, receipt, user));
+    } catch (error) {
+      return { harvested, failed: { pid, error }, remaining: pids.slice(index + 1) };
+    }
+  }
+  return { harvested, remaining: [] };
+};
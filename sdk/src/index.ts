@@ -0,0 +1,51 @@
+export { YieldFarmClient } from './client.js';
+export { aprToApy, computePoolApr, DEFAULT_BLOCK_TIME, estimateBlockTime, SECONDS_PER_YEAR } from './apr.js';
+export type { AprOptions, PoolApr, PoolAprInput } from './apr.js';
+export { decodeTransactionError } from './errors.js';
+export type { DecodedTransactionError, TransactionErrorCategory } from './errors.js';
+export { IndexedDbEventStore, MemoryEventStore } from './eventStores.js';
+export { findHarvestablePools, harvestAll, MULTICALL3_ADDRESS, parseRewardPaid } from './harvest.js';
+export type { HarvestablePool, HarvestAllResult, HarvestResult } from './harvest.js';
+export { EventIndexer, filterEvents, replayStakes } from './indexer.js';
+export type { EventIndexerOptions, EventStore, FarmEvent, FarmEventFilter, FarmEventType } from './indexer.js';
+export { ACC_TOKEN_PRECISION, getMultiplier, pendingRewardAt, poolRewardPerBlock } from './math.js';
+export type { EmissionSchedule, PoolRewardState, UserRewardState } from './math.js';
+export { PendingRewardTracker } from './pendingRewards.js';
+export type { PendingRewardDrift, PendingRewardTrackerOptions, PendingRewardUpdate } from './pendingRewards.js';
+export { matchPermitDomain, PERMIT_TTL, PERMIT_TYPES } from './permit.js';
+export type { ApprovalStrategy } from './permit.js';
+export { checkRewardReserve, estimateDepletionBlocks, previewRewardPayout } from './reserve.js';
+export type { RewardPayout, RewardReserveStatus } from './reserve.js';
+export {
+  CachedPriceSource,
+  ChainlinkPriceSource,
+  ConstantPriceSource,
+  FallbackPriceSource,
+  getPrices,
+  UniswapV2PairPriceSource
+} from './prices.js';
+export type { PriceSource } from './prices.js';
+export { FarmStreamClient, MESSAGE_CHANNELS, STREAM_CHANNELS } from './stream.js';
+export type {
+  FarmStreamOptions,
+  PoolUpdateData,
+  StreamChannel,
+  StreamEventData,
+  StreamFilters,
+  StreamMessage,
+  StreamRequest,
+  StreamStatus,
+  StreamSubscription
+} from './stream.js';
+export { LocalStorageTransactionStorage, MemoryTransactionStorage, TransactionTracker } from './transactions.js';
+export type {
+  TrackedTransaction,
+  TrackedTransactionStatus,
+  TransactionDetails,
+  TransactionStorage,
+  TransactionTrackerOptions
+} from './transactions.js';
+export type { FarmInfo, Pool, UserPosition } from './types.js';
+export { maxStakeAmount, validateStake } from './validation.js';
+export type { StakeLimits, StakeValidation } from './validation.js';
+export * from './contracts/index.js';
@@ -0,0 +1,240 @@
+import { Log, Provider } from 'ethers';
+import { YieldFarm__factory } from './contracts/index.js';
+import { collectMessages, hasCode } from './errors.js';
+
+export type FarmEventType = 'deposit' | 'withdraw' | 'emergencyWithdraw' | 'rewardPaid';
+
+export interface FarmEvent {
+  // `${transactionHash}:${logIndex}`, unique per log
+  id: string;
+  type: FarmEventType;
+  user: string;
+  pid: number;
+  amount: bigint;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  // Block timestamp in seconds
+  timestamp: number;
+}
+
+export interface FarmEventFilter {
+  user?: string;
+  pid?: number;
+  types?: FarmEventType[];
+  fromBlock?: number;
+  // Newest first, at most `limit` events
+  limit?: number;
+}
+
+/** Persistence for indexed events plus the last block that was scanned. */
+export interface EventStore {
+  getCursor(): Promise<number | null>;
+  setCursor(blockNumber: number): Promise<void>;
+  putEvents(events: FarmEvent[]): Promise<void>;
+  /** Drops every event at or after `blockNumber`; used to re-scan the reorg window. */
+  removeFrom(blockNumber: number): Promise<void>;
+  getEvents(filter?: FarmEventFilter): Promise<FarmEvent[]>;
+}
+
+export interface EventIndexerOptions {
+  // Block to backfill from when the store is empty, normally the farm's deployment block
+  fromBlock?: number;
+  // Blocks per eth_getLogs request; halved for the rest of a sync when the RPC rejects the range or result size
+  chunkSize?: number;
+  // Blocks behind the head that are re-scanned on every sync in case they were reorged
+  confirmations?: number;
+}
+
+const EVENT_TYPES = {
+  Deposit: 'deposit',
+  Withdraw: 'withdraw',
+  EmergencyWithdraw: 'emergencyWithdraw',
+  RewardPaid: 'rewardPaid'
+} as const satisfies Record<string, FarmEventType>;
+
+const farmInterface = YieldFarm__factory.createInterface();
+const FARM_TOPICS = (Object.keys(EVENT_TYPES) as (keyof typeof EVENT_TYPES)[]).map((name) => farmInterface.getEvent(name).topicHash);
+
+// JSON-RPC "limit exceeded", which Infura returns for too many logs
+const LIMIT_EXCEEDED_CODE = -32005;
+
+// How providers word a getLogs request that spans too many blocks or returns too many logs, e.g.
+// "block range too large", "query returned more than 10000 results", "Log response size exceeded"
+const LOG_LIMIT_PATTERN = /block range|range (is )?too (large|wide)|more than \d+ results|response size|too many (logs|results)/i;
+
+const isLogLimitError = (error: unknown) =>
+  hasCode(error, LIMIT_EXCEEDED_CODE) || collectMessages(error).some((message) => LOG_LIMIT_PATTERN.test(message));
+
+/** Newest-first filtering shared by the stores. */
+export const filterEvents = (events: FarmEvent[], filter: FarmEventFilter = {}): FarmEvent[] => {
+  const user = filter.user?.toLowerCase();
+  const matching = events
+    .filter((event) => user === undefined || event.user.toLowerCase() === user)
+    .filter((event) => filter.pid === undefined || event.pid === filter.pid)
+    .filter((event) => filter.types === undefined || filter.types.includes(event.type))
+    .filter((event) => filter.fromBlock === undefined || event.blockNumber >= filter.fromBlock)
+    .sort((a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex);
+
+  return filter.limit === undefined ? matching : matching.slice(0, filter.limit);
+};
+
+/** Replays deposits and withdrawals into each position's current stake, keyed `${lowercase user}:${pid}`. */
+export const replayStakes = (events: FarmEvent[]): Map<string, bigint> => {
+  const stakes = new Map<string, bigint>();
+  [...events]
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+    .forEach((event) => {
+      const key = `${event.user.toLowerCase()}:${event.pid}`;
+      const current = stakes.get(key) ?? 0n;
+      if (event.type === 'deposit') stakes.set(key, current + event.amount);
+      if (event.type === 'withdraw') stakes.set(key, current - event.amount);
+      if (event.type === 'emergencyWithdraw') stakes.set(key, 0n);
+    });
+  return stakes;
+};
+
+/**
+ * Backfills Deposit/Withdraw/EmergencyWithdraw/RewardPaid logs into an EventStore and keeps it current.
+ *
+ * Each sync re-scans the last `confirmations` blocks before the cursor, replacing whatever the store
+ * held for them, so events from reorged blocks are dropped and their replacements picked up.
+ */
+export class EventIndexer {
+  private readonly fromBlock: number;
+  private readonly confirmations: number;
+  private readonly maxChunkSize: number;
+  private chunkSize: number;
+  private readonly listeners = new Set<(events: FarmEvent[]) => void>();
+  // Shared by every log of a block; pruned down to the re-scan window after each sync
+  private readonly timestamps = new Map<number, Promise<number>>();
+  private syncing: Promise<number> | null = null;
+  private blockListener: (() => void) | null = null;
+
+  constructor(
+    readonly address: string,
+    readonly provider: Provider,
+    readonly store: EventStore,
+    options: EventIndexerOptions = {}
+  ) {
+    this.fromBlock = options.fromBlock ?? 0;
+    this.maxChunkSize = options.chunkSize ?? 2000;
+    this.chunkSize = this.maxChunkSize;
+    this.confirmations = options.confirmations ?? 12;
+  }
+
+  /** Called with events that were not in the store before the sync that found them. */
+  onEvents(listener: (events: FarmEvent[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Scans up to the current head. Concurrent calls share one run. Resolves to the new cursor. */
+  sync(): Promise<number> {
+    if (!this.syncing) {
+      this.syncing = this.runSync().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  /** Syncs now and again on every new block until stop() is called. */
+  async start(): Promise<void> {
+    if (this.blockListener) return;
+    this.blockListener = () => {
+      this.sync().catch((error) => console.error('Event indexer sync failed:', error));
+    };
+    await this.provider.on('block', this.blockListener);
+    await this.sync();
+  }
+
+  async stop(): Promise<void> {
+    if (!this.blockListener) return;
+    await this.provider.off('block', this.blockListener);
+    this.blockListener = null;
+  }
+
+  private async runSync(): Promise<number> {
+    const head = await this.provider.getBlockNumber();
+    const cursor = await this.store.getCursor();
+    const start = cursor === null ? this.fromBlock : Math.max(this.fromBlock, cursor - this.confirmations + 1);
+    if (start > head) return cursor ?? head;
+
+    const known = new Set((await this.store.getEvents({ fromBlock: start })).map((event) => event.id));
+    await this.store.removeFrom(start);
+
+    const added: FarmEvent[] = [];
+    for (let from = start; from <= head; ) {
+      const to = Math.min(from + this.chunkSize - 1, head);
+      let logs: Log[];
+      try {
+        logs = await this.provider.getLogs({ address: this.address, topics: [FARM_TOPICS], fromBlock: from, toBlock: to });
+      } catch (error) {
+        // Most RPCs cap the range or result size of eth_getLogs; retry with a smaller window. Anything
+        // else (timeouts, 5xx) fails the sync, and the next one resumes from the stored cursor.
+        if (this.chunkSize > 1 && isLogLimitError(error)) {
+          this.chunkSize = Math.max(1, Math.floor(this.chunkSize / 2));
+          continue;
+        }
+        throw error;
+      }
+
+      const events = await Promise.all(logs.map((log) => this.decode(log)));
+      await this.store.putEvents(events);
+      await this.store.setCursor(to);
+      added.push(...events.filter((event) => !known.has(event.id)));
+      from = to + 1;
+    }
+
+    // A narrow window only suits the range that needed it; the next catch-up starts wide again
+    this.chunkSize = this.maxChunkSize;
+    const rescanFrom = head - this.confirmations + 1;
+    this.timestamps.forEach((_, blockNumber) => {
+      if (blockNumber < rescanFrom) this.timestamps.delete(blockNumber);
+    });
+
+    if (added.length > 0) {
+      this.listeners.forEach((listener) => listener(added));
+    }
+    return head;
+  }
+
+  private async decode(log: Log): Promise<FarmEvent> {
+    const parsed = farmInterface.parseLog(log)!;
+
+    return {
+      id: `${log.transactionHash}:${log.index}`,
+      type: EVENT_TYPES[parsed.name as keyof typeof EVENT_TYPES],
+      user: parsed.args.user,
+      pid: Number(parsed.args.pid),
+      amount: parsed.args.amount,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+      timestamp: await this.getTimestamp(log.blockNumber)
+    };
+  }
+
+  private getTimestamp(blockNumber: number): Promise<number> {
+    let timestamp = this.timestamps.get(blockNumber);
+    if (!timestamp) {
+      timestamp = this.provider.getBlock(blockNumber).then((block) => {
+        // A node behind the one that served the logs; fail the sync rather than store a made-up time
+        if (!block) throw new Error(`Block ${blockNumber} is not available yet`);
+        return block.timestamp;
+      });
+      // Failed lookups are retried by the next sync
+      const pending = timestamp;
+      pending.catch(() => {
+        if (this.timestamps.get(blockNumber) === pending) this.timestamps.delete(blockNumber);
+      });
+      this.timestamps.set(blockNumber, pending);
+    }
+    return timestamp;
+  }
+}
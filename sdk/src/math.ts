@@ -0,0 +1,58 @@
+// Off-chain mirrors of YieldFarm's reward arithmetic. Keep these in lockstep with the contract.
+
+export interface EmissionSchedule {
+  rewardPerBlock: bigint;
+  bonusEndBlock: bigint;
+  bonusMultiplier: bigint;
+  totalAllocPoint: bigint;
+}
+
+/** Same as YieldFarm.getMultiplier: reward blocks between `from` and `to`, counting bonus blocks `bonusMultiplier` times. */
+export const getMultiplier = (from: bigint, to: bigint, schedule: Pick<EmissionSchedule, 'bonusEndBlock' | 'bonusMultiplier'>): bigint => {
+  if (to <= from) return 0n;
+  if (to <= schedule.bonusEndBlock) {
+    return (to - from) * schedule.bonusMultiplier;
+  } else if (from >= schedule.bonusEndBlock) {
+    return to - from;
+  }
+  return (schedule.bonusEndBlock - from) * schedule.bonusMultiplier + (to - schedule.bonusEndBlock);
+};
+
+/** Reward tokens a pool receives per block outside the bonus period. */
+export const poolRewardPerBlock = (allocPoint: bigint, schedule: Pick<EmissionSchedule, 'rewardPerBlock' | 'totalAllocPoint'>): bigint =>
+  schedule.totalAllocPoint === 0n ? 0n : (schedule.rewardPerBlock * allocPoint) / schedule.totalAllocPoint;
+
+// accTokenPerShare is scaled by 1e12 on-chain
+export const ACC_TOKEN_PRECISION = 10n ** 12n;
+
+export interface PoolRewardState {
+  allocPoint: bigint;
+  lastRewardBlock: bigint;
+  accTokenPerShare: bigint;
+  totalStaked: bigint;
+}
+
+export interface UserRewardState {
+  amount: bigint;
+  rewardDebt: bigint;
+  pendingRewards: bigint;
+}
+
+/**
+ * Same as YieldFarm.pendingReward evaluated at `blockNumber`, assuming the pool and user state
+ * (as read at some earlier block) has not changed since.
+ */
+export const pendingRewardAt = (
+  pool: PoolRewardState,
+  user: UserRewardState,
+  schedule: EmissionSchedule,
+  blockNumber: bigint
+): bigint => {
+  let accTokenPerShare = pool.accTokenPerShare;
+  if (blockNumber > pool.lastRewardBlock && pool.totalStaked !== 0n && schedule.totalAllocPoint !== 0n) {
+    const multiplier = getMultiplier(pool.lastRewardBlock, blockNumber, schedule);
+    const tokenReward = (multiplier * schedule.rewardPerBlock * pool.allocPoint) / schedule.totalAllocPoint;
+    accTokenPerShare += (tokenReward * ACC_TOKEN_PRECISION) / pool.totalStaked;
+  }
+  return (user.amount * accTokenPerShare) / ACC_TOKEN_PRECISION - user.rewardDebt + user.pendingRewards;
+};
@@ -0,0 +1,71 @@
+// Node-only helpers, kept out of the main entry so browser bundles never pull in `fs`.
+import { existsSync } from 'node:fs';
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import { EventStore, FarmEvent, FarmEventFilter, filterEvents } from './indexer.js';
+
+interface JsonFileContents {
+  cursor: number | null;
+  // Amounts are stored as decimal strings since JSON has no bigint
+  events: (Omit<FarmEvent, 'amount'> & { amount: string })[];
+}
+
+/** Persists events to a JSON file, rewritten atomically after every change. */
+export class JsonFileEventStore implements EventStore {
+  private cursor: number | null = null;
+  private events = new Map<string, FarmEvent>();
+  private loaded: Promise<void> | null = null;
+
+  constructor(private readonly path: string) {}
+
+  async getCursor(): Promise<number | null> {
+    await this.load();
+    return this.cursor;
+  }
+
+  async setCursor(blockNumber: number): Promise<void> {
+    await this.load();
+    this.cursor = blockNumber;
+    await this.save();
+  }
+
+  async putEvents(events: FarmEvent[]): Promise<void> {
+    await this.load();
+    events.forEach((event) => this.events.set(event.id, event));
+    await this.save();
+  }
+
+  async removeFrom(blockNumber: number): Promise<void> {
+    await this.load();
+    this.events.forEach((event, id) => {
+      if (event.blockNumber >= blockNumber) this.events.delete(id);
+    });
+    await this.save();
+  }
+
+  async getEvents(filter?: FarmEventFilter): Promise<FarmEvent[]> {
+    await this.load();
+    return filterEvents([...this.events.values()], filter);
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        if (!existsSync(this.path)) return;
+        const contents: JsonFileContents = JSON.parse(await readFile(this.path, 'utf8'));
+        this.cursor = contents.cursor;
+        this.events = new Map(contents.events.map((event) => [event.id, { ...event, amount: BigInt(event.amount) }]));
+      })();
+    }
+    return this.loaded;
+  }
+
+  private async save(): Promise<void> {
+    const contents: JsonFileContents = {
+      cursor: this.cursor,
+      events: [...this.events.values()].map((event) => ({ ...event, amount: event.amount.toString() }))
+    };
+    const tmp = `${this.path}.tmp`;
+    await writeFile(tmp, JSON.stringify(contents));
+    await rename(tmp, this.path);
+  }
+}
@@ -0,0 +1,194 @@
+import { Provider } from 'ethers';
+import { YieldFarmClient } from './client.js';
+import { EmissionSchedule, pendingRewardAt, PoolRewardState, UserRewardState } from './math.js';
+
+export interface PendingRewardDrift {
+  pid: number;
+  // What the extrapolation predicted for the reconcile block, and what pendingReward() returned for it
+  expected: bigint;
+  actual: bigint;
+}
+
+export interface PendingRewardUpdate {
+  blockNumber: number;
+  // Keyed by pool id; only pools the user has a position in
+  pending: Record<number, bigint>;
+  total: bigint;
+  // True when the values were read from the chain rather than extrapolated
+  reconciled: boolean;
+  // Pools whose extrapolation disagreed with the chain at the last reconcile, e.g. because someone
+  // else changed the pool's stake or the owner changed emissions
+  drift: PendingRewardDrift[];
+}
+
+export interface PendingRewardTrackerOptions {
+  // Blocks between on-chain reads; every other block is computed locally
+  reconcileEvery?: number;
+  // Differences up to this many wei are not reported as drift
+  driftTolerance?: bigint;
+}
+
+interface Snapshot {
+  blockNumber: number;
+  schedule: EmissionSchedule;
+  positions: { pid: number; pool: PoolRewardState; user: UserRewardState }[];
+}
+
+/**
+ * Ticks a user's pending rewards every block by replaying the contract's pendingReward math on the
+ * last on-chain snapshot, and re-reads the chain every `reconcileEvery` blocks to catch drift.
+ */
+export class PendingRewardTracker {
+  private readonly reconcileEvery: number;
+  private readonly driftTolerance: bigint;
+  private readonly listeners = new Set<(update: PendingRewardUpdate) => void>();
+  private snapshot: Snapshot | null = null;
+  private drift: PendingRewardDrift[] = [];
+  private blockListener: ((blockNumber: number) => void) | null = null;
+  private reconciling: Promise<void> | null = null;
+
+  constructor(
+    readonly client: YieldFarmClient,
+    readonly user: string,
+    options: PendingRewardTrackerOptions = {}
+  ) {
+    this.reconcileEvery = options.reconcileEvery ?? 10;
+    this.driftTolerance = options.driftTolerance ?? 0n;
+  }
+
+  private get provider(): Provider {
+    return this.client.runner.provider!;
+  }
+
+  onUpdate(listener: (update: PendingRewardUpdate) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Reads the current state and ticks on every new block until stop() is called. */
+  async start(): Promise<void> {
+    if (this.blockListener) return;
+    this.blockListener = (blockNumber) => {
+      this.onBlock(blockNumber).catch((error) => console.error('Pending reward update failed:', error));
+    };
+    await this.refresh();
+    await this.provider.on('block', this.blockListener);
+  }
+
+  async stop(): Promise<void> {
+    if (!this.blockListener) return;
+    await this.provider.off('block', this.blockListener);
+    this.blockListener = null;
+  }
+
+  /** Re-reads the chain now, e.g. after the user's own deposit, withdraw or harvest. */
+  async refresh(): Promise<void> {
+    await this.reconcile(await this.provider.getBlockNumber(), false);
+  }
+
+  /** Locally computed pending rewards at `blockNumber`, or null before the first snapshot. */
+  extrapolate(blockNumber: number): PendingRewardUpdate | null {
+    if (!this.snapshot) return null;
+    const { schedule, positions } = this.snapshot;
+
+    const pending: Record<number, bigint> = {};
+    positions.forEach(({ pid, pool, user }) => {
+      pending[pid] = pendingRewardAt(pool, user, schedule, BigInt(blockNumber));
+    });
+    return this.toUpdate(blockNumber, pending, false);
+  }
+
+  private async onBlock(blockNumber: number) {
+    if (!this.snapshot || blockNumber <= this.snapshot.blockNumber) return;
+
+    if (blockNumber - this.snapshot.blockNumber >= this.reconcileEvery) {
+      await this.reconcile(blockNumber, true);
+    } else {
+      this.emit(this.extrapolate(blockNumber)!);
+    }
+  }
+
+  private reconcile(blockNumber: number, checkDrift: boolean): Promise<void> {
+    // Overlapping reconciles would race to replace the snapshot, so they share one read
+    this.reconciling ??= this.runReconcile(blockNumber, checkDrift).finally(() => {
+      this.reconciling = null;
+    });
+    return this.reconciling;
+  }
+
+  private async runReconcile(blockNumber: number, checkDrift: boolean) {
+    const expected = checkDrift ? this.extrapolate(blockNumber) : null;
+    const snapshot = await this.loadSnapshot(blockNumber);
+
+    const pending: Record<number, bigint> = {};
+    await Promise.all(
+      snapshot.positions.map(async ({ pid }) => {
+        pending[pid] = await this.client.farm.pendingReward(pid, this.user, { blockTag: blockNumber });
+      })
+    );
+
+    if (expected) {
+      this.drift = Object.entries(pending)
+        .map(([pid, actual]) => ({ pid: Number(pid), expected: expected.pending[Number(pid)] ?? 0n, actual }))
+        .filter(({ expected, actual }) => (expected > actual ? expected - actual : actual - expected) > this.driftTolerance);
+    } else {
+      this.drift = [];
+    }
+
+    this.snapshot = snapshot;
+    this.emit(this.toUpdate(blockNumber, pending, true));
+  }
+
+  // Reads every value at the same block so the snapshot is internally consistent
+  private async loadSnapshot(blockNumber: number): Promise<Snapshot> {
+    const { farm } = this.client;
+    const overrides = { blockTag: blockNumber };
+    const [rewardPerBlock, bonusEndBlock, bonusMultiplier, totalAllocPoint, poolCount] = await Promise.all([
+      farm.rewardPerBlock(overrides),
+      farm.bonusEndBlock(overrides),
+      farm.BONUS_MULTIPLIER(overrides),
+      farm.totalAllocPoint(overrides),
+      farm.poolLength(overrides)
+    ]);
+
+    const positions = await Promise.all(
+      Array.from({ length: Number(poolCount) }, async (_, pid) => {
+        const [pool, user] = await Promise.all([farm.getPoolInfo(pid, overrides), farm.getUserInfo(pid, this.user, overrides)]);
+        return { pid, pool, user };
+      })
+    );
+
+    return {
+      blockNumber,
+      schedule: { rewardPerBlock, bonusEndBlock, bonusMultiplier, totalAllocPoint },
+      positions: positions
+        .filter(({ user }) => user.amount > 0n || user.pendingRewards > 0n)
+        .map(({ pid, pool, user }) => ({
+          pid,
+          pool: {
+            allocPoint: pool.allocPoint,
+            lastRewardBlock: pool.lastRewardBlock,
+            accTokenPerShare: pool.accTokenPerShare,
+            totalStaked: pool.totalStaked
+          },
+          user: { amount: user.amount, rewardDebt: user.rewardDebt, pendingRewards: user.pendingRewards }
+        }))
+    };
+  }
+
+  private toUpdate(blockNumber: number, pending: Record<number, bigint>, reconciled: boolean): PendingRewardUpdate {
+    return {
+      blockNumber,
+      pending,
+      total: Object.values(pending).reduce((sum, value) => sum + value, 0n),
+      reconciled,
+      drift: this.drift
+    };
+  }
+
+  private emit(update: PendingRewardUpdate) {
+    this.listeners.forEach((listener) => listener(update));
+  }
+}
@@ -0,0 +1,42 @@
+import { TypedDataDomain, TypedDataEncoder } from 'ethers';
+
+/**
+ * How the farm gets its LP token allowance before a deposit: approve exactly the deposit, approve
+ * MaxUint256 once, or sign an EIP-2612 permit for exactly the deposit.
+ */
+export type ApprovalStrategy = 'exact' | 'unlimited' | 'permit';
+
+export const PERMIT_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' }
+  ]
+};
+
+// Seconds a permit signature stays valid, counted from the latest block's timestamp
+export const PERMIT_TTL = 20 * 60;
+
+// OpenZeppelin's ERC20Permit signs with version "1"; USDC-style tokens use "2"
+const PERMIT_VERSIONS = ['1', '2'];
+
+/**
+ * Rebuilds the EIP-712 domain a permit token signs with from its name, checked against its
+ * DOMAIN_SEPARATOR(). Returns null when no known version matches, so a signature would be rejected.
+ */
+export const matchPermitDomain = (
+  name: string,
+  chainId: bigint,
+  verifyingContract: string,
+  domainSeparator: string
+): TypedDataDomain | null => {
+  for (const version of PERMIT_VERSIONS) {
+    const domain = { name, version, chainId, verifyingContract };
+    if (TypedDataEncoder.hashDomain(domain) === domainSeparator.toLowerCase()) {
+      return domain;
+    }
+  }
+  return null;
+};
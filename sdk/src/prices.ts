@@ -0,0 +1,155 @@
+import { Contract, ContractRunner, formatUnits } from 'ethers';
+
+const CHAINLINK_AGGREGATOR_ABI = [
+  'function decimals() view returns (uint8)',
+  'function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)'
+];
+
+const UNISWAP_V2_PAIR_ABI = [
+  'function token0() view returns (address)',
+  'function token1() view returns (address)',
+  'function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
+  'function totalSupply() view returns (uint256)',
+  'function decimals() view returns (uint8)'
+];
+
+const ERC20_DECIMALS_ABI = ['function decimals() view returns (uint8)'];
+
+export interface PriceSource {
+  /** USD price of one whole token, or undefined when this source cannot price it. */
+  getPrice(token: string): Promise<number | undefined>;
+}
+
+/** Fixed prices, for local development and tests. */
+export class ConstantPriceSource implements PriceSource {
+  private readonly prices = new Map<string, number>();
+
+  constructor(prices: Record<string, number> = {}) {
+    Object.entries(prices).forEach(([token, price]) => this.set(token, price));
+  }
+
+  set(token: string, price: number): void {
+    this.prices.set(token.toLowerCase(), price);
+  }
+
+  async getPrice(token: string): Promise<number | undefined> {
+    return this.prices.get(token.toLowerCase());
+  }
+}
+
+/** Reads USD prices from Chainlink aggregators, one feed per token. */
+export class ChainlinkPriceSource implements PriceSource {
+  private readonly feeds = new Map<string, Contract>();
+  private readonly maxAgeSeconds?: number;
+
+  /**
+   * @param feeds token address => aggregator address (e.g. the ETH/USD feed for WETH)
+   * @param options.maxAgeSeconds answers older than this are treated as unavailable
+   */
+  constructor(runner: ContractRunner, feeds: Record<string, string>, options: { maxAgeSeconds?: number } = {}) {
+    Object.entries(feeds).forEach(([token, aggregator]) => {
+      this.feeds.set(token.toLowerCase(), new Contract(aggregator, CHAINLINK_AGGREGATOR_ABI, runner));
+    });
+    this.maxAgeSeconds = options.maxAgeSeconds;
+  }
+
+  async getPrice(token: string): Promise<number | undefined> {
+    const feed = this.feeds.get(token.toLowerCase());
+    if (!feed) return undefined;
+
+    const [decimals, round] = await Promise.all([feed.decimals(), feed.latestRoundData()]);
+    if (round.answer <= 0n) return undefined;
+    if (this.maxAgeSeconds !== undefined && Date.now() / 1000 - Number(round.updatedAt) > this.maxAgeSeconds) {
+      return undefined;
+    }
+
+    return Number(formatUnits(round.answer, decimals));
+  }
+}
+
+/**
+ * Prices Uniswap-V2-style LP tokens from the pair's reserves: (reserve0 * price0 + reserve1 * price1) / totalSupply.
+ * Constituent tokens are priced by `underlying`; when only one side is known the pool is assumed balanced.
+ */
+export class UniswapV2PairPriceSource implements PriceSource {
+  constructor(
+    private readonly runner: ContractRunner,
+    private readonly underlying: PriceSource
+  ) {}
+
+  async getPrice(token: string): Promise<number | undefined> {
+    const pair = new Contract(token, UNISWAP_V2_PAIR_ABI, this.runner);
+
+    let token0: string, token1: string, reserves: { reserve0: bigint; reserve1: bigint }, totalSupply: bigint, pairDecimals: bigint;
+    try {
+      [token0, token1, reserves, totalSupply, pairDecimals] = await Promise.all([
+        pair.token0(),
+        pair.token1(),
+        pair.getReserves(),
+        pair.totalSupply(),
+        pair.decimals()
+      ]);
+    } catch {
+      // Not a pair contract
+      return undefined;
+    }
+    if (totalSupply === 0n) return undefined;
+
+    const side = async (address: string, reserve: bigint) => {
+      const price = await this.underlying.getPrice(address);
+      if (price === undefined) return undefined;
+      const decimals = await new Contract(address, ERC20_DECIMALS_ABI, this.runner).decimals();
+      return Number(formatUnits(reserve, decimals)) * price;
+    };
+
+    const [value0, value1] = await Promise.all([side(token0, reserves.reserve0), side(token1, reserves.reserve1)]);
+    if (value0 === undefined && value1 === undefined) return undefined;
+
+    const poolValue = value0 !== undefined && value1 !== undefined ? value0 + value1 : 2 * (value0 ?? value1)!;
+    return poolValue / Number(formatUnits(totalSupply, pairDecimals));
+  }
+}
+
+/** Asks each source in turn and returns the first price found; a failing source counts as no price. */
+export class FallbackPriceSource implements PriceSource {
+  constructor(private readonly sources: PriceSource[]) {}
+
+  async getPrice(token: string): Promise<number | undefined> {
+    for (const source of this.sources) {
+      const price = await source.getPrice(token).catch(() => undefined);
+      if (price !== undefined) return price;
+    }
+    return undefined;
+  }
+}
+
+/** Memoizes another source's answers (including misses) for `ttlMs`. */
+export class CachedPriceSource implements PriceSource {
+  private readonly cache = new Map<string, { expires: number; price: Promise<number | undefined> }>();
+
+  constructor(
+    private readonly source: PriceSource,
+    private readonly ttlMs = 60_000
+  ) {}
+
+  async getPrice(token: string): Promise<number | undefined> {
+    const key = token.toLowerCase();
+    const cached = this.cache.get(key);
+    if (cached && cached.expires > Date.now()) return cached.price;
+
+    const price = this.source.getPrice(token).catch(() => undefined);
+    this.cache.set(key, { expires: Date.now() + this.ttlMs, price });
+    return price;
+  }
+}
+
+/** Prices several tokens at once, keyed by lowercase address; unpriced tokens are left out. */
+export const getPrices = async (source: PriceSource, tokens: string[]): Promise<Record<string, number>> => {
+  const unique = [...new Set(tokens.map((token) => token.toLowerCase()))];
+  const prices = await Promise.all(unique.map((token) => source.getPrice(token).catch(() => undefined)));
+
+  return unique.reduce<Record<string, number>>((result, token, i) => {
+    if (prices[i] !== undefined) result[token] = prices[i]!;
+    return result;
+  }, {});
+};
@@ -0,0 +1,118 @@
+import { YieldFarmClient } from './client.js';
+import { FarmEvent, replayStakes } from './indexer.js';
+import { EmissionSchedule, poolRewardPerBlock } from './math.js';
+
+export interface RewardReserveStatus {
+  blockNumber: number;
+  // YFT held by the farm
+  balance: bigint;
+  // Sum of pendingReward() over every open position in the event index
+  liabilities: bigint;
+  // balance - liabilities; negative once the farm owes more than it holds
+  headroom: bigint;
+  // YFT accruing to stakers per block right now, including the bonus multiplier
+  emissionPerBlock: bigint;
+  // Blocks until accruals exhaust the headroom; 0 when already short, null when nothing accrues
+  blocksUntilDepletion: bigint | null;
+  positions: number;
+}
+
+export interface RewardPayout {
+  pending: bigint;
+  // Farm YFT balance at the latest block
+  balance: bigint;
+  // What safeRewardTransfer would actually send: the pending amount capped at the farm's balance
+  payable: bigint;
+  shortfall: bigint;
+}
+
+/**
+ * Blocks until `headroom` YFT are emitted, given the per-block emission of the pools that have stake.
+ * Bonus blocks emit `bonusMultiplier` times as much, mirroring getMultiplier.
+ */
+export const estimateDepletionBlocks = (
+  headroom: bigint,
+  basePerBlock: bigint,
+  schedule: Pick<EmissionSchedule, 'bonusEndBlock' | 'bonusMultiplier'>,
+  currentBlock: bigint
+): bigint | null => {
+  if (headroom <= 0n) return 0n;
+  if (basePerBlock === 0n) return null;
+
+  const bonusPerBlock = basePerBlock * schedule.bonusMultiplier;
+  const bonusBlocks = schedule.bonusEndBlock > currentBlock ? schedule.bonusEndBlock - currentBlock : 0n;
+  if (headroom <= bonusPerBlock * bonusBlocks) {
+    return headroom / bonusPerBlock;
+  }
+  return bonusBlocks + (headroom - bonusPerBlock * bonusBlocks) / basePerBlock;
+};
+
+/**
+ * Compares the farm's YFT balance with what it owes stakers. safeRewardTransfer pays out at most the
+ * farm's balance without reverting, so a short reserve only shows up as users quietly receiving less.
+ * Open positions come from the indexed events; all reads happen at the same block.
+ */
+export const checkRewardReserve = async (
+  client: YieldFarmClient,
+  events: FarmEvent[],
+  blockNumber?: number
+): Promise<RewardReserveStatus> => {
+  const { farm } = client;
+  const block = blockNumber ?? (await client.runner.provider!.getBlockNumber());
+  const overrides = { blockTag: block };
+
+  const positions = [...replayStakes(events)]
+    .filter(([, amount]) => amount > 0n)
+    .map(([key]) => {
+      const [user, pid] = key.split(':');
+      return { user, pid: Number(pid) };
+    });
+
+  const rewardToken = await client.getRewardToken();
+  const [balance, rewardPerBlock, bonusEndBlock, bonusMultiplier, totalAllocPoint, poolCount, pending] = await Promise.all([
+    rewardToken.balanceOf(client.address, overrides),
+    farm.rewardPerBlock(overrides),
+    farm.bonusEndBlock(overrides),
+    farm.BONUS_MULTIPLIER(overrides),
+    farm.totalAllocPoint(overrides),
+    farm.poolLength(overrides),
+    Promise.all(positions.map(({ user, pid }) => farm.pendingReward(pid, user, overrides)))
+  ]);
+
+  // Pools without stake do not update accTokenPerShare, so their share of emissions is never owed
+  const pools = await Promise.all(Array.from({ length: Number(poolCount) }, (_, pid) => farm.getPoolInfo(pid, overrides)));
+  const schedule = { rewardPerBlock, bonusEndBlock, bonusMultiplier, totalAllocPoint };
+  const basePerBlock = pools
+    .filter((pool) => pool.totalStaked > 0n)
+    .reduce((sum, pool) => sum + poolRewardPerBlock(pool.allocPoint, schedule), 0n);
+
+  const liabilities = pending.reduce((sum, value) => sum + value, 0n);
+  const headroom = balance - liabilities;
+  const currentBlock = BigInt(block);
+
+  return {
+    blockNumber: block,
+    balance,
+    liabilities,
+    headroom,
+    emissionPerBlock: currentBlock < bonusEndBlock ? basePerBlock * bonusMultiplier : basePerBlock,
+    blocksUntilDepletion: estimateDepletionBlocks(headroom, basePerBlock, schedule, currentBlock),
+    positions: positions.length
+  };
+};
+
+/**
+ * What a harvest or withdraw by `user` mined in the next block would pay from pool `pid`. The
+ * RewardPaid event reports the full pending amount even when the transfer was capped.
+ */
+export const previewRewardPayout = async (client: YieldFarmClient, pid: number, user: string): Promise<RewardPayout> => {
+  const blockNumber = await client.runner.provider!.getBlockNumber();
+  const rewardToken = await client.getRewardToken();
+  const [pending, balance] = await Promise.all([
+    client.pendingRewardInBlock(pid, user, blockNumber + 1),
+    rewardToken.balanceOf(client.address, { blockTag: blockNumber })
+  ]);
+
+  const payable = pending > balance ? balance : pending;
+  return { pending, balance, payable, shortfall: pending - payable };
+};
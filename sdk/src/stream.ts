@@ -0,0 +1,169 @@
+/** Channels a WebSocket client can subscribe to; `harvests` carries every RewardPaid event. */
+export type StreamChannel = 'deposits' | 'withdrawals' | 'emergencyWithdrawals' | 'harvests' | 'poolUpdates';
+
+export const STREAM_CHANNELS: StreamChannel[] = ['deposits', 'withdrawals', 'emergencyWithdrawals', 'harvests', 'poolUpdates'];
+
+export interface StreamFilters {
+  pools?: number[];
+  // Only applies to user events; pool updates are filtered by `pools` alone
+  users?: string[];
+}
+
+export interface StreamSubscription {
+  // Defaults to every channel
+  events?: StreamChannel[];
+  filters?: StreamFilters;
+}
+
+export type StreamRequest = ({ action: 'subscribe' } & StreamSubscription) | { action: 'unsubscribe' };
+
+export interface StreamEventData {
+  user: string;
+  poolId: number;
+  // Decimal string in token units
+  amount: string;
+  txHash: string;
+  blockNumber: number;
+  timestamp: string;
+}
+
+export interface PoolUpdateData {
+  poolId: number;
+  allocPoint: number;
+  totalStaked: string;
+  // Percent, null when the pool's tokens have no price
+  apy: string | null;
+  participants: number;
+  blockNumber: number;
+}
+
+export type StreamMessage =
+  | { type: 'deposit'; data: StreamEventData }
+  // `rewards` is what the same transaction paid out, "0.0" when nothing was pending
+  | { type: 'withdrawal'; data: StreamEventData & { rewards: string } }
+  | { type: 'emergencyWithdrawal'; data: StreamEventData }
+  | { type: 'rewardPaid'; data: StreamEventData }
+  | { type: 'poolUpdate'; data: PoolUpdateData }
+  | { type: 'subscribed'; data: Required<StreamSubscription> }
+  | { type: 'error'; error: { code: string; message: string } };
+
+export const MESSAGE_CHANNELS: Record<Exclude<StreamMessage['type'], 'subscribed' | 'error'>, StreamChannel> = {
+  deposit: 'deposits',
+  withdrawal: 'withdrawals',
+  emergencyWithdrawal: 'emergencyWithdrawals',
+  rewardPaid: 'harvests',
+  poolUpdate: 'poolUpdates'
+};
+
+export type StreamStatus = 'connecting' | 'open' | 'closed';
+
+// Browsers and Node 22+ have a global WebSocket; older Node can pass the `ws` package's class
+type WebSocketConstructor = new (url: string) => WebSocket;
+
+export interface FarmStreamOptions {
+  WebSocket?: WebSocketConstructor;
+  // First reconnect delay, doubled on every failed attempt up to maxReconnectDelayMs
+  reconnectDelayMs?: number;
+  maxReconnectDelayMs?: number;
+}
+
+/**
+ * Client for the API server's `/ws` event stream. Reconnects with backoff and re-sends the
+ * current subscription each time the socket opens.
+ */
+export class FarmStreamClient {
+  private socket: WebSocket | null = null;
+  private subscription: StreamSubscription | null = null;
+  private readonly listeners = new Set<(message: StreamMessage) => void>();
+  private readonly statusListeners = new Set<(status: StreamStatus) => void>();
+  private readonly WebSocketImpl: WebSocketConstructor;
+  private readonly reconnectDelayMs: number;
+  private readonly maxReconnectDelayMs: number;
+  private reconnectDelay: number;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+
+  constructor(
+    readonly url: string,
+    options: FarmStreamOptions = {}
+  ) {
+    const WebSocketImpl = options.WebSocket ?? globalThis.WebSocket;
+    if (!WebSocketImpl) throw new Error('FarmStreamClient needs a WebSocket implementation; pass options.WebSocket');
+    this.WebSocketImpl = WebSocketImpl;
+    this.reconnectDelayMs = options.reconnectDelayMs ?? 1000;
+    this.maxReconnectDelayMs = options.maxReconnectDelayMs ?? 30_000;
+    this.reconnectDelay = this.reconnectDelayMs;
+  }
+
+  onMessage(listener: (message: StreamMessage) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  onStatus(listener: (status: StreamStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  connect(): void {
+    this.closed = false;
+    if (this.socket) return;
+
+    this.emitStatus('connecting');
+    const socket = new this.WebSocketImpl(this.url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectDelay = this.reconnectDelayMs;
+      this.emitStatus('open');
+      if (this.subscription) this.send({ action: 'subscribe', ...this.subscription });
+    };
+    socket.onmessage = (event) => {
+      const message = JSON.parse(String(event.data)) as StreamMessage;
+      this.listeners.forEach((listener) => listener(message));
+    };
+    socket.onclose = () => {
+      this.socket = null;
+      this.emitStatus('closed');
+      if (!this.closed) this.scheduleReconnect();
+    };
+  }
+
+  /** Replaces the current subscription. */
+  subscribe(subscription: StreamSubscription = {}): void {
+    this.subscription = subscription;
+    this.send({ action: 'subscribe', ...subscription });
+  }
+
+  unsubscribe(): void {
+    this.subscription = null;
+    this.send({ action: 'unsubscribe' });
+  }
+
+  close(): void {
+    this.closed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.socket?.close();
+  }
+
+  private send(request: StreamRequest) {
+    if (this.socket?.readyState === 1) this.socket.send(JSON.stringify(request));
+  }
+
+  private scheduleReconnect() {
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, this.reconnectDelay);
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, this.maxReconnectDelayMs);
+  }
+
+  private emitStatus(status: StreamStatus) {
+    this.statusListeners.forEach((listener) => listener(status));
+  }
+}
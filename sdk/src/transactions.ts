@@ -0,0 +1,243 @@
+import { isError, Provider, TransactionReceipt, TransactionResponse } from 'ethers';
+import { decodeTransactionError } from './errors.js';
+
+export type TrackedTransactionStatus = 'submitted' | 'mined' | 'confirmed' | 'failed' | 'replaced';
+
+export interface TrackedTransaction {
+  hash: string;
+  // Caller-defined, e.g. 'approve' or 'deposit'
+  kind: string;
+  label: string;
+  // Pool the transaction acts on, when there is one
+  pid?: number;
+  from: string;
+  nonce: number;
+  chainId: number;
+  // Head block when the transaction was sent; replacement scans start here
+  startBlock: number;
+  // Milliseconds since the epoch
+  submittedAt: number;
+  status: TrackedTransactionStatus;
+  blockNumber?: number;
+  // For 'replaced': why, and the transaction that took the nonce when it is known. A repriced
+  // (sped-up) transaction is tracked on as a new entry with the same kind and label.
+  replacement?: 'repriced' | 'cancelled' | 'replaced';
+  replacedBy?: string;
+  // For 'failed': decodeTransactionError's message
+  error?: string;
+}
+
+export interface TransactionDetails {
+  kind: string;
+  label: string;
+  pid?: number;
+}
+
+/** Where a TransactionTracker keeps its history between page loads. */
+export interface TransactionStorage {
+  load(): TrackedTransaction[];
+  save(transactions: TrackedTransaction[]): void;
+}
+
+export class MemoryTransactionStorage implements TransactionStorage {
+  private transactions: TrackedTransaction[] = [];
+
+  load(): TrackedTransaction[] {
+    return this.transactions;
+  }
+
+  save(transactions: TrackedTransaction[]): void {
+    this.transactions = transactions;
+  }
+}
+
+export class LocalStorageTransactionStorage implements TransactionStorage {
+  constructor(
+    readonly key: string,
+    private readonly storage: Storage = globalThis.localStorage
+  ) {}
+
+  load(): TrackedTransaction[] {
+    try {
+      return JSON.parse(this.storage.getItem(this.key) ?? '[]');
+    } catch {
+      return [];
+    }
+  }
+
+  save(transactions: TrackedTransaction[]): void {
+    this.storage.setItem(this.key, JSON.stringify(transactions));
+  }
+}
+
+export interface TransactionTrackerOptions {
+  // Blocks on top of the mining block before a transaction counts as confirmed
+  confirmations?: number;
+  // Finished transactions kept in the history, newest first
+  historySize?: number;
+}
+
+const IN_FLIGHT: TrackedTransactionStatus[] = ['submitted', 'mined'];
+
+/**
+ * Follows sent transactions through submitted → mined → confirmed, or to failed/replaced, and
+ * persists them so transactions still in flight when the page closes are picked up again by resume().
+ * Speed-ups and cancellations are detected through ethers' replacement scan.
+ */
+export class TransactionTracker {
+  private readonly confirmations: number;
+  private readonly historySize: number;
+  private readonly listeners = new Set<(transactions: TrackedTransaction[]) => void>();
+  private readonly following = new Set<string>();
+  private transactions: TrackedTransaction[];
+
+  constructor(
+    readonly provider: Provider,
+    readonly storage: TransactionStorage,
+    options: TransactionTrackerOptions = {}
+  ) {
+    this.confirmations = Math.max(options.confirmations ?? 2, 1);
+    this.historySize = options.historySize ?? 20;
+    this.transactions = storage.load();
+  }
+
+  /** Newest first. */
+  list(): TrackedTransaction[] {
+    return this.transactions;
+  }
+
+  inFlight(): TrackedTransaction[] {
+    return this.transactions.filter((tx) => IN_FLIGHT.includes(tx.status));
+  }
+
+  onChange(listener: (transactions: TrackedTransaction[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Records a just-sent transaction and resolves with its receipt once it is mined, or with the
+   * replacement's receipt when the user sped it up. Rejects when it reverts, is cancelled or is
+   * replaced by something else. Confirmation is tracked on in the background.
+   */
+  async track(response: TransactionResponse, details: TransactionDetails): Promise<TransactionReceipt> {
+    // Anything that replaces this transaction is mined after the current head
+    const startBlock = await this.provider.getBlockNumber();
+    this.add({
+      ...details,
+      hash: response.hash,
+      from: response.from,
+      nonce: response.nonce,
+      chainId: Number(response.chainId),
+      startBlock,
+      submittedAt: Date.now(),
+      status: 'submitted'
+    });
+    return this.follow(response.replaceableTransaction(startBlock), response.hash);
+  }
+
+  /** Re-attaches to transactions that were in flight when the tracker was last used. */
+  async resume(): Promise<void> {
+    const { chainId } = await this.provider.getNetwork();
+    const pending = this.inFlight().filter((tx) => BigInt(tx.chainId) === chainId && !this.following.has(tx.hash));
+
+    await Promise.all(
+      pending.map(async (tx) => {
+        const response = await this.provider.getTransaction(tx.hash);
+        if (response) {
+          this.follow(response.replaceableTransaction(tx.startBlock), tx.hash).catch(() => undefined);
+          return;
+        }
+        // Gone from the node: if its nonce has been used, something else took its place while we
+        // were away. Otherwise it may just not have propagated, so it stays pending for the next resume.
+        if ((await this.provider.getTransactionCount(tx.from)) > tx.nonce) {
+          this.update(tx.hash, { status: 'replaced', replacement: 'replaced' });
+        }
+      })
+    );
+  }
+
+  /** Drops finished transactions from the history. */
+  clearFinished(): void {
+    this.transactions = this.inFlight();
+    this.persist();
+  }
+
+  private async follow(response: TransactionResponse, hash: string): Promise<TransactionReceipt> {
+    this.following.add(hash);
+    try {
+      const receipt = (await response.wait(1))!;
+      this.update(hash, { status: 'mined', blockNumber: receipt.blockNumber });
+      this.confirm(response, hash);
+      return receipt;
+    } catch (error) {
+      if (isError(error, 'TRANSACTION_REPLACED')) {
+        this.update(hash, { status: 'replaced', replacement: error.reason, replacedBy: error.hash });
+        if (error.reason === 'repriced') {
+          return this.followReplacement(hash, error.replacement, error.receipt);
+        }
+      } else {
+        this.update(hash, { status: 'failed', error: decodeTransactionError(error).message });
+      }
+      throw error;
+    } finally {
+      this.following.delete(hash);
+    }
+  }
+
+  // A sped-up transaction is the same action at a higher fee, so it takes over the original's entry
+  private followReplacement(originalHash: string, replacement: TransactionResponse, receipt: TransactionReceipt) {
+    const original = this.transactions.find((tx) => tx.hash === originalHash)!;
+    this.add({
+      kind: original.kind,
+      label: original.label,
+      pid: original.pid,
+      hash: replacement.hash,
+      from: replacement.from,
+      nonce: replacement.nonce,
+      chainId: original.chainId,
+      startBlock: original.startBlock,
+      submittedAt: original.submittedAt,
+      status: receipt.status === 0 ? 'failed' : 'mined',
+      blockNumber: receipt.blockNumber,
+      ...(receipt.status === 0 ? { error: 'The sped-up transaction reverted.' } : {})
+    });
+    if (receipt.status === 0) {
+      throw new Error(`Replacement transaction ${replacement.hash} reverted`);
+    }
+    this.confirm(replacement, replacement.hash);
+    return receipt;
+  }
+
+  private confirm(response: TransactionResponse, hash: string) {
+    if (this.confirmations === 1) {
+      this.update(hash, { status: 'confirmed' });
+      return;
+    }
+    response
+      .wait(this.confirmations)
+      .then(() => this.update(hash, { status: 'confirmed' }))
+      // Reorged out and replaced before it was buried deep enough
+      .catch((error) => this.update(hash, { status: 'failed', error: decodeTransactionError(error).message }));
+  }
+
+  private add(tx: TrackedTransaction) {
+    this.transactions = [tx, ...this.transactions.filter((existing) => existing.hash !== tx.hash)];
+    this.persist();
+  }
+
+  private update(hash: string, changes: Partial<TrackedTransaction>) {
+    this.transactions = this.transactions.map((tx) => (tx.hash === hash ? { ...tx, ...changes } : tx));
+    this.persist();
+  }
+
+  private persist() {
+    // In-flight transactions are never trimmed, only the oldest finished ones
+    let finished = 0;
+    this.transactions = this.transactions.filter((tx) => IN_FLIGHT.includes(tx.status) || ++finished <= this.historySize);
+    this.storage.save(this.transactions);
+    this.listeners.forEach((listener) => listener(this.transactions));
+  }
+}
@@ -0,0 +1,35 @@
+export interface FarmInfo {
+  rewardToken: string;
+  rewardPerBlock: bigint;
+  startBlock: bigint;
+  bonusEndBlock: bigint;
+  bonusMultiplier: bigint;
+  totalAllocPoint: bigint;
+  poolCount: number;
+}
+
+export interface Pool {
+  pid: number;
+  lpToken: string;
+  // Resolved from the LP token contract; falls back to `LP #<pid>` / 18 when it does not implement metadata
+  symbol: string;
+  decimals: number;
+  allocPoint: bigint;
+  lastRewardBlock: bigint;
+  accTokenPerShare: bigint;
+  totalStaked: bigint;
+  minStakeAmount: bigint;
+  maxStakeAmount: bigint;
+}
+
+export interface UserPosition {
+  pid: number;
+  user: string;
+  amount: bigint;
+  rewardDebt: bigint;
+  // Rewards carried over from earlier deposits, as stored in UserInfo
+  pendingRewards: bigint;
+  lastStakeTime: bigint;
+  // Claimable rewards right now, as returned by pendingReward()
+  pendingReward: bigint;
+}
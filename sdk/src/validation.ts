@@ -0,0 +1,35 @@
+import { TransactionErrorCategory } from './errors.js';
+
+export interface StakeLimits {
+  minStakeAmount: bigint;
+  maxStakeAmount: bigint;
+  // The user's current stake in the pool; maxStakeAmount caps the total, not each deposit
+  staked: bigint;
+  // LP tokens in the user's wallet
+  balance: bigint;
+  // What the farm may currently pull from the wallet
+  allowance: bigint;
+}
+
+export interface StakeValidation {
+  // The revert the deposit would hit, using the same categories as decodeTransactionError
+  error: TransactionErrorCategory | null;
+  // True when the deposit needs an approval first; not an error, ensureAllowance handles it
+  needsApproval: boolean;
+}
+
+/** Largest deposit that passes every check in YieldFarm.deposit, or 0 when none does. */
+export const maxStakeAmount = (limits: StakeLimits): bigint => {
+  const room = limits.maxStakeAmount > limits.staked ? limits.maxStakeAmount - limits.staked : 0n;
+  const amount = room < limits.balance ? room : limits.balance;
+  return amount >= limits.minStakeAmount ? amount : 0n;
+};
+
+/** Mirrors YieldFarm.deposit's requires and the LP token's transferFrom checks, in the order they run. */
+export const validateStake = (amount: bigint, limits: StakeLimits): StakeValidation => {
+  const needsApproval = limits.allowance < amount;
+  if (amount < limits.minStakeAmount) return { error: 'belowMinimum', needsApproval };
+  if (limits.staked + amount > limits.maxStakeAmount) return { error: 'aboveMaximum', needsApproval };
+  if (amount > limits.balance) return { error: 'insufficientTokenBalance', needsApproval };
+  return { error: null, needsApproval };
+};
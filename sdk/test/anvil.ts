@@ -0,0 +1,70 @@
+import { ChildProcess, execFileSync, spawn } from 'node:child_process';
+import { readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { JsonRpcProvider } from 'ethers';
+
+export interface TestDeployment {
+  rpcUrl: string;
+  yieldFarm: string;
+  rewardToken: string;
+  lpToken: string;
+  stop(): void;
+}
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '../..');
+const PORT = Number(process.env.ANVIL_PORT || 8546);
+const RPC_URL = `http://127.0.0.1:${PORT}`;
+// First default anvil account, which DeployScript deploys from
+export const DEPLOYER_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+const waitForRpc = async (attempts = 50) => {
+  const provider = new JsonRpcProvider(RPC_URL, undefined, { staticNetwork: true });
+  for (let i = 0; i < attempts; i++) {
+    try {
+      await provider.getBlockNumber();
+      provider.destroy();
+      return;
+    } catch {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+  }
+  provider.destroy();
+  throw new Error(`anvil did not start on ${RPC_URL}`);
+};
+
+/**
+ * Starts anvil and runs the repo's DeployScript against it, the same way the README describes.
+ * Only tests that need a chain call this, so pure unit tests run without Foundry installed.
+ */
+export const deployToAnvil = async (): Promise<TestDeployment> => {
+  const anvil: ChildProcess = spawn('anvil', ['--port', String(PORT), '--silent'], { stdio: 'ignore' });
+  const spawnFailed = new Promise<never>((_, reject) => {
+    anvil.once('error', (error) => reject(new Error(`Failed to start anvil (is Foundry installed?): ${error.message}`)));
+  });
+
+  try {
+    await Promise.race([waitForRpc(), spawnFailed]);
+
+    execFileSync('forge', ['script', 'script/Deploy.s.sol:DeployScript', '--rpc-url', RPC_URL, '--broadcast'], {
+      cwd: ROOT,
+      env: { ...process.env, PRIVATE_KEY: DEPLOYER_KEY },
+      stdio: 'ignore'
+    });
+  } catch (error) {
+    anvil.kill();
+    throw error;
+  }
+
+  const run = JSON.parse(readFileSync(join(ROOT, 'broadcast/Deploy.s.sol/31337/run-latest.json'), 'utf8'));
+  const addressOf = (name: string): string =>
+    run.transactions.find((tx: { contractName: string }) => tx.contractName === name).contractAddress;
+
+  return {
+    rpcUrl: RPC_URL,
+    yieldFarm: addressOf('YieldFarm'),
+    rewardToken: addressOf('YieldToken'),
+    lpToken: addressOf('MockLPToken'),
+    stop: () => anvil.kill()
+  };
+};
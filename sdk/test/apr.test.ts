@@ -0,0 +1,61 @@
+import { parseEther } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import { aprToApy, computePoolApr, getMultiplier, SECONDS_PER_YEAR } from '../src/index.js';
+
+// Mirrors DeployScript: 1 YFT per block, 2x bonus, one pool with 100 alloc points
+const schedule = {
+  rewardPerBlock: parseEther('1'),
+  bonusEndBlock: 1000n,
+  bonusMultiplier: 2n,
+  totalAllocPoint: 100n
+};
+
+describe('getMultiplier', () => {
+  it('matches the contract around bonusEndBlock', () => {
+    expect(getMultiplier(100n, 200n, schedule)).toBe(200n);
+    expect(getMultiplier(1000n, 1100n, schedule)).toBe(100n);
+    expect(getMultiplier(900n, 1100n, schedule)).toBe(300n);
+    expect(getMultiplier(200n, 100n, schedule)).toBe(0n);
+  });
+});
+
+describe('computePoolApr', () => {
+  // One block per second keeps blocksPerYear a round number
+  const options = { blockTime: 1, rewardTokenPrice: 1, lpTokenPrice: 1 };
+  const pool = { pid: 0, allocPoint: 50n, totalStaked: parseEther(String(SECONDS_PER_YEAR)), lpDecimals: 18 };
+
+  it('splits emissions by alloc points', () => {
+    const apr = computePoolApr(schedule, pool, { ...options, currentBlock: 0n });
+
+    expect(apr.rewardPerBlock).toBe(parseEther('0.5'));
+    expect(apr.postBonusApr).toBeCloseTo(0.5);
+    expect(apr.bonusApr).toBeCloseTo(1);
+  });
+
+  it('blends the bonus and post-bonus rates over the coming year', () => {
+    const duringBonus = computePoolApr(schedule, pool, { ...options, currentBlock: 500n });
+    const afterBonus = computePoolApr(schedule, pool, { ...options, currentBlock: 5000n });
+
+    expect(duringBonus.bonusActive).toBe(true);
+    expect(duringBonus.bonusBlocksRemaining).toBe(500n);
+    expect(duringBonus.apr).toBeCloseTo(0.5 * (SECONDS_PER_YEAR + 500) / SECONDS_PER_YEAR);
+    expect(afterBonus.bonusActive).toBe(false);
+    expect(afterBonus.apr).toBeCloseTo(0.5);
+    expect(afterBonus.apy).toBeCloseTo(aprToApy(0.5));
+  });
+
+  it('scales with token prices', () => {
+    const apr = computePoolApr(schedule, pool, { ...options, currentBlock: 5000n, rewardTokenPrice: 2, lpTokenPrice: 4 });
+
+    expect(apr.apr).toBeCloseTo(0.25);
+  });
+
+  it('returns null rates without prices or stake', () => {
+    const noPrice = computePoolApr(schedule, pool, { blockTime: 12, currentBlock: 0n });
+    const noStake = computePoolApr(schedule, { ...pool, totalStaked: 0n }, { ...options, currentBlock: 0n });
+
+    expect(noPrice.apr).toBeNull();
+    expect(noStake.bonusApr).toBeNull();
+    expect(noStake.rewardPerBlock).toBe(parseEther('0.5'));
+  });
+});
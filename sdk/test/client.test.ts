@@ -0,0 +1,259 @@
+import { JsonRpcProvider, MaxUint256, NonceManager, Wallet, parseEther } from 'ethers';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  checkRewardReserve,
+  decodeTransactionError,
+  EventIndexer,
+  findHarvestablePools,
+  harvestAll,
+  MemoryEventStore,
+  PendingRewardTracker,
+  previewRewardPayout,
+  validateStake,
+  YieldFarmClient
+} from '../src/index.js';
+import { DEPLOYER_KEY, TestDeployment, deployToAnvil } from './anvil.js';
+
+describe('YieldFarmClient', () => {
+  let deployment: TestDeployment;
+  let provider: JsonRpcProvider;
+  let signer: NonceManager;
+  let user: string;
+  let client: YieldFarmClient;
+  let snapshot: string;
+
+  const mine = (blocks: number) => provider.send('anvil_mine', [`0x${blocks.toString(16)}`]);
+
+  beforeAll(async () => {
+    deployment = await deployToAnvil();
+    provider = new JsonRpcProvider(deployment.rpcUrl);
+    const wallet = new Wallet(DEPLOYER_KEY, provider);
+    user = wallet.address;
+    signer = new NonceManager(wallet);
+    client = new YieldFarmClient(deployment.yieldFarm, signer);
+    // DeployScript starts farming 10 blocks after deployment
+    await mine(10);
+  });
+
+  beforeEach(async () => {
+    if (snapshot) {
+      await provider.send('evm_revert', [snapshot]);
+      signer.reset();
+    }
+    snapshot = await provider.send('evm_snapshot', []);
+  });
+
+  afterAll(() => {
+    provider?.destroy();
+    deployment?.stop();
+  });
+
+  it('reads farm parameters', async () => {
+    const info = await client.getFarmInfo();
+
+    expect(info.rewardToken).toBe(deployment.rewardToken);
+    expect(info.rewardPerBlock).toBe(parseEther('1'));
+    expect(info.bonusMultiplier).toBe(2n);
+    expect(info.totalAllocPoint).toBe(100n);
+    expect(info.poolCount).toBe(1);
+  });
+
+  it('lists pools with LP token metadata', async () => {
+    const pools = await client.getPools();
+
+    expect(pools).toHaveLength(1);
+    expect(pools[0]).toMatchObject({
+      pid: 0,
+      lpToken: deployment.lpToken,
+      symbol: 'mLP',
+      decimals: 18,
+      allocPoint: 100n,
+      minStakeAmount: parseEther('1'),
+      maxStakeAmount: parseEther('1000')
+    });
+  });
+
+  it('deposits after approving the LP token', async () => {
+    const amount = parseEther('10');
+
+    const approval = await client.ensureAllowance(0, amount);
+    await approval?.wait();
+    expect(await client.getAllowance(0, user)).toBe(amount);
+    expect(await client.ensureAllowance(0, amount)).toBeNull();
+
+    await (await client.deposit(0, amount)).wait();
+
+    const position = await client.getUserPosition(0, user);
+    expect(position.amount).toBe(amount);
+    expect((await client.getPool(0)).totalStaked).toBe(amount);
+  });
+
+  it('approves with the chosen strategy and revokes', async () => {
+    // MockLPToken is a plain ERC-20 without EIP-2612
+    expect(await client.supportsPermit(0)).toBe(false);
+    await expect(client.ensureAllowance(0, parseEther('1'), 'permit')).rejects.toThrow('does not support EIP-2612');
+
+    await (await client.ensureAllowance(0, parseEther('1'), 'unlimited'))!.wait();
+    expect(await client.getAllowance(0, user)).toBe(MaxUint256);
+
+    await (await client.revokeAllowance(0)).wait();
+    expect(await client.getAllowance(0, user)).toBe(0n);
+  });
+
+  it('accrues and harvests rewards', async () => {
+    const amount = parseEther('10');
+    await (await client.approve(0)).wait();
+    await (await client.deposit(0, amount)).wait();
+
+    await mine(5);
+    const pending = await client.pendingReward(0, user);
+    // Sole staker during the bonus period: 2 YFT per block
+    expect(pending).toBe(parseEther('10'));
+
+    const balanceBefore = await client.getRewardBalance(user);
+    await (await client.harvest(0)).wait();
+
+    // harvest() mines one more block of rewards
+    expect((await client.getRewardBalance(user)) - balanceBefore).toBe(parseEther('12'));
+    expect(await client.pendingReward(0, user)).toBe(0n);
+  });
+
+  it('harvests every pool with pending rewards in one queue', async () => {
+    await (await client.addPool(100, deployment.lpToken, parseEther('1'), parseEther('1000'), true)).wait();
+    await (await client.approve(0)).wait();
+    await (await client.deposit(0, parseEther('10'))).wait();
+    await (await client.deposit(1, parseEther('10'))).wait();
+    await mine(5);
+
+    expect((await findHarvestablePools(client, user)).map(({ pid }) => pid)).toEqual([0, 1]);
+
+    const balanceBefore = await client.getRewardBalance(user);
+    const result = await harvestAll(client, user);
+    const harvested = result.harvested.reduce((sum, { amount }) => sum + amount, 0n);
+
+    expect(result.failed).toBeUndefined();
+    expect(result.harvested.map(({ pid }) => pid)).toEqual([0, 1]);
+    expect(await client.getRewardBalance(user)).toBe(balanceBefore + harvested);
+  });
+
+  it('withdraws part of a stake and pays out rewards', async () => {
+    await (await client.approve(0)).wait();
+    await (await client.deposit(0, parseEther('10'))).wait();
+
+    await (await client.withdraw(0, parseEther('4'))).wait();
+
+    const position = await client.getUserPosition(0, user);
+    expect(position.amount).toBe(parseEther('6'));
+    expect(position.pendingReward).toBe(0n);
+  });
+
+  it('emergency withdraws the whole stake and forfeits rewards', async () => {
+    await (await client.approve(0)).wait();
+    await (await client.deposit(0, parseEther('10'))).wait();
+    await mine(3);
+
+    const lpBefore = await client.getLpBalance(0, user);
+    const rewardBefore = await client.getRewardBalance(user);
+    await (await client.emergencyWithdraw(0)).wait();
+
+    const position = await client.getUserPosition(0, user);
+    expect(position.amount).toBe(0n);
+    expect(position.pendingReward).toBe(0n);
+    expect((await client.getLpBalance(0, user)) - lpBefore).toBe(parseEther('10'));
+    expect(await client.getRewardBalance(user)).toBe(rewardBefore);
+  });
+
+  it('reports the reward an emergency withdraw forfeits', async () => {
+    await (await client.approve(0)).wait();
+    await (await client.deposit(0, parseEther('10'))).wait();
+    await mine(4);
+
+    const head = await provider.getBlockNumber();
+    const expected = await client.pendingRewardInBlock(0, user, head + 1);
+    expect(expected).toBeGreaterThan(await client.pendingReward(0, user));
+
+    const receipt = await (await client.emergencyWithdraw(0)).wait();
+    expect(receipt?.blockNumber).toBe(head + 1);
+    expect(await client.pendingRewardInBlock(0, user, receipt!.blockNumber)).toBe(expected);
+  });
+
+  it('extrapolates pending rewards to the same value pendingReward() returns', async () => {
+    await (await client.approve(0)).wait();
+    await (await client.deposit(0, parseEther('10'))).wait();
+    const tracker = new PendingRewardTracker(client.connect(provider), user);
+    await tracker.refresh();
+
+    await mine(7);
+    const head = await provider.getBlockNumber();
+
+    expect(tracker.extrapolate(head)?.pending[0]).toBe(await client.pendingReward(0, user));
+  });
+
+  it('lets the owner add and rebalance pools', async () => {
+    expect(await client.getOwner()).toBe(user);
+
+    await (await client.addPool(300, deployment.lpToken, parseEther('2'), parseEther('50'))).wait();
+    expect(await client.getPool(1)).toMatchObject({ allocPoint: 300n, minStakeAmount: parseEther('2'), maxStakeAmount: parseEther('50') });
+
+    await (await client.setPool(0, 200)).wait();
+    await (await client.updateRewardPerBlock(parseEther('3'))).wait();
+    const info = await client.getFarmInfo();
+    expect(info.totalAllocPoint).toBe(500n);
+    expect(info.rewardPerBlock).toBe(parseEther('3'));
+  });
+
+  it('pauses and unpauses deposits', async () => {
+    const changes: boolean[] = [];
+    const unsubscribe = client.connect(provider).onPausedChange((paused) => changes.push(paused));
+
+    await (await client.pause()).wait();
+    expect(await client.isPaused()).toBe(true);
+    await expect(client.deposit(0, parseEther('1'))).rejects.toThrow('paused');
+
+    await (await client.unpause()).wait();
+    expect(await client.isPaused()).toBe(false);
+    await vi.waitFor(() => expect(changes).toEqual([true, false]), { timeout: 10_000 });
+    unsubscribe();
+  });
+
+  it('measures the reward reserve against indexed liabilities', async () => {
+    await (await client.approve(0)).wait();
+    await (await client.deposit(0, parseEther('10'))).wait();
+    await mine(5);
+
+    const reader = client.connect(provider);
+    const indexer = new EventIndexer(deployment.yieldFarm, provider, new MemoryEventStore(), { fromBlock: 0, confirmations: 0 });
+    await indexer.sync();
+    const status = await checkRewardReserve(reader, await indexer.store.getEvents());
+
+    expect(status.positions).toBe(1);
+    expect(status.liabilities).toBe(await client.pendingReward(0, user));
+    expect(status.balance).toBe(await client.getRewardBalance(deployment.yieldFarm));
+    // Bonus period: 1 YFT per block doubled
+    expect(status.emissionPerBlock).toBe(parseEther('2'));
+    expect(status.blocksUntilDepletion).toBe(status.headroom / parseEther('2'));
+
+    const payout = await previewRewardPayout(reader, 0, user);
+    expect(payout.shortfall).toBe(0n);
+    expect(payout.payable).toBe(payout.pending);
+  });
+
+  it('reads stake limits and simulates deposits before sending', async () => {
+    await (await client.approve(0, parseEther('5'))).wait();
+    const limits = await client.getStakeLimits(0, user);
+
+    expect(limits).toMatchObject({ minStakeAmount: parseEther('1'), maxStakeAmount: parseEther('1000'), staked: 0n, allowance: parseEther('5') });
+    expect(validateStake(parseEther('5'), limits).error).toBeNull();
+    await client.simulateDeposit(0, parseEther('5'));
+
+    const rejection = await client.simulateDeposit(0, parseEther('0.5')).catch((error) => error);
+    expect(decodeTransactionError(rejection).category).toBe('belowMinimum');
+  });
+
+  it('rejects writes without a signer', async () => {
+    const readOnly = client.connect(provider);
+
+    await expect(readOnly.harvest(0)).rejects.toThrow('requires a signer');
+    expect((await readOnly.getPool(0)).symbol).toBe('mLP');
+  });
+});
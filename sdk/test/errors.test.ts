@@ -0,0 +1,45 @@
+import { makeError } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import { decodeTransactionError } from '../src/index.js';
+
+const revert = (reason: string) =>
+  makeError('execution reverted', 'CALL_EXCEPTION', {
+    action: 'estimateGas',
+    data: null,
+    reason,
+    transaction: { to: null, data: '0x' },
+    invocation: null,
+    revert: { signature: 'Error(string)', name: 'Error', args: [reason] }
+  });
+
+describe('decodeTransactionError', () => {
+  it('maps YieldFarm and OpenZeppelin revert strings', () => {
+    expect(decodeTransactionError(revert('Amount below minimum'))).toMatchObject({ category: 'belowMinimum', reason: 'Amount below minimum' });
+    expect(decodeTransactionError(revert('Amount exceeds maximum')).category).toBe('aboveMaximum');
+    expect(decodeTransactionError(revert('Insufficient balance')).category).toBe('insufficientStake');
+    expect(decodeTransactionError(revert('Pausable: paused')).category).toBe('paused');
+    expect(decodeTransactionError(revert('ERC20: insufficient allowance')).category).toBe('insufficientAllowance');
+    expect(decodeTransactionError(revert('SafeERC20: ERC20 operation did not succeed')).category).toBe('tokenTransferFailed');
+  });
+
+  it('finds reasons nested in wallet errors', () => {
+    const wallet = { code: -32603, message: 'Internal JSON-RPC error.', data: { message: 'execution reverted: Pausable: paused' } };
+    const wrapped = makeError('could not coalesce error', 'UNKNOWN_ERROR', { error: wallet });
+
+    expect(decodeTransactionError(wrapped)).toMatchObject({ category: 'paused', reason: 'Pausable: paused' });
+    expect(decodeTransactionError(wallet).category).toBe('paused');
+  });
+
+  it('recognises rejections and gas problems', () => {
+    expect(decodeTransactionError(makeError('user rejected action', 'ACTION_REJECTED', { action: 'sendTransaction', reason: 'rejected' })).category).toBe(
+      'userRejected'
+    );
+    expect(decodeTransactionError({ code: 4001, message: 'User denied transaction signature.' }).category).toBe('userRejected');
+    expect(decodeTransactionError(makeError('insufficient funds', 'INSUFFICIENT_FUNDS', { transaction: {} })).category).toBe('insufficientFunds');
+    expect(decodeTransactionError(new Error('intrinsic gas too low')).category).toBe('outOfGas');
+  });
+
+  it('falls back to a generic message', () => {
+    expect(decodeTransactionError(new Error('boom'))).toEqual({ category: 'unknown', message: 'The transaction failed. Please try again.' });
+  });
+});
@@ -0,0 +1,34 @@
+import { TransactionReceipt, Wallet } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import { parseRewardPaid, YieldFarm__factory, YieldFarmClient } from '../src/index.js';
+
+const farmAddress = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const user = Wallet.createRandom().address;
+const other = Wallet.createRandom().address;
+const farmInterface = YieldFarm__factory.createInterface();
+
+const log = (address: string, event: 'RewardPaid' | 'Deposit', account: string, pid: number, amount: bigint) => {
+  const { topics, data } = farmInterface.encodeEventLog(event, [account, pid, amount]);
+  return { address, topics, data };
+};
+
+describe('parseRewardPaid', () => {
+  it("keeps only this farm's RewardPaid events for the user", () => {
+    const client = new YieldFarmClient(farmAddress, Wallet.createRandom());
+    const receipt = {
+      hash: '0xabc',
+      logs: [
+        log(farmAddress, 'RewardPaid', user, 1, 5n),
+        log(farmAddress, 'Deposit', user, 1, 7n),
+        log(farmAddress, 'RewardPaid', other, 1, 3n),
+        log(other, 'RewardPaid', user, 1, 9n),
+        log(farmAddress.toLowerCase(), 'RewardPaid', user.toLowerCase(), 2, 4n)
+      ]
+    } as unknown as TransactionReceipt;
+
+    expect(parseRewardPaid(client, receipt, user)).toEqual([
+      { pid: 1, transactionHash: '0xabc', amount: 5n },
+      { pid: 2, transactionHash: '0xabc', amount: 4n }
+    ]);
+  });
+});
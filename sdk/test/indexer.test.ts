@@ -0,0 +1,173 @@
+import { Filter, Log, Provider, toBeHex } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import { EventIndexer, FarmEvent, MemoryEventStore, YieldFarm__factory } from '../src/index.js';
+
+const FARM = '0x00000000000000000000000000000000000000f4';
+const ALICE = '0x00000000000000000000000000000000000000a1';
+const BOB = '0x00000000000000000000000000000000000000b0';
+const iface = YieldFarm__factory.createInterface();
+
+interface StubLog {
+  name: 'Deposit' | 'Withdraw' | 'EmergencyWithdraw' | 'RewardPaid';
+  user: string;
+  pid: number;
+  amount: bigint;
+  block: number;
+  tx: string;
+}
+
+const toLog = (log: StubLog, index: number): Log => {
+  const { data, topics } = iface.encodeEventLog(log.name, [log.user, log.pid, log.amount]);
+  return {
+    address: FARM,
+    data,
+    topics,
+    index,
+    blockNumber: log.block,
+    blockHash: toBeHex(log.block, 32),
+    transactionHash: log.tx
+  } as unknown as Log;
+};
+
+interface StubState {
+  head: number;
+  logs: StubLog[];
+  requests: [number, number][];
+  // Mimics RPCs that reject wide block ranges
+  maxRange?: number;
+  // Errors thrown by the next getLogs calls, e.g. timeouts
+  failures?: Error[];
+  blockRequests?: number[];
+  // Blocks the node does not have yet
+  missingBlocks?: number[];
+}
+
+// Serves getLogs from a mutable list
+const stubProvider = (state: StubState) =>
+  ({
+    getBlockNumber: async () => state.head,
+    getBlock: async (block: number) => {
+      state.blockRequests?.push(block);
+      return state.missingBlocks?.includes(block) ? null : { timestamp: 1_700_000_000 + block * 12 };
+    },
+    getLogs: async (filter: Filter) => {
+      const from = Number(filter.fromBlock);
+      const to = Number(filter.toBlock);
+      state.requests.push([from, to]);
+      const failure = state.failures?.shift();
+      if (failure) throw failure;
+      if (state.maxRange !== undefined && to - from + 1 > state.maxRange) throw new Error('block range too large');
+      return state.logs.filter((log) => log.block >= from && log.block <= to).map(toLog);
+    }
+  }) as unknown as Provider;
+
+const tx = (n: number) => toBeHex(n, 32);
+
+describe('EventIndexer', () => {
+  it('backfills in chunks and decodes every farm event', async () => {
+    const state = {
+      head: 250,
+      requests: [] as [number, number][],
+      logs: [
+        { name: 'Deposit', user: ALICE, pid: 0, amount: 100n, block: 20, tx: tx(1) },
+        { name: 'RewardPaid', user: ALICE, pid: 0, amount: 5n, block: 120, tx: tx(2) },
+        { name: 'Withdraw', user: ALICE, pid: 0, amount: 40n, block: 120, tx: tx(2) },
+        { name: 'EmergencyWithdraw', user: BOB, pid: 1, amount: 7n, block: 240, tx: tx(3) }
+      ] as StubLog[]
+    };
+    const store = new MemoryEventStore();
+    const indexer = new EventIndexer(FARM, stubProvider(state), store, { fromBlock: 10, chunkSize: 100 });
+
+    expect(await indexer.sync()).toBe(250);
+    expect(state.requests).toEqual([[10, 109], [110, 209], [210, 250]]);
+    expect(await store.getCursor()).toBe(250);
+
+    const history = await store.getEvents({ user: ALICE.toUpperCase().replace('0X', '0x') });
+    expect(history.map((event) => event.type)).toEqual(['withdraw', 'rewardPaid', 'deposit']);
+    expect(history[2]).toMatchObject({ pid: 0, amount: 100n, blockNumber: 20, timestamp: 1_700_000_240 });
+    expect(await store.getEvents({ pid: 1 })).toHaveLength(1);
+  });
+
+  it('halves the chunk size when the RPC rejects a range', async () => {
+    const state = { head: 99, requests: [] as [number, number][], logs: [] as StubLog[], maxRange: 30 };
+    const indexer = new EventIndexer(FARM, stubProvider(state), new MemoryEventStore(), { chunkSize: 100 });
+
+    await indexer.sync();
+
+    expect(state.requests.slice(0, 3)).toEqual([[0, 99], [0, 49], [0, 24]]);
+    expect(state.requests.slice(3)).toEqual([[25, 49], [50, 74], [75, 99]]);
+  });
+
+  it('starts the next sync with the configured chunk size again', async () => {
+    const state: StubState = { head: 99, requests: [], logs: [], maxRange: 30 };
+    const indexer = new EventIndexer(FARM, stubProvider(state), new MemoryEventStore(), { chunkSize: 100, confirmations: 1 });
+
+    await indexer.sync();
+    state.maxRange = undefined;
+    state.head = 400;
+    state.requests = [];
+    await indexer.sync();
+
+    expect(state.requests).toEqual([[99, 198], [199, 298], [299, 398], [399, 400]]);
+  });
+
+  it('keeps the chunk size and rethrows when getLogs fails for another reason', async () => {
+    const state: StubState = { head: 99, requests: [], logs: [], failures: [new Error('timeout')] };
+    const indexer = new EventIndexer(FARM, stubProvider(state), new MemoryEventStore(), { chunkSize: 100 });
+
+    await expect(indexer.sync()).rejects.toThrow('timeout');
+    await indexer.sync();
+
+    expect(state.requests).toEqual([[0, 99], [0, 99]]);
+  });
+
+  it('fetches each block timestamp once and retries blocks the node does not have yet', async () => {
+    const state: StubState = {
+      head: 10,
+      requests: [],
+      blockRequests: [],
+      missingBlocks: [5],
+      logs: [
+        { name: 'Deposit', user: ALICE, pid: 0, amount: 1n, block: 5, tx: tx(1) },
+        { name: 'Deposit', user: BOB, pid: 0, amount: 2n, block: 5, tx: tx(1) },
+        { name: 'RewardPaid', user: ALICE, pid: 0, amount: 3n, block: 5, tx: tx(1) }
+      ] as StubLog[]
+    };
+    const store = new MemoryEventStore();
+    const indexer = new EventIndexer(FARM, stubProvider(state), store);
+
+    await expect(indexer.sync()).rejects.toThrow('Block 5 is not available yet');
+    expect(await store.getEvents()).toEqual([]);
+
+    state.missingBlocks = [];
+    await indexer.sync();
+
+    expect(state.blockRequests).toEqual([5, 5]);
+    expect((await store.getEvents()).map((event) => event.timestamp)).toEqual(Array(3).fill(1_700_000_060));
+  });
+
+  it('replaces events from reorged blocks within the confirmation window', async () => {
+    const state = {
+      head: 100,
+      requests: [] as [number, number][],
+      logs: [
+        { name: 'Deposit', user: ALICE, pid: 0, amount: 1n, block: 50, tx: tx(1) },
+        { name: 'Deposit', user: ALICE, pid: 0, amount: 2n, block: 98, tx: tx(2) }
+      ] as StubLog[]
+    };
+    const store = new MemoryEventStore();
+    const indexer = new EventIndexer(FARM, stubProvider(state), store, { confirmations: 5 });
+    const emitted: FarmEvent[][] = [];
+    indexer.onEvents((events) => emitted.push(events));
+
+    await indexer.sync();
+    // Block 98 is reorged out and the deposit lands in block 101 instead
+    state.logs[1] = { name: 'Deposit', user: ALICE, pid: 0, amount: 2n, block: 101, tx: tx(3) };
+    state.head = 102;
+    await indexer.sync();
+
+    expect(state.requests.at(-1)).toEqual([96, 102]);
+    expect((await store.getEvents()).map((event) => event.blockNumber)).toEqual([101, 50]);
+    expect(emitted.map((events) => events.length)).toEqual([2, 1]);
+  });
+});
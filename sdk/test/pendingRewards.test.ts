@@ -0,0 +1,101 @@
+import { EventEmitter } from 'node:events';
+import { parseEther } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import { PendingRewardTracker, PendingRewardUpdate, pendingRewardAt, YieldFarmClient } from '../src/index.js';
+
+// Mirrors DeployScript: 1 YFT per block, 2x bonus, one pool with 100 alloc points
+const schedule = {
+  rewardPerBlock: parseEther('1'),
+  bonusEndBlock: 1000n,
+  bonusMultiplier: 2n,
+  totalAllocPoint: 100n
+};
+
+describe('pendingRewardAt', () => {
+  const pool = { allocPoint: 100n, lastRewardBlock: 990n, accTokenPerShare: 0n, totalStaked: parseEther('10') };
+  const user = { amount: parseEther('5'), rewardDebt: 0n, pendingRewards: 0n };
+
+  it('accrues the user share of the pool emission, with the bonus until bonusEndBlock', () => {
+    expect(pendingRewardAt(pool, user, schedule, 990n)).toBe(0n);
+    // 10 bonus blocks at 2 YFT, half of the pool
+    expect(pendingRewardAt(pool, user, schedule, 1000n)).toBe(parseEther('10'));
+    expect(pendingRewardAt(pool, user, schedule, 1010n)).toBe(parseEther('15'));
+  });
+
+  it('applies rewardDebt, carried-over rewards and the 1e12 rounding like the contract', () => {
+    const thirds = { ...pool, totalStaked: parseEther('3') };
+    const carried = { amount: parseEther('1'), rewardDebt: parseEther('1'), pendingRewards: parseEther('0.5') };
+
+    // accTokenPerShare += 20e18 * 1e12 / 3e18 = 6666666666666 (rounded down)
+    expect(pendingRewardAt(thirds, carried, schedule, 1000n)).toBe(6666666666666000000n - parseEther('1') + parseEther('0.5'));
+  });
+
+  it('stays flat while nothing is staked or the pool has no allocation', () => {
+    expect(pendingRewardAt({ ...pool, totalStaked: 0n }, user, schedule, 1000n)).toBe(0n);
+    expect(pendingRewardAt(pool, user, { ...schedule, totalAllocPoint: 0n }, 1000n)).toBe(0n);
+  });
+});
+
+describe('PendingRewardTracker', () => {
+  // A one-pool farm whose state can be changed between blocks; reads honour blockTag
+  const createFarm = () => {
+    const state = { totalStaked: parseEther('10'), head: 100 };
+    const provider = Object.assign(new EventEmitter(), { getBlockNumber: async () => state.head });
+    const farm = {
+      rewardPerBlock: async () => schedule.rewardPerBlock,
+      bonusEndBlock: async () => schedule.bonusEndBlock,
+      BONUS_MULTIPLIER: async () => schedule.bonusMultiplier,
+      totalAllocPoint: async () => schedule.totalAllocPoint,
+      poolLength: async () => 1n,
+      getPoolInfo: async () => ({ allocPoint: 100n, lastRewardBlock: 100n, accTokenPerShare: 0n, totalStaked: state.totalStaked }),
+      getUserInfo: async () => ({ amount: parseEther('10'), rewardDebt: 0n, pendingRewards: 0n }),
+      pendingReward: async (_pid: number, _user: string, { blockTag }: { blockTag: number }) =>
+        pendingRewardAt(
+          { allocPoint: 100n, lastRewardBlock: 100n, accTokenPerShare: 0n, totalStaked: state.totalStaked },
+          { amount: parseEther('10'), rewardDebt: 0n, pendingRewards: 0n },
+          schedule,
+          BigInt(blockTag)
+        )
+    };
+    const client = { farm, runner: { provider } } as unknown as YieldFarmClient;
+    return { state, provider, client };
+  };
+
+  const nextUpdate = (tracker: PendingRewardTracker) =>
+    new Promise<PendingRewardUpdate>((resolve) => {
+      const unsubscribe = tracker.onUpdate((update) => {
+        unsubscribe();
+        resolve(update);
+      });
+    });
+
+  it('extrapolates between reconciles and reports drift when the chain disagrees', async () => {
+    const { state, provider, client } = createFarm();
+    const tracker = new PendingRewardTracker(client, '0x00000000000000000000000000000000000000a1', { reconcileEvery: 3 });
+    const first = nextUpdate(tracker);
+    await tracker.start();
+    expect(await first).toMatchObject({ blockNumber: 100, total: 0n, reconciled: true, drift: [] });
+
+    const ticked = nextUpdate(tracker);
+    provider.emit('block', 101);
+    expect(await ticked).toMatchObject({ blockNumber: 101, pending: { 0: parseEther('2') }, reconciled: false });
+
+    // Someone else doubles the pool's stake, so the local estimate is now twice the real accrual
+    state.totalStaked = parseEther('20');
+    const reconciled = nextUpdate(tracker);
+    provider.emit('block', 103);
+    expect(await reconciled).toMatchObject({
+      blockNumber: 103,
+      total: parseEther('3'),
+      reconciled: true,
+      drift: [{ pid: 0, expected: parseEther('6'), actual: parseEther('3') }]
+    });
+
+    // Extrapolation continues from the new snapshot
+    const rebased = nextUpdate(tracker);
+    provider.emit('block', 104);
+    expect((await rebased).total).toBe(parseEther('4'));
+    await tracker.stop();
+    expect(provider.listenerCount('block')).toBe(0);
+  });
+});
@@ -0,0 +1,26 @@
+import { TypedDataEncoder, ZeroHash } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import { matchPermitDomain } from '../src/index.js';
+
+const token = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+describe('matchPermitDomain', () => {
+  it('finds the version the token signs with', () => {
+    const separator = TypedDataEncoder.hashDomain({ name: 'USD Coin', version: '2', chainId: 1n, verifyingContract: token });
+
+    expect(matchPermitDomain('USD Coin', 1n, token, separator)).toEqual({
+      name: 'USD Coin',
+      version: '2',
+      chainId: 1n,
+      verifyingContract: token
+    });
+  });
+
+  it('returns null when the separator was built from another name or chain', () => {
+    const separator = TypedDataEncoder.hashDomain({ name: 'LP', version: '1', chainId: 31337n, verifyingContract: token });
+
+    expect(matchPermitDomain('LP', 1n, token, separator)).toBeNull();
+    expect(matchPermitDomain('Other LP', 31337n, token, separator)).toBeNull();
+    expect(matchPermitDomain('LP', 31337n, token, ZeroHash)).toBeNull();
+  });
+});
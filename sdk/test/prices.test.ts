@@ -0,0 +1,124 @@
+import { ContractRunner, Interface, parseEther, parseUnits, TransactionRequest } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import {
+  CachedPriceSource,
+  ChainlinkPriceSource,
+  ConstantPriceSource,
+  FallbackPriceSource,
+  getPrices,
+  PriceSource,
+  UniswapV2PairPriceSource
+} from '../src/index.js';
+
+const iface = new Interface([
+  'function decimals() view returns (uint8)',
+  'function latestRoundData() view returns (uint80, int256, uint256, uint256, uint80)',
+  'function token0() view returns (address)',
+  'function token1() view returns (address)',
+  'function getReserves() view returns (uint112, uint112, uint32)',
+  'function totalSupply() view returns (uint256)'
+]);
+
+// Answers eth_call from a table of canned return values; anything missing reverts
+const stubRunner = (contracts: Record<string, Record<string, unknown[]>>): ContractRunner => ({
+  provider: null,
+  call: async (tx: TransactionRequest) => {
+    const fragment = iface.getFunction((tx.data as string).slice(0, 10))!;
+    const result = contracts[String(tx.to).toLowerCase()]?.[fragment.name];
+    if (!result) throw new Error('execution reverted');
+    return iface.encodeFunctionResult(fragment, result);
+  }
+});
+
+const WETH = '0x00000000000000000000000000000000000000e1';
+const USDC = '0x00000000000000000000000000000000000000c1';
+const PAIR = '0x00000000000000000000000000000000000000a1';
+const FEED = '0x00000000000000000000000000000000000000f1';
+
+describe('ConstantPriceSource', () => {
+  it('looks prices up case-insensitively', async () => {
+    const source = new ConstantPriceSource({ '0x00000000000000000000000000000000000000E1': 2000 });
+
+    expect(await source.getPrice(WETH)).toBe(2000);
+    expect(await source.getPrice(USDC)).toBeUndefined();
+  });
+});
+
+describe('ChainlinkPriceSource', () => {
+  const now = Math.floor(Date.now() / 1000);
+  const runner = (updatedAt: number, answer = parseUnits('2000', 8)) =>
+    stubRunner({ [FEED]: { decimals: [8], latestRoundData: [1, answer, updatedAt, updatedAt, 1] } });
+
+  it('scales the answer by the feed decimals', async () => {
+    const source = new ChainlinkPriceSource(runner(now), { [WETH]: FEED });
+
+    expect(await source.getPrice(WETH)).toBe(2000);
+    expect(await source.getPrice(USDC)).toBeUndefined();
+  });
+
+  it('ignores stale and non-positive answers', async () => {
+    const stale = new ChainlinkPriceSource(runner(now - 7200), { [WETH]: FEED }, { maxAgeSeconds: 3600 });
+    const negative = new ChainlinkPriceSource(runner(now, -1n), { [WETH]: FEED });
+
+    expect(await stale.getPrice(WETH)).toBeUndefined();
+    expect(await negative.getPrice(WETH)).toBeUndefined();
+  });
+});
+
+describe('UniswapV2PairPriceSource', () => {
+  // 10 WETH + 20,000 USDC backing 100 LP tokens
+  const runner = stubRunner({
+    [PAIR]: {
+      token0: [WETH],
+      token1: [USDC],
+      getReserves: [parseEther('10'), parseUnits('20000', 6), 0],
+      totalSupply: [parseEther('100')],
+      decimals: [18]
+    },
+    [WETH]: { decimals: [18] },
+    [USDC]: { decimals: [6] }
+  });
+
+  it('values LP tokens from both reserves', async () => {
+    const source = new UniswapV2PairPriceSource(runner, new ConstantPriceSource({ [WETH]: 2000, [USDC]: 1 }));
+
+    expect(await source.getPrice(PAIR)).toBeCloseTo(400);
+  });
+
+  it('assumes a balanced pool when one side is unpriced', async () => {
+    const source = new UniswapV2PairPriceSource(runner, new ConstantPriceSource({ [USDC]: 1 }));
+
+    expect(await source.getPrice(PAIR)).toBeCloseTo(400);
+  });
+
+  it('returns undefined for tokens that are not pairs', async () => {
+    const source = new UniswapV2PairPriceSource(runner, new ConstantPriceSource({ [USDC]: 1 }));
+
+    expect(await source.getPrice(WETH)).toBeUndefined();
+  });
+});
+
+describe('composition', () => {
+  const failing: PriceSource = { getPrice: async () => { throw new Error('rpc down'); } };
+
+  it('falls back past failing and empty sources', async () => {
+    const source = new FallbackPriceSource([failing, new ConstantPriceSource(), new ConstantPriceSource({ [WETH]: 1900 })]);
+
+    expect(await source.getPrice(WETH)).toBe(1900);
+  });
+
+  it('caches answers until they expire', async () => {
+    const constant = new ConstantPriceSource({ [WETH]: 2000 });
+    const cached = new CachedPriceSource(constant, 60_000);
+
+    expect(await cached.getPrice(WETH)).toBe(2000);
+    constant.set(WETH, 2100);
+    expect(await cached.getPrice(WETH)).toBe(2000);
+  });
+
+  it('prices a batch of tokens and skips unknown ones', async () => {
+    const prices = await getPrices(new ConstantPriceSource({ [WETH]: 2000 }), [WETH, USDC, WETH]);
+
+    expect(prices).toEqual({ [WETH]: 2000 });
+  });
+});
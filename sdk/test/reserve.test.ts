@@ -0,0 +1,50 @@
+import { parseEther } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import { estimateDepletionBlocks, FarmEvent, FarmEventType, replayStakes } from '../src/index.js';
+
+const schedule = { bonusEndBlock: 1000n, bonusMultiplier: 2n };
+
+describe('estimateDepletionBlocks', () => {
+  it('counts bonus blocks at the multiplied rate', () => {
+    // 2 YFT per bonus block
+    expect(estimateDepletionBlocks(parseEther('10'), parseEther('1'), schedule, 900n)).toBe(5n);
+    // 100 bonus blocks use 200 YFT, the remaining 50 last 50 blocks at 1 YFT
+    expect(estimateDepletionBlocks(parseEther('250'), parseEther('1'), schedule, 900n)).toBe(150n);
+    expect(estimateDepletionBlocks(parseEther('250'), parseEther('1'), schedule, 1000n)).toBe(250n);
+  });
+
+  it('reports 0 when already short and null when nothing accrues', () => {
+    expect(estimateDepletionBlocks(-1n, parseEther('1'), schedule, 900n)).toBe(0n);
+    expect(estimateDepletionBlocks(0n, parseEther('1'), schedule, 900n)).toBe(0n);
+    expect(estimateDepletionBlocks(parseEther('10'), 0n, schedule, 900n)).toBeNull();
+  });
+});
+
+describe('replayStakes', () => {
+  let logIndex = 0;
+  const event = (type: FarmEventType, user: string, pid: number, amount: bigint, blockNumber: number): FarmEvent => ({
+    id: `0x${blockNumber}:${logIndex}`,
+    type,
+    user,
+    pid,
+    amount,
+    blockNumber,
+    blockHash: '0x',
+    transactionHash: '0x',
+    logIndex: logIndex++,
+    timestamp: 0
+  });
+
+  it('replays positions in block order regardless of input order', () => {
+    const stakes = replayStakes([
+      event('withdraw', '0xAA', 0, 3n, 12),
+      event('deposit', '0xaa', 0, 10n, 10),
+      event('rewardPaid', '0xaa', 0, 7n, 12),
+      event('deposit', '0xbb', 1, 5n, 11),
+      event('emergencyWithdraw', '0xbb', 1, 5n, 13)
+    ]);
+
+    expect(stakes.get('0xaa:0')).toBe(7n);
+    expect(stakes.get('0xbb:1')).toBe(0n);
+  });
+});
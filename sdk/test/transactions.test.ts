@@ -0,0 +1,124 @@
+import { makeError, TransactionReceipt, TransactionResponse } from 'ethers';
+import { describe, expect, it, vi } from 'vitest';
+import { MemoryTransactionStorage, TrackedTransaction, TransactionTracker } from '../src/index.js';
+
+const receipt = (hash: string, blockNumber: number, status = 1) => ({ hash, blockNumber, status }) as unknown as TransactionReceipt;
+
+// Just enough of a TransactionResponse: wait(1) and wait(confirmations) resolve or reject as scripted
+const response = (hash: string, nonce: number, wait: (confirms: number) => Promise<TransactionReceipt | null>) => {
+  const tx = { hash, nonce, from: '0xuser', chainId: 31337n, wait: vi.fn(wait) } as unknown as TransactionResponse;
+  (tx as unknown as { replaceableTransaction: () => TransactionResponse }).replaceableTransaction = () => tx;
+  return tx;
+};
+
+const provider = (overrides: Record<string, unknown> = {}) =>
+  ({
+    getBlockNumber: async () => 100,
+    getNetwork: async () => ({ chainId: 31337n }),
+    getTransaction: async () => null,
+    getTransactionCount: async () => 0,
+    ...overrides
+  }) as never;
+
+describe('TransactionTracker', () => {
+  it('moves a transaction from submitted to mined to confirmed', async () => {
+    const storage = new MemoryTransactionStorage();
+    const tracker = new TransactionTracker(provider(), storage, { confirmations: 3 });
+    const statuses: string[] = [];
+    tracker.onChange(([tx]) => statuses.push(tx.status));
+
+    let confirm!: () => void;
+    const tx = response('0xa', 1, (confirms) =>
+      confirms === 1 ? Promise.resolve(receipt('0xa', 101)) : new Promise((resolve) => (confirm = () => resolve(receipt('0xa', 101))))
+    );
+    await expect(tracker.track(tx, { kind: 'deposit', label: 'Stake 10 mLP', pid: 0 })).resolves.toMatchObject({ blockNumber: 101 });
+
+    expect(tracker.inFlight()).toHaveLength(1);
+    confirm();
+    await vi.waitFor(() => expect(tracker.list()[0].status).toBe('confirmed'));
+    expect(statuses).toEqual(['submitted', 'mined', 'confirmed']);
+    expect(storage.load()[0]).toMatchObject({ hash: '0xa', kind: 'deposit', pid: 0, startBlock: 100, blockNumber: 101 });
+  });
+
+  it('records reverts with the decoded message', async () => {
+    const tracker = new TransactionTracker(provider(), new MemoryTransactionStorage());
+    const revert = makeError('execution reverted', 'CALL_EXCEPTION', {
+      action: 'sendTransaction',
+      data: null,
+      reason: 'Amount below minimum',
+      transaction: { to: null, data: '0x' },
+      invocation: null,
+      revert: null
+    });
+
+    await expect(tracker.track(response('0xb', 1, () => Promise.reject(revert)), { kind: 'deposit', label: 'Stake' })).rejects.toBe(revert);
+    expect(tracker.list()[0]).toMatchObject({ status: 'failed', error: expect.stringContaining('minimum') });
+  });
+
+  it('follows a sped-up transaction and reports cancellations', async () => {
+    const tracker = new TransactionTracker(provider(), new MemoryTransactionStorage(), { confirmations: 1 });
+    const speedUp = response('0xfast', 1, async () => receipt('0xfast', 102));
+    const replaced = (reason: string, replacement: TransactionResponse) =>
+      makeError('transaction was replaced', 'TRANSACTION_REPLACED', {
+        cancelled: reason !== 'repriced',
+        reason: reason as 'repriced',
+        replacement,
+        hash: replacement.hash,
+        receipt: receipt(replacement.hash, 102)
+      });
+
+    const slow = response('0xslow', 1, () => Promise.reject(replaced('repriced', speedUp)));
+    await expect(tracker.track(slow, { kind: 'harvest', label: 'Harvest' })).resolves.toMatchObject({ hash: '0xfast' });
+    expect(tracker.list().map(({ hash, status, replacement }) => ({ hash, status, replacement }))).toEqual([
+      { hash: '0xfast', status: 'confirmed', replacement: undefined },
+      { hash: '0xslow', status: 'replaced', replacement: 'repriced' }
+    ]);
+
+    const cancel = response('0xcancel', 2, async () => receipt('0xcancel', 103));
+    await expect(tracker.track(response('0xc', 2, () => Promise.reject(replaced('cancelled', cancel))), { kind: 'deposit', label: 'Stake' })).rejects.toThrow(
+      'replaced'
+    );
+    expect(tracker.list()[0]).toMatchObject({ hash: '0xc', status: 'replaced', replacement: 'cancelled', replacedBy: '0xcancel' });
+  });
+
+  it('keeps in-flight transactions and trims the oldest finished ones', async () => {
+    const tracker = new TransactionTracker(provider(), new MemoryTransactionStorage(), { confirmations: 1, historySize: 2 });
+    const stuck = response('0x0', 0, () => new Promise(() => undefined));
+    tracker.track(stuck, { kind: 'approve', label: 'Approve' });
+
+    for (let i = 1; i <= 3; i++) {
+      await tracker.track(response(`0x${i}`, i, async () => receipt(`0x${i}`, 100 + i)), { kind: 'harvest', label: 'Harvest' });
+    }
+
+    expect(tracker.list().map((tx) => tx.hash)).toEqual(['0x3', '0x2', '0x0']);
+    tracker.clearFinished();
+    expect(tracker.list().map((tx) => tx.hash)).toEqual(['0x0']);
+  });
+
+  it('resumes persisted transactions after a reload', async () => {
+    const saved = (hash: string, nonce: number): TrackedTransaction => ({
+      hash,
+      kind: 'deposit',
+      label: 'Stake',
+      from: '0xuser',
+      nonce,
+      chainId: 31337,
+      startBlock: 90,
+      submittedAt: 0,
+      status: 'submitted'
+    });
+    const storage = new MemoryTransactionStorage();
+    storage.save([saved('0xlive', 5), saved('0xgone', 4)]);
+
+    const live = response('0xlive', 5, async () => receipt('0xlive', 95));
+    const tracker = new TransactionTracker(
+      provider({ getTransaction: async (hash: string) => (hash === '0xlive' ? live : null), getTransactionCount: async () => 5 }),
+      storage,
+      { confirmations: 1 }
+    );
+    await tracker.resume();
+
+    await vi.waitFor(() => expect(tracker.list().find((tx) => tx.hash === '0xlive')?.status).toBe('confirmed'));
+    expect(tracker.list().find((tx) => tx.hash === '0xgone')).toMatchObject({ status: 'replaced', replacement: 'replaced' });
+  });
+});
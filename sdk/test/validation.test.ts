@@ -0,0 +1,37 @@
+import { parseEther } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import { maxStakeAmount, validateStake } from '../src/index.js';
+
+// Mirrors DeployScript's pool: 1 to 1000 LP per user
+const limits = {
+  minStakeAmount: parseEther('1'),
+  maxStakeAmount: parseEther('1000'),
+  staked: parseEther('990'),
+  balance: parseEther('50'),
+  allowance: parseEther('5')
+};
+
+describe('validateStake', () => {
+  it('checks the same limits as YieldFarm.deposit', () => {
+    expect(validateStake(parseEther('0.5'), limits).error).toBe('belowMinimum');
+    expect(validateStake(parseEther('11'), limits).error).toBe('aboveMaximum');
+    expect(validateStake(parseEther('60'), { ...limits, staked: 0n }).error).toBe('insufficientTokenBalance');
+  });
+
+  it('flags deposits that need an approval first', () => {
+    expect(validateStake(parseEther('5'), limits)).toEqual({ error: null, needsApproval: false });
+    expect(validateStake(parseEther('10'), limits)).toEqual({ error: null, needsApproval: true });
+  });
+});
+
+describe('maxStakeAmount', () => {
+  it('is bounded by the remaining room and the wallet balance', () => {
+    expect(maxStakeAmount(limits)).toBe(parseEther('10'));
+    expect(maxStakeAmount({ ...limits, staked: 0n })).toBe(parseEther('50'));
+  });
+
+  it('is zero when no deposit would clear the minimum', () => {
+    expect(maxStakeAmount({ ...limits, staked: parseEther('999.5') })).toBe(0n);
+    expect(maxStakeAmount({ ...limits, balance: parseEther('0.1') })).toBe(0n);
+  });
+});